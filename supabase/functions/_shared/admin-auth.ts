@@ -0,0 +1,40 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+
+// Authorization for operator endpoints: the service role key itself (cron jobs, scripts),
+// or the session of a user listed in queue_admins, which only the service role can write.
+
+export interface AdminActor {
+  actor: string;                  // Admin user ID, or 'service_role'
+  role: 'service_role' | 'admin';
+}
+
+export function bearerToken(req: Request): string | null {
+  const header = req.headers.get('Authorization');
+  return header?.startsWith('Bearer ') ? header.substring('Bearer '.length) : null;
+}
+
+/** Resolves who is calling, or null when the request is not from the service role or an admin. */
+export async function authenticateAdmin(
+  supabase: SupabaseClient,
+  req: Request,
+  serviceRoleKey: string
+): Promise<AdminActor | null> {
+  const token = bearerToken(req);
+  if (!token) return null;
+
+  if (token === serviceRoleKey) {
+    return { actor: 'service_role', role: 'service_role' };
+  }
+
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  if (error || !user) return null;
+
+  const { data: admin, error: adminError } = await supabase
+    .from('queue_admins')
+    .select('user_id')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (adminError) throw adminError;
+  return admin ? { actor: user.id, role: 'admin' } : null;
+}
@@ -0,0 +1,221 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { addDays, DateRange, dayOfWeek, todayInTimezone, zonedTimeToUtc } from './dates.ts';
+import { WasteLogSource, WasteOutcome } from './waste-log.ts';
+
+// Consumption and waste analytics over the outcome log (waste_log), the current inventory
+// (food_items) and the reminder history (expiring_items_queue). Shared by the
+// consumption-analytics function and the bot's /stats command.
+//
+// Every logged outcome falls in one bucket:
+// - consumed:  marked eaten/used, before or after its date
+// - discarded: thrown away from a notification before its date
+// - expired:   passed its date and was thrown away, or never answered
+
+export interface OutcomeCounts {
+  consumed: number;
+  discarded: number;
+  expired: number;
+}
+
+export interface OutcomeTotals extends OutcomeCounts {
+  total: number;
+  wasted: number;       // discarded + expired
+  waste_rate: number;   // wasted / total, 0 when nothing was logged
+}
+
+export interface CategoryStats extends OutcomeTotals {
+  category: string;
+}
+
+export interface WeeklyStats extends OutcomeTotals {
+  week_start: string;   // Monday, in the report's time zone
+}
+
+export interface ChartSeries {
+  labels: string[];
+  datasets: { key: keyof OutcomeCounts; label: string; data: number[] }[];
+}
+
+export interface OutcomeReport {
+  range: DateRange & { timezone: string };
+  totals: OutcomeTotals;
+  by_category: CategoryStats[];
+  most_wasted_categories: { category: string; wasted: number }[];
+  weekly: WeeklyStats[];
+  week_over_week: {
+    week_start: string;
+    wasted_change: number | null;    // Relative to the previous week; null when it had none
+    consumed_change: number | null;
+  } | null;
+  series: ChartSeries;
+  inventory: {
+    tracked_food_items: number;
+    expiring_within_7_days: number;
+  };
+  reminders_sent: number;
+}
+
+interface OutcomeRow {
+  category: string;
+  outcome: WasteOutcome;
+  source: WasteLogSource;
+  resolved_at: string;
+}
+
+const MOST_WASTED_LIMIT = 5;
+
+const SERIES_LABELS: Record<keyof OutcomeCounts, string> = {
+  consumed: 'Consumed',
+  discarded: 'Discarded',
+  expired: 'Expired',
+};
+
+function bucketOf(row: OutcomeRow): keyof OutcomeCounts {
+  if (row.outcome === 'used') return 'consumed';
+  return row.source === 'expired_sweep' ? 'expired' : 'discarded';
+}
+
+function emptyCounts(): OutcomeCounts {
+  return { consumed: 0, discarded: 0, expired: 0 };
+}
+
+function withTotals<T extends OutcomeCounts>(counts: T): T & OutcomeTotals {
+  const total = counts.consumed + counts.discarded + counts.expired;
+  const wasted = counts.discarded + counts.expired;
+  return { ...counts, total, wasted, waste_rate: total > 0 ? Math.round((wasted / total) * 1000) / 1000 : 0 };
+}
+
+function relativeChange(current: number, previous: number): number | null {
+  return previous > 0 ? Math.round(((current - previous) / previous) * 1000) / 1000 : null;
+}
+
+/** Monday of the week the date falls in. */
+export function weekStart(date: string): string {
+  return addDays(date, -((dayOfWeek(date) + 6) % 7));
+}
+
+// PostgREST returns at most this many rows per request; outcomes are read page by page
+const OUTCOME_PAGE_SIZE = 1000;
+
+// The resolved outcomes of the users in [from, until)
+async function loadOutcomeRows(supabase: SupabaseClient, userIds: string[], from: string, until: string): Promise<OutcomeRow[]> {
+  const rows: OutcomeRow[] = [];
+  for (let offset = 0; ; offset += OUTCOME_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('waste_log')
+      .select('category, outcome, source, resolved_at')
+      .in('user_id', userIds)
+      .not('outcome', 'is', null)
+      .gte('resolved_at', from)
+      .lt('resolved_at', until)
+      .order('resolved_at')
+      .order('id')
+      .range(offset, offset + OUTCOME_PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    const page = (data || []) as OutcomeRow[];
+    rows.push(...page);
+    if (page.length < OUTCOME_PAGE_SIZE) return rows;
+  }
+}
+
+/** Builds the report for the given users over [range.start, range.end], with days in `timezone`. */
+export async function buildOutcomeReport(
+  supabase: SupabaseClient,
+  userIds: string[],
+  range: DateRange,
+  timezone: string,
+  now = new Date()
+): Promise<OutcomeReport> {
+  const from = zonedTimeToUtc(range.start, 0, timezone).toISOString();
+  const until = zonedTimeToUtc(addDays(range.end, 1), 0, timezone).toISOString();
+  const today = todayInTimezone(timezone, now);
+
+  const [rows, tracked, expiringSoon, reminders] = await Promise.all([
+    loadOutcomeRows(supabase, userIds, from, until),
+    supabase
+      .from('food_items')
+      .select('id', { count: 'exact', head: true })
+      .in('user_id', userIds)
+      .eq('status', 'active'),
+    supabase
+      .from('food_items')
+      .select('id', { count: 'exact', head: true })
+      .in('user_id', userIds)
+      .eq('status', 'active')
+      .gte('expiration_date', today)
+      .lte('expiration_date', addDays(today, 7)),
+    supabase
+      .from('expiring_items_queue')
+      .select('id', { count: 'exact', head: true })
+      .in('user_id', userIds)
+      .eq('status', 'sent')
+      .gte('processed_at', from)
+      .lt('processed_at', until),
+  ]);
+
+  if (tracked.error) throw tracked.error;
+  if (expiringSoon.error) throw expiringSoon.error;
+  if (reminders.error) throw reminders.error;
+
+  // Every week of the range, including empty ones, so the series has no gaps
+  const weeks = new Map<string, OutcomeCounts>();
+  for (let week = weekStart(range.start); week <= range.end; week = addDays(week, 7)) {
+    weeks.set(week, emptyCounts());
+  }
+
+  const totals = emptyCounts();
+  const categories = new Map<string, OutcomeCounts>();
+
+  for (const row of rows) {
+    const bucket = bucketOf(row);
+    totals[bucket]++;
+
+    const category = categories.get(row.category) || emptyCounts();
+    category[bucket]++;
+    categories.set(row.category, category);
+
+    const week = weeks.get(weekStart(todayInTimezone(timezone, new Date(row.resolved_at))));
+    if (week) week[bucket]++;
+  }
+
+  const byCategory = [...categories.entries()]
+    .map(([category, counts]) => withTotals({ category, ...counts }))
+    .sort((a, b) => b.total - a.total || a.category.localeCompare(b.category));
+
+  const weekly = [...weeks.entries()].map(([week_start, counts]) => withTotals({ week_start, ...counts }));
+  const [previousWeek, currentWeek] = weekly.slice(-2);
+
+  return {
+    range: { ...range, timezone },
+    totals: withTotals(totals),
+    by_category: byCategory,
+    most_wasted_categories: byCategory
+      .filter(category => category.wasted > 0)
+      .sort((a, b) => b.wasted - a.wasted || a.category.localeCompare(b.category))
+      .slice(0, MOST_WASTED_LIMIT)
+      .map(({ category, wasted }) => ({ category, wasted })),
+    weekly,
+    week_over_week: currentWeek && previousWeek
+      ? {
+        week_start: currentWeek.week_start,
+        wasted_change: relativeChange(currentWeek.wasted, previousWeek.wasted),
+        consumed_change: relativeChange(currentWeek.consumed, previousWeek.consumed),
+      }
+      : null,
+    series: {
+      labels: weekly.map(week => week.week_start),
+      datasets: (Object.keys(SERIES_LABELS) as (keyof OutcomeCounts)[]).map(key => ({
+        key,
+        label: SERIES_LABELS[key],
+        data: weekly.map(week => week[key]),
+      })),
+    },
+    inventory: {
+      tracked_food_items: tracked.count || 0,
+      expiring_within_7_days: expiringSoon.count || 0,
+    },
+    reminders_sent: reminders.count || 0,
+  };
+}
@@ -0,0 +1,236 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { logger } from './logger.ts';
+
+// Users' Gemini API keys, stored encrypted in user_api_keys. Keys are encrypted with
+// AES-256-GCM under API_KEY_ENCRYPTION_KEY (32 bytes, base64), a server-side key the database
+// never sees; the user and provider are bound in as additional data, so a ciphertext copied to
+// another row does not decrypt. Callers outside this module only get the masked status, except
+// loadGeminiApiKey for functions that call Gemini on the user's behalf.
+
+export type ApiKeyProvider = 'gemini';
+
+export interface ApiKeyStatus {
+  configured: boolean;
+  masked: string | null;       // e.g. '••••wXyZ'
+  verified: boolean;
+  verified_at: string | null;
+  updated_at: string | null;
+}
+
+export interface SaveApiKeyResult extends ApiKeyStatus {
+  rotated: boolean;            // A previous key was replaced
+}
+
+interface ApiKeyRow {
+  ciphertext: string;
+  iv: string;
+  key_suffix: string;
+  verified: boolean;
+  verified_at: string | null;
+  updated_at: string | null;
+}
+
+const PROVIDER: ApiKeyProvider = 'gemini';
+const SUFFIX_LENGTH = 4;
+const GEMINI_MODELS_URL = 'https://generativelanguage.googleapis.com/v1beta/models?pageSize=1';
+const GEMINI_KEY_PATTERN = /^[A-Za-z0-9_-]{20,100}$/;
+
+const NOT_CONFIGURED: ApiKeyStatus = { configured: false, masked: null, verified: false, verified_at: null, updated_at: null };
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+let keyPromise: Promise<CryptoKey> | null = null;
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): BufferSource {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
+
+function getEncryptionKey(): Promise<CryptoKey> {
+  if (!keyPromise) {
+    const encoded = Deno.env.get('API_KEY_ENCRYPTION_KEY');
+    const raw = encoded ? fromBase64(encoded) : null;
+    if (!raw || raw.byteLength !== 32) {
+      throw new Error('API_KEY_ENCRYPTION_KEY must be set to 32 random bytes, base64-encoded');
+    }
+    keyPromise = crypto.subtle.importKey('raw', raw, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+  }
+  return keyPromise;
+}
+
+function additionalData(userId: string): BufferSource {
+  return encoder.encode(`${userId}:${PROVIDER}`);
+}
+
+async function encrypt(userId: string, apiKey: string): Promise<{ ciphertext: string; iv: string }> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: additionalData(userId) },
+    await getEncryptionKey(),
+    encoder.encode(apiKey)
+  );
+  return { ciphertext: toBase64(new Uint8Array(ciphertext)), iv: toBase64(iv) };
+}
+
+async function decrypt(userId: string, row: ApiKeyRow): Promise<string> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(row.iv), additionalData: additionalData(userId) },
+    await getEncryptionKey(),
+    fromBase64(row.ciphertext)
+  );
+  return decoder.decode(plaintext);
+}
+
+function maskSuffix(suffix: string): string {
+  return `••••${suffix}`;
+}
+
+function toStatus(row: ApiKeyRow | null): ApiKeyStatus {
+  if (!row) return NOT_CONFIGURED;
+  return {
+    configured: true,
+    masked: maskSuffix(row.key_suffix),
+    verified: row.verified,
+    verified_at: row.verified_at,
+    updated_at: row.updated_at,
+  };
+}
+
+async function loadRow(supabase: SupabaseClient, userId: string): Promise<ApiKeyRow | null> {
+  const { data, error } = await supabase
+    .from('user_api_keys')
+    .select('ciphertext, iv, key_suffix, verified, verified_at, updated_at')
+    .eq('user_id', userId)
+    .eq('provider', PROVIDER)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as ApiKeyRow | null;
+}
+
+/**
+ * Asks Gemini whether it accepts the key: true when it does, false when it rejects it,
+ * null when Gemini could not be reached (the key is then saved unverified).
+ */
+export async function verifyGeminiApiKey(apiKey: string): Promise<boolean | null> {
+  try {
+    const response = await fetch(GEMINI_MODELS_URL, { headers: { 'x-goog-api-key': apiKey } });
+    await response.body?.cancel();
+    if (response.ok) return true;
+    return [400, 401, 403].includes(response.status) ? false : null;
+  } catch (error) {
+    logger.warn('Could not reach Gemini to verify an API key', error);
+    return null;
+  }
+}
+
+export async function getGeminiApiKeyStatus(supabase: SupabaseClient, userId: string): Promise<ApiKeyStatus> {
+  return toStatus(await loadRow(supabase, userId));
+}
+
+/**
+ * Encrypts and stores the user's key, replacing (rotating) any previous one.
+ * Returns an error message when the key is malformed or Gemini rejects it.
+ */
+export async function saveGeminiApiKey(
+  supabase: SupabaseClient,
+  userId: string,
+  apiKey: string
+): Promise<SaveApiKeyResult | string> {
+  const key = apiKey.trim();
+  if (!GEMINI_KEY_PATTERN.test(key)) return 'This does not look like a Gemini API key.';
+
+  const verified = await verifyGeminiApiKey(key);
+  if (verified === false) return 'Gemini rejected this API key.';
+
+  const previous = await loadRow(supabase, userId);
+  const now = new Date().toISOString();
+  const { ciphertext, iv } = await encrypt(userId, key);
+
+  const { data, error } = await supabase
+    .from('user_api_keys')
+    .upsert({
+      user_id: userId,
+      provider: PROVIDER,
+      ciphertext,
+      iv,
+      key_suffix: key.slice(-SUFFIX_LENGTH),
+      verified: verified === true,
+      verified_at: verified ? now : null,
+      rotated_at: previous ? now : null,
+      updated_at: now,
+    }, { onConflict: 'user_id,provider' })
+    .select('ciphertext, iv, key_suffix, verified, verified_at, updated_at')
+    .single();
+
+  if (error) throw error;
+
+  // The deprecated plaintext column must not keep a copy of the key
+  await clearPlaintextKey(supabase, userId);
+
+  return { ...toStatus(data as ApiKeyRow), rotated: !!previous };
+}
+
+/** Deletes the user's key; returns false when there was none. */
+export async function deleteGeminiApiKey(supabase: SupabaseClient, userId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('user_api_keys')
+    .delete()
+    .eq('user_id', userId)
+    .eq('provider', PROVIDER)
+    .select('id');
+
+  if (error) throw error;
+  await clearPlaintextKey(supabase, userId);
+  return (data || []).length > 0;
+}
+
+/** The user's decrypted key, for calling Gemini on their behalf; null when they have none. */
+export async function loadGeminiApiKey(supabase: SupabaseClient, userId: string): Promise<string | null> {
+  const row = await loadRow(supabase, userId);
+  return row ? await decrypt(userId, row) : null;
+}
+
+async function clearPlaintextKey(supabase: SupabaseClient, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('user_settings')
+    .update({ gemini_api_key: null })
+    .eq('user_id', userId)
+    .not('gemini_api_key', 'is', null);
+
+  if (error) throw error;
+}
+
+/**
+ * Moves keys still stored in plaintext in user_settings.gemini_api_key into user_api_keys
+ * (without calling Gemini; they are saved unverified) and clears the column.
+ * Returns how many keys were moved.
+ */
+export async function migratePlaintextGeminiKeys(supabase: SupabaseClient): Promise<number> {
+  const { data, error } = await supabase
+    .from('user_settings')
+    .select('user_id, gemini_api_key')
+    .not('gemini_api_key', 'is', null);
+
+  if (error) throw error;
+
+  let migrated = 0;
+  for (const row of (data || []) as { user_id: string; gemini_api_key: string }[]) {
+    const key = row.gemini_api_key.trim();
+    if (key && !await loadRow(supabase, row.user_id)) {
+      const { ciphertext, iv } = await encrypt(row.user_id, key);
+      const { error: insertError } = await supabase
+        .from('user_api_keys')
+        .insert({ user_id: row.user_id, provider: PROVIDER, ciphertext, iv, key_suffix: key.slice(-SUFFIX_LENGTH) });
+
+      if (insertError) throw insertError;
+      migrated++;
+    }
+    await clearPlaintextKey(supabase, row.user_id);
+  }
+
+  return migrated;
+}
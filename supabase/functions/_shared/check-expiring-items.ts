@@ -0,0 +1,225 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { DEFAULT_TIMEZONE, daysUntil, widestDateRangeBounds } from './dates.ts';
+import { fetchTrackedItems, listItemTypes, TrackedItem } from './item-types.ts';
+import { logger } from './logger.ts';
+import { getPriorityForDays, PriorityThresholds, resolveThresholds } from './priority-thresholds.ts';
+import { loadNotificationPreferences } from './user-preferences.ts';
+
+// Expiry filtering, priority and summary logic shared by check-items-expiring and
+// the telegram-bot /expiring command.
+
+// Type definitions
+// Items of every registered type; the name predates types other than food
+export interface ExpiringFoodItem {
+  id: string;
+  type: string;
+  user_id: string;
+  name: string;
+  quantity: number;
+  unit: string;
+  expiration_date: string;
+  category: string;
+  image_url?: string;
+  location?: string;
+  days_until_expiry: number;
+  priority: 'urgent' | 'high' | 'medium' | 'low';
+}
+
+export interface CheckExpiringItemsOptions {
+  daysAhead?: number;
+  userId?: string;
+  userIds?: string[];  // Restricts results to these owners (the caller's scope); userId narrows further
+  category?: string;
+  locationIds?: string[];  // Only items in these storage locations
+  includeExpired?: boolean;
+  sortBy?: 'expiration_date' | 'name' | 'priority' | 'category';
+  sortOrder?: 'asc' | 'desc';
+  limit?: number;
+}
+
+export interface CheckExpiringItemsResult {
+  items: ExpiringFoodItem[];
+  total_count: number;
+  days_ahead: number;
+  filters_applied: {
+    user_id?: string;
+    user_ids?: string[];
+    category?: string;
+    location_ids?: string[];
+    include_expired: boolean;
+  };
+  summary: {
+    urgent: number;
+    high: number;
+    medium: number;
+    low: number;
+    total: number;
+  };
+}
+
+// Ascending priority order lists the most pressing items first
+const PRIORITY_RANK: Record<ExpiringFoodItem['priority'], number> = { urgent: 0, high: 1, medium: 2, low: 3 };
+
+function compareItems(sortBy: NonNullable<CheckExpiringItemsOptions['sortBy']>, sortOrder: 'asc' | 'desc') {
+  const direction = sortOrder === 'asc' ? 1 : -1;
+  return (a: ExpiringFoodItem, b: ExpiringFoodItem): number => {
+    if (sortBy === 'name') return direction * a.name.localeCompare(b.name);
+    if (sortBy === 'category') return direction * a.category.localeCompare(b.category);
+    if (sortBy === 'priority') {
+      const byPriority = PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority];
+      if (byPriority !== 0) return direction * byPriority;
+    }
+    return direction * a.expiration_date.localeCompare(b.expiration_date);
+  };
+}
+
+// Function to determine priority based on days until expiry; pass the owner's thresholds
+// for the item's category (see priority-thresholds.ts), the defaults apply otherwise
+export function getPriority(daysUntilExpiry: number, thresholds?: PriorityThresholds): 'urgent' | 'high' | 'medium' | 'low' {
+  return getPriorityForDays(daysUntilExpiry, thresholds);
+}
+
+// Function to calculate days until expiry, counting from today in the owner's time zone
+export function calculateDaysUntilExpiry(expirationDate: string, timezone = DEFAULT_TIMEZONE, now = new Date()): number {
+  return daysUntil(expirationDate, timezone, now);
+}
+
+// Main function to check for expiring items
+export async function checkExpiringItems(
+  supabase: SupabaseClient,
+  options: CheckExpiringItemsOptions = {}
+): Promise<CheckExpiringItemsResult> {
+  const {
+    daysAhead = 7,
+    userId,
+    userIds,
+    category,
+    locationIds,
+    includeExpired = false,
+    sortBy = 'expiration_date',
+    sortOrder = 'asc',
+    limit = 1000
+  } = options;
+
+  logger.info(`Checking for items expiring within ${daysAhead} days`);
+
+  // Calculate date range; wide enough for every owner's "today", narrowed per owner below
+  const now = new Date();
+  const range = widestDateRangeBounds(daysAhead, now);
+
+  // Query every registered item type (food, cosmetics, medicines, ...)
+  const rawItems: TrackedItem[] = [];
+  for (const itemType of listItemTypes()) {
+    rawItems.push(...await fetchTrackedItems(supabase, itemType, {
+      // Expired items are only still here when nobody has answered sweep-expired-items yet
+      start: includeExpired ? undefined : range.start,
+      end: range.end,
+      userId,
+      userIds,
+      category,
+      locationIds,
+      orderBy: sortBy === 'priority' ? 'expiration_date' : sortBy,
+      ascending: sortOrder === 'asc',
+      // Priority depends on each owner's thresholds for the category, not on the date alone,
+      // so a per-type limit could cut items that sort first; the merged list is limited below
+      limit: sortBy === 'priority' ? undefined : limit,
+    }));
+  }
+
+  if (rawItems.length === 0) {
+    return {
+      items: [],
+      total_count: 0,
+      days_ahead: daysAhead,
+      filters_applied: {
+        user_id: userId,
+        user_ids: userIds,
+        category,
+        location_ids: locationIds,
+        include_expired: includeExpired
+      },
+      summary: {
+        urgent: 0,
+        high: 0,
+        medium: 0,
+        low: 0,
+        total: 0
+      }
+    };
+  }
+
+  // Get unique user_ids from items
+  const ownerIds = [...new Set(rawItems.map(item => item.user_id))];
+
+  // Query users table to get chat_ids
+  const { data: users, error: usersError } = await supabase
+    .from('users')
+    .select('id, chat_id')
+    .in('id', ownerIds);
+
+  if (usersError) {
+    logger.error('Error fetching users', usersError);
+    throw new Error(`Failed to fetch users: ${usersError.message}`);
+  }
+
+  // Create map of user_id -> chat_id
+  const usersMap = new Map(users?.map(user => [user.id, user.chat_id]) || []);
+
+  // Filter items to only include those with chat_id and process them
+  const itemsWithChatId = rawItems.filter(item => usersMap.get(item.user_id));
+  const preferences = await loadNotificationPreferences(supabase, ownerIds);
+
+  // Process items and calculate additional data
+  const processedItems: ExpiringFoodItem[] = itemsWithChatId.map(item => {
+    const ownerPreferences = preferences.get(item.user_id);
+    const daysUntilExpiry = calculateDaysUntilExpiry(item.expiration_date, ownerPreferences?.timezone, now);
+    const priority = getPriority(daysUntilExpiry, resolveThresholds(ownerPreferences?.thresholds, item.category));
+
+    return {
+      id: item.id,
+      type: item.type,
+      user_id: item.user_id,
+      name: item.name,
+      quantity: item.quantity,
+      unit: item.unit,
+      expiration_date: item.expiration_date,
+      category: item.category,
+      image_url: item.image_url || undefined,
+      location: item.location || undefined,
+      days_until_expiry: daysUntilExpiry,
+      priority
+    };
+  });
+
+  // Keep items inside the owner's own window; filter out expired items if not included.
+  // Each type was sorted and limited on its own, so merge-sort and limit the combined list
+  const filteredItems = processedItems
+    .filter(item => item.days_until_expiry <= daysAhead && (includeExpired || item.days_until_expiry >= 0))
+    .sort(compareItems(sortBy, sortOrder))
+    .slice(0, limit > 0 ? limit : undefined);
+
+  // Calculate summary statistics
+  const summary = {
+    urgent: filteredItems.filter(item => item.priority === 'urgent').length,
+    high: filteredItems.filter(item => item.priority === 'high').length,
+    medium: filteredItems.filter(item => item.priority === 'medium').length,
+    low: filteredItems.filter(item => item.priority === 'low').length,
+    total: filteredItems.length
+  };
+
+  logger.info(`Found ${filteredItems.length} items expiring within ${daysAhead} days (with chat_id)`);
+
+  return {
+    items: filteredItems,
+    total_count: filteredItems.length,
+    days_ahead: daysAhead,
+    filters_applied: {
+      user_id: userId,
+      user_ids: userIds,
+      category,
+      location_ids: locationIds,
+      include_expired: includeExpired
+    },
+    summary
+  };
+}
@@ -0,0 +1,33 @@
+import { daysBetween, DEFAULT_TIMEZONE, monthsBetween, todayInTimezone } from './dates.ts';
+
+// Cosmetics expire on the printed date or a "period after opening" (PAO, the open-jar
+// "12M" symbol) after they were opened, whichever comes first. The database keeps the
+// result in the generated column cosmetics.effective_expiry_date; this module renders the
+// PAO for notifications.
+
+export interface CosmeticExpiry {
+  expiry_date: string | null;
+  opened_at?: string | null;
+  pao_months?: number | null;
+}
+
+/** e.g. "opened 11 months ago, PAO 12M"; null when the product has not been opened. */
+export function describePao(
+  item: Pick<CosmeticExpiry, 'opened_at' | 'pao_months'>,
+  timezone = DEFAULT_TIMEZONE,
+  now = new Date()
+): string | null {
+  if (!item.opened_at) return null;
+
+  const today = todayInTimezone(timezone, now);
+  const months = monthsBetween(item.opened_at, today);
+  const days = daysBetween(item.opened_at, today);
+
+  const opened = months >= 1
+    ? `opened ${months} month${months === 1 ? '' : 's'} ago`
+    : days <= 0
+      ? 'opened today'
+      : `opened ${days} day${days === 1 ? '' : 's'} ago`;
+
+  return item.pao_months ? `${opened}, PAO ${item.pao_months}M` : opened;
+}
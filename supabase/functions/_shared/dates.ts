@@ -0,0 +1,150 @@
+// Calendar-date math shared by every function.
+//
+// Expiry dates are pure calendar dates (`yyyy-mm-dd`) with no time of day, so day deltas
+// are computed on the dates themselves, never on timestamps. The only time-zone dependent
+// step is deciding what "today" is, which always happens in the item owner's time zone.
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+// Zones at the extremes of the UTC offset range; between them they cover every "today"
+const EARLIEST_TIMEZONE = 'Etc/GMT+12';       // UTC-12
+const LATEST_TIMEZONE = 'Pacific/Kiritimati'; // UTC+14
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})/;
+
+export interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+/** Wall-clock parts of an instant in the given time zone. */
+export function getZonedParts(date: Date, timezone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(date);
+
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  return { year: value('year'), month: value('month'), day: value('day'), hour: value('hour'), minute: value('minute') };
+}
+
+// Offset of the time zone from UTC at the given instant, in milliseconds
+function getTimezoneOffset(date: Date, timezone: string): number {
+  const parts = getZonedParts(date, timezone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  return asUtc - Math.floor(date.getTime() / 60000) * 60000;
+}
+
+/** The instant at which it is `minutes` past midnight of the calendar date in the time zone. */
+export function zonedTimeToUtc(date: string, minutes: number, timezone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const guess = Date.UTC(year, month - 1, day, 0, minutes);
+  const offset = getTimezoneOffset(new Date(guess), timezone);
+  // Re-check once in case the guess and the result fall on different sides of a DST change
+  const correctedOffset = getTimezoneOffset(new Date(guess - offset), timezone);
+  return new Date(guess - correctedOffset);
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+// Days since 1970-01-01 for a calendar date; accepts `yyyy-mm-dd` or a timestamp string
+function toDayNumber(date: string): number {
+  const match = DATE_PATTERN.exec(date);
+  if (!match) {
+    throw new Error(`Invalid calendar date: ${date}`);
+  }
+  return Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) / MS_PER_DAY;
+}
+
+function fromDayNumber(dayNumber: number): string {
+  const date = new Date(dayNumber * MS_PER_DAY);
+  return `${pad(date.getUTCFullYear(), 4)}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+}
+
+/** Builds a `yyyy-mm-dd` date, or null when it does not exist (e.g. 31/02, 29/02 outside leap years). */
+export function makeDate(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)) return null;
+  return `${pad(year, 4)}-${pad(month)}-${pad(day)}`;
+}
+
+export function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/** The calendar date it currently is in the time zone. */
+export function todayInTimezone(timezone = DEFAULT_TIMEZONE, now = new Date()): string {
+  const { year, month, day } = getZonedParts(now, timezone);
+  return `${pad(year, 4)}-${pad(month)}-${pad(day)}`;
+}
+
+export function addDays(date: string, days: number): string {
+  return fromDayNumber(toDayNumber(date) + days);
+}
+
+/** Adds calendar months, clamping to the end of shorter months (31/01 + 1 month = 28/02 or 29/02). */
+export function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  const index = year * 12 + (month - 1) + months;
+  const targetYear = Math.floor(index / 12);
+  const targetMonth = index - targetYear * 12 + 1;
+  return makeDate(targetYear, targetMonth, Math.min(day, daysInMonth(targetYear, targetMonth)))!;
+}
+
+/** Whole calendar months from `from` to `to`, counted like addMonths (31/01 → 28/02 is one month). */
+export function monthsBetween(from: string, to: string): number {
+  const [fromYear, fromMonth] = from.slice(0, 10).split('-').map(Number);
+  const [toYear, toMonth] = to.slice(0, 10).split('-').map(Number);
+  const months = (toYear - fromYear) * 12 + (toMonth - fromMonth);
+  if (months > 0 && addMonths(from, months) > to.slice(0, 10)) return months - 1;
+  if (months < 0 && addMonths(from, months) < to.slice(0, 10)) return months + 1;
+  return months;
+}
+
+/** Whole calendar days from `from` to `to` (negative when `to` is earlier). */
+export function daysBetween(from: string, to: string): number {
+  return toDayNumber(to) - toDayNumber(from);
+}
+
+/** 0 = Sunday … 6 = Saturday. */
+export function dayOfWeek(date: string): number {
+  return new Date(toDayNumber(date) * MS_PER_DAY).getUTCDay();
+}
+
+/** Days from today (in the owner's time zone) until the date; 0 = today, negative = past. */
+export function daysUntil(date: string, timezone = DEFAULT_TIMEZONE, now = new Date()): number {
+  return daysBetween(todayInTimezone(timezone, now), date);
+}
+
+/** Dates from today through `daysAhead` days from today, in the owner's time zone. */
+export function dateRangeBounds(daysAhead: number, timezone = DEFAULT_TIMEZONE, now = new Date()): DateRange {
+  const today = todayInTimezone(timezone, now);
+  return { start: today, end: addDays(today, daysAhead) };
+}
+
+/**
+ * Bounds wide enough to hold `dateRangeBounds(daysAhead)` for every time zone. Use it to
+ * query items of many owners at once, then filter each item with `daysUntil` in its
+ * owner's zone.
+ */
+export function widestDateRangeBounds(daysAhead: number, now = new Date()): DateRange {
+  return {
+    start: todayInTimezone(EARLIEST_TIMEZONE, now),
+    end: addDays(todayInTimezone(LATEST_TIMEZONE, now), daysAhead),
+  };
+}
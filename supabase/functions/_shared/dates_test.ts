@@ -0,0 +1,125 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  addDays,
+  addMonths,
+  dateRangeBounds,
+  daysBetween,
+  makeDate,
+  monthsBetween,
+  todayInTimezone,
+  widestDateRangeBounds,
+  zonedTimeToUtc,
+} from './dates.ts';
+
+// New York springs forward on 2025-03-09 (02:00 EST -> 03:00 EDT) and falls back on
+// 2025-11-02 (02:00 EDT -> 01:00 EST); Berlin changes on 2025-03-30 and 2025-10-26.
+
+Deno.test('todayInTimezone follows local midnight across the spring-forward change', () => {
+  assertEquals(todayInTimezone('America/New_York', new Date('2025-03-09T04:59:00Z')), '2025-03-08');
+  assertEquals(todayInTimezone('America/New_York', new Date('2025-03-09T05:00:00Z')), '2025-03-09');
+  // The day after is one hour shorter: it starts at 04:00Z instead of 05:00Z
+  assertEquals(todayInTimezone('America/New_York', new Date('2025-03-10T03:59:00Z')), '2025-03-09');
+  assertEquals(todayInTimezone('America/New_York', new Date('2025-03-10T04:00:00Z')), '2025-03-10');
+});
+
+Deno.test('todayInTimezone follows local midnight across the fall-back change', () => {
+  assertEquals(todayInTimezone('America/New_York', new Date('2025-11-02T03:59:00Z')), '2025-11-01');
+  assertEquals(todayInTimezone('America/New_York', new Date('2025-11-02T04:00:00Z')), '2025-11-02');
+  assertEquals(todayInTimezone('America/New_York', new Date('2025-11-03T04:59:00Z')), '2025-11-02');
+  assertEquals(todayInTimezone('America/New_York', new Date('2025-11-03T05:00:00Z')), '2025-11-03');
+});
+
+Deno.test('todayInTimezone defaults to UTC', () => {
+  assertEquals(todayInTimezone(undefined, new Date('2025-12-31T23:59:59Z')), '2025-12-31');
+  assertEquals(todayInTimezone('Asia/Ho_Chi_Minh', new Date('2025-12-31T17:00:00Z')), '2026-01-01');
+});
+
+Deno.test('zonedTimeToUtc uses the offset in force on that date around spring forward', () => {
+  assertEquals(zonedTimeToUtc('2025-03-08', 9 * 60, 'America/New_York').toISOString(), '2025-03-08T14:00:00.000Z');
+  assertEquals(zonedTimeToUtc('2025-03-09', 0, 'America/New_York').toISOString(), '2025-03-09T05:00:00.000Z');
+  assertEquals(zonedTimeToUtc('2025-03-09', 9 * 60, 'America/New_York').toISOString(), '2025-03-09T13:00:00.000Z');
+  assertEquals(zonedTimeToUtc('2025-03-30', 10 * 60, 'Europe/Berlin').toISOString(), '2025-03-30T08:00:00.000Z');
+  assertEquals(zonedTimeToUtc('2025-03-29', 10 * 60, 'Europe/Berlin').toISOString(), '2025-03-29T09:00:00.000Z');
+});
+
+Deno.test('zonedTimeToUtc uses the offset in force on that date around fall back', () => {
+  assertEquals(zonedTimeToUtc('2025-11-01', 9 * 60, 'America/New_York').toISOString(), '2025-11-01T13:00:00.000Z');
+  assertEquals(zonedTimeToUtc('2025-11-02', 0, 'America/New_York').toISOString(), '2025-11-02T04:00:00.000Z');
+  assertEquals(zonedTimeToUtc('2025-11-02', 9 * 60, 'America/New_York').toISOString(), '2025-11-02T14:00:00.000Z');
+  assertEquals(zonedTimeToUtc('2025-10-26', 10 * 60, 'Europe/Berlin').toISOString(), '2025-10-26T09:00:00.000Z');
+});
+
+Deno.test('zonedTimeToUtc and todayInTimezone agree on the local date', () => {
+  for (const date of ['2025-03-09', '2025-03-10', '2025-11-02', '2025-11-03', '2024-02-29']) {
+    for (const minutes of [0, 8 * 60, 23 * 60 + 59]) {
+      assertEquals(todayInTimezone('America/New_York', zonedTimeToUtc(date, minutes, 'America/New_York')), date);
+    }
+  }
+});
+
+Deno.test('addMonths clamps from the 31st of January to the end of February', () => {
+  assertEquals(addMonths('2025-01-31', 1), '2025-02-28');
+  assertEquals(addMonths('2024-01-31', 1), '2024-02-29');
+  assertEquals(addMonths('2025-01-31', 2), '2025-03-31');
+  assertEquals(addMonths('2025-03-31', 1), '2025-04-30');
+  assertEquals(addMonths('2024-03-31', -1), '2024-02-29');
+});
+
+Deno.test('addMonths across 29 February', () => {
+  assertEquals(addMonths('2024-02-29', 12), '2025-02-28');
+  assertEquals(addMonths('2024-02-29', 48), '2028-02-29');
+  assertEquals(addMonths('2024-02-29', 1), '2024-03-29');
+  assertEquals(addMonths('2025-12-15', 2), '2026-02-15');
+  assertEquals(addMonths('2026-01-15', -2), '2025-11-15');
+});
+
+Deno.test('monthsBetween counts like addMonths', () => {
+  assertEquals(monthsBetween('2025-01-31', '2025-02-28'), 1);
+  assertEquals(monthsBetween('2025-01-31', '2025-02-27'), 0);
+  assertEquals(monthsBetween('2024-02-29', '2025-02-28'), 12);
+  assertEquals(monthsBetween('2025-03-31', '2025-02-28'), -1);
+});
+
+Deno.test('daysBetween and addDays over leap days', () => {
+  assertEquals(daysBetween('2024-02-28', '2024-03-01'), 2);
+  assertEquals(daysBetween('2025-02-28', '2025-03-01'), 1);
+  assertEquals(daysBetween('2024-01-01', '2025-01-01'), 366);
+  assertEquals(daysBetween('2025-01-01', '2026-01-01'), 365);
+  assertEquals(daysBetween('2024-03-01', '2024-02-28'), -2);
+  assertEquals(addDays('2024-02-28', 1), '2024-02-29');
+  assertEquals(addDays('2025-02-28', 1), '2025-03-01');
+  assertEquals(addDays('2024-03-01', -1), '2024-02-29');
+});
+
+Deno.test('daysBetween is not thrown off by DST changes', () => {
+  assertEquals(daysBetween('2025-03-08', '2025-03-10'), 2);
+  assertEquals(daysBetween('2025-11-01', '2025-11-03'), 2);
+});
+
+Deno.test('makeDate rejects days that do not exist', () => {
+  assertEquals(makeDate(2024, 2, 29), '2024-02-29');
+  assertEquals(makeDate(2025, 2, 29), null);
+  assertEquals(makeDate(1900, 2, 29), null);
+  assertEquals(makeDate(2000, 2, 29), '2000-02-29');
+  assertEquals(makeDate(2025, 4, 31), null);
+  assertEquals(makeDate(2025, 13, 1), null);
+});
+
+Deno.test('widestDateRangeBounds spans the earliest and latest time zones', () => {
+  // 11:00Z is 23:00 the day before at UTC-12 and 01:00 the day after at UTC+14
+  const now = new Date('2025-06-15T11:00:00Z');
+  assertEquals(widestDateRangeBounds(3, now), { start: '2025-06-14', end: '2025-06-19' });
+  assertEquals(widestDateRangeBounds(0, new Date('2025-06-15T12:00:00Z')), { start: '2025-06-15', end: '2025-06-16' });
+});
+
+Deno.test('widestDateRangeBounds holds every zone\'s dateRangeBounds', () => {
+  const zones = ['Etc/GMT+12', 'Pacific/Honolulu', 'America/New_York', 'UTC', 'Asia/Ho_Chi_Minh', 'Pacific/Auckland', 'Pacific/Kiritimati'];
+  for (const instant of ['2025-03-09T06:30:00Z', '2025-11-02T05:30:00Z', '2024-02-29T23:30:00Z', '2025-12-31T12:00:00Z']) {
+    const now = new Date(instant);
+    const widest = widestDateRangeBounds(7, now);
+    for (const zone of zones) {
+      const bounds = dateRangeBounds(7, zone, now);
+      assertEquals(bounds.start >= widest.start && bounds.end <= widest.end, true, `${zone} at ${instant}`);
+    }
+  }
+});
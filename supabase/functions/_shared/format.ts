@@ -0,0 +1,11 @@
+// HTML formatting helpers for Telegram messages (parse_mode: 'HTML')
+
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// yyyy-mm-dd -> dd/mm/yyyy
+export function formatDate(dateString: string): string {
+  const [year, month, day] = dateString.split('-');
+  return `${day}/${month}/${year}`;
+}
@@ -0,0 +1,104 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+
+// Maps free-form item names and unit words onto the user's own units and categories, for
+// items typed into the bot, lines read from receipts and items created through create-item.
+
+export interface NamedRow {
+  name: string;
+  display_name: string;
+}
+
+export interface UserLists {
+  units: NamedRow[];
+  categories: NamedRow[];
+}
+
+// Built-in unit words recognised after a quantity, mapped to the default unit names
+// seeded by seed_default_categories_units(). Words without an obvious mapping map to null
+// and are kept as typed so they can still match a user-defined unit.
+export const UNIT_ALIASES: Record<string, string | null> = {
+  'pieces': 'pieces', 'piece': 'pieces', 'pcs': 'pieces', 'pc': 'pieces', 'cái': 'pieces', 'quả': 'pieces', 'trái': 'pieces', 'con': 'pieces',
+  'lbs': 'lbs', 'lb': 'lbs',
+  'oz': 'oz',
+  'kg': 'kg', 'kgs': 'kg', 'ký': 'kg', 'kí': 'kg', 'cân': 'kg',
+  'g': 'g', 'gr': 'g', 'gram': 'g', 'grams': 'g', 'gam': 'g',
+  'cups': 'cups', 'cup': 'cups', 'cốc': 'cups', 'ly': 'cups',
+  'liters': 'liters', 'liter': 'liters', 'litres': 'liters', 'litre': 'liters', 'l': 'liters', 'lít': 'liters', 'lit': 'liters',
+  'ml': 'ml',
+  'cans': 'cans', 'can': 'cans', 'lon': 'cans',
+  'bottles': 'bottles', 'bottle': 'bottles', 'chai': 'bottles',
+  'packages': 'packages', 'package': 'packages', 'pack': 'packages', 'packs': 'packages', 'pkg': 'packages', 'gói': 'packages',
+  'hộp': null, 'box': null, 'boxes': null, 'túi': null, 'bag': null, 'bags': null,
+  'bó': null, 'vỉ': null, 'khay': null, 'hũ': null, 'lọ': null, 'jar': null, 'jars': null,
+};
+
+// Keywords used to guess a category from the item name, keyed by default category names
+const CATEGORY_KEYWORDS: Record<string, string[]> = {
+  meat: ['chicken', 'beef', 'pork', 'meat', 'fish', 'salmon', 'shrimp', 'sausage', 'ham', 'bacon', 'thịt', 'gà', 'bò', 'heo', 'lợn', 'cá', 'tôm', 'mực', 'xúc xích'],
+  dairy: ['milk', 'cheese', 'yogurt', 'yoghurt', 'butter', 'cream', 'sữa', 'phô mai', 'bơ', 'kem', 'trứng', 'egg', 'eggs'],
+  vegetables: ['vegetable', 'carrot', 'cabbage', 'lettuce', 'tomato', 'onion', 'potato', 'spinach', 'rau', 'cải', 'cà rốt', 'cà chua', 'hành', 'khoai', 'bắp cải', 'dưa leo'],
+  fruits: ['fruit', 'apple', 'banana', 'orange', 'grape', 'mango', 'strawberry', 'trái cây', 'táo', 'chuối', 'cam', 'nho', 'xoài', 'dâu', 'ổi', 'lê'],
+  grains: ['rice', 'bread', 'pasta', 'noodle', 'oat', 'flour', 'gạo', 'bánh mì', 'mì', 'bún', 'phở', 'yến mạch', 'bột'],
+  beverages: ['juice', 'soda', 'beer', 'wine', 'coffee', 'tea', 'water', 'nước', 'bia', 'rượu', 'cà phê', 'trà'],
+  snacks: ['chips', 'cookie', 'cookies', 'candy', 'chocolate', 'snack', 'bánh', 'kẹo', 'sô cô la', 'snack'],
+  frozen: ['frozen', 'ice cream', 'đông lạnh'],
+  pantry: ['sauce', 'oil', 'sugar', 'salt', 'spice', 'canned', 'nước mắm', 'dầu', 'đường', 'muối', 'tương', 'gia vị'],
+};
+
+const DEFAULT_UNIT = 'pieces';
+const DEFAULT_CATEGORY = 'other';
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whether `phrase` occurs in the lower-case `name` as whole words
+export function mentions(name: string, phrase: string): boolean {
+  return new RegExp(`(?<![\\p{L}\\d])${escapeRegExp(phrase.toLowerCase())}(?![\\p{L}\\d])`, 'u').test(name);
+}
+
+export function displayName(rows: NamedRow[], name: string): string {
+  return rows.find(row => row.name === name)?.display_name || name;
+}
+
+export async function loadUserLists(supabase: SupabaseClient, userId: string): Promise<UserLists> {
+  const [unitsResult, categoriesResult] = await Promise.all([
+    supabase.from('units').select('name, display_name').eq('user_id', userId).order('name'),
+    supabase.from('categories').select('name, display_name').eq('user_id', userId).order('name'),
+  ]);
+
+  if (unitsResult.error) throw unitsResult.error;
+  if (categoriesResult.error) throw categoriesResult.error;
+
+  return { units: unitsResult.data || [], categories: categoriesResult.data || [] };
+}
+
+// Resolves a typed unit word against the user's own units table
+export function resolveUnit(rawUnit: string | null, units: NamedRow[]): string {
+  const fallback = units.find(u => u.name === DEFAULT_UNIT)?.name || units[0]?.name || DEFAULT_UNIT;
+  if (!rawUnit) return fallback;
+
+  const word = rawUnit.toLowerCase();
+  const direct = units.find(u => u.name.toLowerCase() === word || u.display_name.toLowerCase() === word);
+  if (direct) return direct.name;
+
+  const alias = UNIT_ALIASES[word];
+  if (alias && units.some(u => u.name === alias)) return alias;
+
+  return fallback;
+}
+
+// Guesses a category from the item name, restricted to the user's own categories
+export function resolveCategory(itemName: string, categories: NamedRow[]): string {
+  const name = itemName.toLowerCase();
+
+  const direct = categories.find(c => name.includes(c.name.toLowerCase()) || name.includes(c.display_name.toLowerCase()));
+  if (direct) return direct.name;
+
+  for (const [category, keywords] of Object.entries(CATEGORY_KEYWORDS)) {
+    if (!categories.some(c => c.name === category)) continue;
+    if (keywords.some(keyword => name.includes(keyword))) return category;
+  }
+
+  return categories.find(c => c.name === DEFAULT_CATEGORY)?.name || categories[0]?.name || DEFAULT_CATEGORY;
+}
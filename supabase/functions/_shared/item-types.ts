@@ -0,0 +1,318 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { logger } from './logger.ts';
+
+// Registry of trackable item types. Each type declares where its items live and how they
+// are worded; the queue, check-items-expiring and the notification renderers iterate over
+// the registered types instead of knowing about food and cosmetics.
+//
+// Queue rows reference an item through (item_type, item_id). Food and cosmetics also fill
+// their legacy column (food_item_id / cosmetic_id) so its foreign key keeps cascading.
+
+export interface ItemTypeWording {
+  due: string;               // Heading before "today" / "in 3 days", e.g. "Expires", "Renewal due"
+  dateLabel: string;         // Label of the date line, e.g. "Expires", "Renew by"
+  expired: string;           // After the item name once the date has passed, e.g. "has expired"
+  consumed: string;          // Button that removes the item once it is used up
+  consumedOutcome: string;
+  discarded: string;         // Button that removes the item without using it
+  discardedOutcome: string;
+}
+
+export interface ItemTypeDefinition {
+  type: string;
+  table: string;
+  dateColumn: string;               // Calendar date the reminders count down to
+  quantityColumn?: string;          // Omitted for types that are always a single thing
+  unitColumn?: string;
+  categoryColumn?: string;          // Omitted for types whose items all share `category`
+  imageColumn?: string;
+  locationColumn?: string;          // Storage location (see storage-locations.ts); items can be moved
+  extraColumns?: string[];          // Carried along in TrackedItem.details
+  activeOnly?: boolean;             // Only rows with status = 'active' are tracked
+  legacyQueueColumn?: 'food_item_id' | 'cosmetic_id';
+  category: string;                 // Category of items without a category column, and the fallback
+  defaultUnit: string;
+  emoji: string;
+  wording: ItemTypeWording;
+  secondaryAction?: 'half' | 'opened'; // Extra notification button next to Snooze
+}
+
+export interface TrackedItem {
+  id: string;
+  type: string;
+  user_id: string;
+  name: string;
+  quantity: number;
+  unit: string;
+  expiration_date: string;  // Value of the type's date column
+  category: string;
+  image_url: string | null;
+  location: string | null;  // Name of the item's storage location
+  details: Record<string, unknown>;
+}
+
+export interface TrackedItemQuery {
+  start?: string;
+  end?: string;
+  userId?: string;
+  userIds?: string[];        // Only items of these owners
+  category?: string;
+  locationIds?: string[];    // Only items in these storage locations
+  orderBy?: 'expiration_date' | 'name' | 'category';
+  ascending?: boolean;
+  limit?: number;
+  includeUndated?: boolean;  // Also return items without a date (expiration_date is then null)
+}
+
+export interface QueueItemReference {
+  item_type: string;
+  item_id: string;
+  food_item_id: string | null;
+  cosmetic_id: string | null;
+}
+
+const EXPIRY_WORDING = {
+  due: 'Expires',
+  dateLabel: 'Expires',
+  expired: 'has expired',
+  consumed: '✅ Used it up',
+  consumedOutcome: '✅ Marked as used up',
+  discarded: '🗑️ Threw it away',
+  discardedOutcome: '🗑️ Marked as thrown away',
+};
+
+const registry = new Map<string, ItemTypeDefinition>();
+
+/** Registers (or replaces) an item type; registration order is the order types are listed in. */
+export function registerItemType(definition: ItemTypeDefinition): void {
+  registry.set(definition.type, definition);
+}
+
+export function getItemType(type: string): ItemTypeDefinition | null {
+  return registry.get(type) || null;
+}
+
+export function listItemTypes(): ItemTypeDefinition[] {
+  return [...registry.values()];
+}
+
+registerItemType({
+  type: 'food',
+  table: 'food_items',
+  dateColumn: 'expiration_date',
+  quantityColumn: 'quantity',
+  unitColumn: 'unit',
+  categoryColumn: 'category',
+  imageColumn: 'image_url',
+  locationColumn: 'location_id',
+  extraColumns: ['expiration_estimated'],
+  activeOnly: true,
+  legacyQueueColumn: 'food_item_id',
+  category: 'other',
+  defaultUnit: 'item',
+  emoji: '🍽️',
+  wording: { ...EXPIRY_WORDING, consumed: '😋 Ate it', consumedOutcome: '😋 Marked as eaten' },
+  secondaryAction: 'half',
+});
+
+registerItemType({
+  type: 'cosmetic',
+  table: 'cosmetics',
+  // The earlier of the printed date and opened + PAO
+  dateColumn: 'effective_expiry_date',
+  imageColumn: 'image_url',
+  extraColumns: ['opened_at', 'pao_months'],
+  activeOnly: true,
+  legacyQueueColumn: 'cosmetic_id',
+  category: 'cosmetics',
+  defaultUnit: 'item',
+  emoji: '💄',
+  wording: EXPIRY_WORDING,
+  secondaryAction: 'opened',
+});
+
+registerItemType({
+  type: 'medicine',
+  table: 'medicines',
+  dateColumn: 'expiration_date',
+  quantityColumn: 'quantity',
+  unitColumn: 'unit',
+  imageColumn: 'image_url',
+  activeOnly: true,
+  category: 'medicines',
+  defaultUnit: 'box',
+  emoji: '💊',
+  wording: EXPIRY_WORDING,
+  secondaryAction: 'half',
+});
+
+registerItemType({
+  type: 'pet_food',
+  table: 'pet_food_items',
+  dateColumn: 'expiration_date',
+  quantityColumn: 'quantity',
+  unitColumn: 'unit',
+  imageColumn: 'image_url',
+  activeOnly: true,
+  category: 'pet food',
+  defaultUnit: 'bag',
+  emoji: '🐾',
+  wording: EXPIRY_WORDING,
+  secondaryAction: 'half',
+});
+
+registerItemType({
+  type: 'warranty',
+  table: 'warranties',
+  dateColumn: 'expires_on',
+  imageColumn: 'image_url',
+  activeOnly: true,
+  category: 'warranties',
+  defaultUnit: 'item',
+  emoji: '🧾',
+  wording: {
+    due: 'Warranty ends',
+    dateLabel: 'Covered until',
+    expired: 'is out of warranty',
+    consumed: '✅ Claimed',
+    consumedOutcome: '✅ Marked as claimed',
+    discarded: '🗑️ Stop tracking',
+    discardedOutcome: '🗑️ No longer tracked',
+  },
+});
+
+registerItemType({
+  type: 'document',
+  table: 'documents',
+  dateColumn: 'renewal_date',
+  imageColumn: 'image_url',
+  activeOnly: true,
+  category: 'documents',
+  defaultUnit: 'document',
+  emoji: '📄',
+  wording: {
+    due: 'Renewal due',
+    dateLabel: 'Renew by',
+    expired: 'is past its renewal date',
+    consumed: '✅ Renewed',
+    consumedOutcome: '✅ Marked as renewed',
+    discarded: '🗑️ Stop tracking',
+    discardedOutcome: '🗑️ No longer tracked',
+  },
+});
+
+/** Resolves the type and item ID of a queue row, including rows queued before item_type existed. */
+export function resolveQueueItem(row: {
+  item_type?: string | null;
+  item_id?: string | null;
+  food_item_id?: string | null;
+  cosmetic_id?: string | null;
+}): { definition: ItemTypeDefinition; itemId: string } | null {
+  const type = row.item_type || (row.food_item_id ? 'food' : row.cosmetic_id ? 'cosmetic' : null);
+  const itemId = row.item_id || row.food_item_id || row.cosmetic_id;
+  const definition = type ? getItemType(type) : null;
+  return definition && itemId ? { definition, itemId } : null;
+}
+
+/** Queue columns that point at the item. */
+export function queueItemReference(item: Pick<TrackedItem, 'type' | 'id'>): QueueItemReference {
+  const definition = getItemType(item.type);
+  return {
+    item_type: item.type,
+    item_id: item.id,
+    food_item_id: definition?.legacyQueueColumn === 'food_item_id' ? item.id : null,
+    cosmetic_id: definition?.legacyQueueColumn === 'cosmetic_id' ? item.id : null,
+  };
+}
+
+/** e.g. "Expires today", "Renewal due in 3 days". */
+export function describeDue(definition: ItemTypeDefinition, daysUntilExpiry: number): string {
+  const when = daysUntilExpiry <= 0 ? 'today' : daysUntilExpiry === 1 ? 'tomorrow' : `in ${daysUntilExpiry} days`;
+  return `${definition.wording.due} ${when}`;
+}
+
+// PostgREST's default row cap; queries without a limit page through their matches
+const TRACKED_ITEMS_PAGE_SIZE = 1000;
+
+/**
+ * Fetches the items of one type whose date falls within [start, end], normalized to
+ * TrackedItem. Returns nothing when a category or location filter excludes the whole type.
+ */
+export async function fetchTrackedItems(
+  supabase: SupabaseClient,
+  definition: ItemTypeDefinition,
+  query: TrackedItemQuery = {}
+): Promise<TrackedItem[]> {
+  if (query.category && !definition.categoryColumn && query.category !== definition.category) {
+    return [];
+  }
+  if (query.locationIds && (!definition.locationColumn || query.locationIds.length === 0)) {
+    return [];
+  }
+
+  const columns = [
+    'id',
+    'user_id',
+    'name',
+    definition.dateColumn,
+    definition.quantityColumn,
+    definition.unitColumn,
+    definition.categoryColumn,
+    definition.imageColumn,
+    definition.locationColumn && 'storage_location:storage_locations(name)',
+    ...(definition.extraColumns || []),
+  ].filter(Boolean);
+
+  const orderColumn = query.orderBy === 'name'
+    ? 'name'
+    : query.orderBy === 'category' && definition.categoryColumn
+      ? definition.categoryColumn
+      : definition.dateColumn;
+  const limit = query.limit && query.limit > 0 ? query.limit : null;
+
+  const rows: Record<string, unknown>[] = [];
+  for (let from = 0; ; from += TRACKED_ITEMS_PAGE_SIZE) {
+    let request = supabase
+      .from(definition.table)
+      .select(columns.join(', '));
+
+    if (!query.includeUndated) request = request.not(definition.dateColumn, 'is', null);
+
+    if (query.start) request = request.gte(definition.dateColumn, query.start);
+    if (query.end) request = request.lte(definition.dateColumn, query.end);
+    if (query.userId) request = request.eq('user_id', query.userId);
+    if (query.userIds) request = request.in('user_id', query.userIds);
+    if (definition.activeOnly) request = request.eq('status', 'active');
+    if (query.category && definition.categoryColumn) request = request.eq(definition.categoryColumn, query.category);
+    if (query.locationIds && definition.locationColumn) request = request.in(definition.locationColumn, query.locationIds);
+
+    // Ordered by id as well so pages neither overlap nor skip rows
+    const { data, error } = await request
+      .order(orderColumn, { ascending: query.ascending ?? true })
+      .order('id')
+      .range(from, from + (limit ?? TRACKED_ITEMS_PAGE_SIZE) - 1);
+
+    if (error) {
+      logger.error(`Error fetching ${definition.table}`, error);
+      throw new Error(`Failed to fetch ${definition.table}: ${error.message}`);
+    }
+
+    const page = (data || []) as unknown as Record<string, unknown>[];
+    rows.push(...page);
+    if (limit || page.length < TRACKED_ITEMS_PAGE_SIZE) break;
+  }
+
+  return rows.map(row => ({
+    id: row.id as string,
+    type: definition.type,
+    user_id: row.user_id as string,
+    name: row.name as string,
+    quantity: definition.quantityColumn ? Number(row[definition.quantityColumn] ?? 1) : 1,
+    unit: (definition.unitColumn && row[definition.unitColumn] as string) || definition.defaultUnit,
+    expiration_date: row[definition.dateColumn] as string,
+    category: (definition.categoryColumn && row[definition.categoryColumn] as string) || definition.category,
+    image_url: definition.imageColumn ? (row[definition.imageColumn] as string | null) ?? null : null,
+    location: (row.storage_location as { name: string } | null)?.name ?? null,
+    details: Object.fromEntries((definition.extraColumns || []).map(column => [column, row[column]])),
+  }));
+}
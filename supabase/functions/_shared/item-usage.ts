@@ -0,0 +1,190 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { convertAmount, densityFor, loadUnitContext } from './units.ts';
+import { logRemovedItem } from './waste-log.ts';
+
+// "Use some": takes an amount in any unit the owner's units and conversions can relate
+// (_shared/units.ts) off a food item's quantity. The item's queue rows follow the new
+// quantity; at zero the item is deleted, or archived (status 'archived') when asked to,
+// its outstanding reminders are dropped and it is logged as used up. The quantity is only
+// written if nobody changed it in the meantime, so concurrent uses never lose a decrement.
+
+export type UsedUpAction = 'delete' | 'archive';
+
+export interface UsedItem {
+  id: string;
+  user_id: string;
+  name: string;
+  used: number;          // In the item's unit
+  quantity: number;      // Left, in the item's unit
+  unit: string;
+  used_up: boolean;
+  archived: boolean;
+}
+
+export interface UseSomeOptions {
+  userId: string;            // Who is using it; their conversions apply after the owner's
+  ownerIds: string[];        // Only items of these owners (the user's scope)
+  whenUsedUp?: UsedUpAction; // Default 'delete'
+  density?: number | null;   // Grams per ml; saved on the item as its density override
+}
+
+// Quantities are kept to three decimals; anything smaller is nothing left
+const PRECISION = 1000;
+// Each write only applies if the quantity is still the one it was computed from; a concurrent
+// change makes it read the item again, this many times at most
+const MAX_ATTEMPTS = 3;
+
+interface FoodItemRow {
+  id: string;
+  user_id: string;
+  name: string;
+  quantity: number;
+  unit: string;
+  category: string;
+  expiration_date: string;
+  density: number | null;
+}
+
+// Writes the new quantity if the item still has `item.quantity`; returns whether it did
+async function applyQuantity(
+  supabase: SupabaseClient,
+  item: FoodItemRow,
+  quantity: number,
+  archived: boolean,
+  densityUpdate: { density?: number }
+): Promise<boolean> {
+  const request = quantity > 0 || archived
+    ? supabase
+      .from('food_items')
+      .update({ quantity: Math.max(quantity, 0), ...(archived ? { status: 'archived' } : {}), ...densityUpdate })
+    : supabase
+      .from('food_items')
+      .delete();
+
+  const { data, error } = await request
+    .eq('id', item.id)
+    .eq('status', 'active')
+    .eq('quantity', item.quantity)
+    .select('id');
+
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+// Drops the reminders of a used-up item: pending rows are deleted, while rows waiting for a
+// retry or held by a worker are cancelled and released, so the worker's own update no longer
+// matches them
+async function cancelItemReminders(supabase: SupabaseClient, itemId: string): Promise<void> {
+  const { error: pendingError } = await supabase
+    .from('expiring_items_queue')
+    .delete()
+    .eq('item_type', 'food')
+    .eq('item_id', itemId)
+    .eq('status', 'pending');
+
+  if (pendingError) throw pendingError;
+
+  const { error: activeError } = await supabase
+    .from('expiring_items_queue')
+    .update({
+      status: 'cancelled',
+      processed_at: new Date().toISOString(),
+      next_attempt_at: null,
+      locked_by: null,
+      locked_at: null,
+      lease_expires_at: null,
+    })
+    .eq('item_type', 'food')
+    .eq('item_id', itemId)
+    .in('status', ['failed', 'processing']);
+
+  if (activeError) throw activeError;
+}
+
+/**
+ * Uses `amount` of a food item (without a unit: in the item's unit). Returns the updated item,
+ * null when there is no such active item in scope, or an error message when the amount is
+ * not positive or cannot be converted to the item's unit.
+ */
+export async function useSomeOfItem(
+  supabase: SupabaseClient,
+  itemId: string,
+  amount: { quantity: number; unit: string | null },
+  options: UseSomeOptions
+): Promise<UsedItem | string | null> {
+  if (!Number.isFinite(amount.quantity) || amount.quantity <= 0) return 'The amount must be a positive number.';
+  if (options.density !== undefined && options.density !== null && !(options.density > 0)) {
+    return 'density must be a positive number of grams per ml.';
+  }
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const { data, error: itemError } = await supabase
+      .from('food_items')
+      .select('id, user_id, name, quantity, unit, category, expiration_date, density')
+      .eq('id', itemId)
+      .eq('status', 'active')
+      .in('user_id', options.ownerIds)
+      .maybeSingle();
+
+    if (itemError) throw itemError;
+    if (!data) return null;
+    const item = data as FoodItemRow;
+
+    const context = await loadUnitContext(supabase, [...new Set([item.user_id, options.userId])]);
+    const density = densityFor(item.name, options.density ?? item.density);
+    const converted = convertAmount({ quantity: amount.quantity, unit: amount.unit || item.unit }, item.unit, context, density);
+    if (typeof converted === 'string') return converted;
+
+    const current = Number(item.quantity);
+    const used = Math.min(Math.round(converted * PRECISION) / PRECISION, current);
+    const quantity = Math.round((current - used) * PRECISION) / PRECISION;
+    const usedUp = quantity <= 0;
+    const archived = usedUp && options.whenUsedUp === 'archive';
+    const densityUpdate = options.density ? { density: options.density } : {};
+
+    if (!await applyQuantity(supabase, item, quantity, archived, densityUpdate)) continue;
+
+    if (!usedUp) {
+      const { error: queueError } = await supabase
+        .from('expiring_items_queue')
+        .update({ quantity, unit: item.unit })
+        .eq('item_type', 'food')
+        .eq('item_id', itemId);
+
+      if (queueError) throw queueError;
+    } else {
+      await cancelItemReminders(supabase, itemId);
+
+      const { data: user } = await supabase
+        .from('users')
+        .select('chat_id')
+        .eq('id', item.user_id)
+        .maybeSingle();
+
+      await logRemovedItem(supabase, {
+        user_id: item.user_id,
+        item_type: 'food',
+        item_id: itemId,
+        item_name: item.name,
+        quantity: current,
+        unit: item.unit,
+        category: item.category,
+        expiration_date: item.expiration_date,
+        chat_id: user?.chat_id ?? null,
+      }, 'used', 'used_up');
+    }
+
+    return {
+      id: item.id,
+      user_id: item.user_id,
+      name: item.name,
+      used,
+      quantity: Math.max(quantity, 0),
+      unit: item.unit,
+      used_up: usedUp,
+      archived,
+    };
+  }
+
+  return 'The item was changed at the same time; please try again.';
+}
@@ -0,0 +1,147 @@
+// Structured logging for every function: one JSON line per entry with the level, the
+// function name and the context of a child logger (correlation_id, queue_id, ...).
+//
+// Secrets never reach the logs: values under token/secret/password/authorization keys are
+// replaced, bearer tokens, JWTs, bot tokens and Google API keys inside strings are masked,
+// and chat IDs and email addresses are shortened to a recognizable but non-identifying form.
+//
+// LOG_LEVEL (debug, info, warn, error; default info) sets the lowest level written.
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface Logger {
+  debug(message: string, data?: unknown): void;
+  info(message: string, data?: unknown): void;
+  warn(message: string, data?: unknown): void;
+  error(message: string, data?: unknown): void;
+  /** A logger that adds `context` to every entry. */
+  child(context: Record<string, unknown>): Logger;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const REDACTED = '[REDACTED]';
+const SECRET_KEY = /authorization|token|secret|password|api[-_]?key|cookie|signature/i;
+const CHAT_ID_KEY = /^(chat_?id|telegram_?id)$/i;
+const EMAIL_KEY = /^e-?mail$/i;
+
+const BEARER_PATTERN = /Bearer\s+[A-Za-z0-9._~+/=-]+/gi;
+const JWT_PATTERN = /eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g;
+const BOT_TOKEN_PATTERN = /\b\d{6,}:[A-Za-z0-9_-]{30,}\b/g;
+const GOOGLE_API_KEY_PATTERN = /\bAIza[A-Za-z0-9_-]{30,}/g;
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+
+// Caller-supplied correlation IDs are only accepted in this shape
+const CORRELATION_ID_PATTERN = /^[A-Za-z0-9._:-]{1,100}$/;
+
+let functionName = 'unknown';
+
+function configuredLevel(): number {
+  const level = (Deno.env.get('LOG_LEVEL') || 'info').toLowerCase() as LogLevel;
+  return LEVELS[level] ?? LEVELS.info;
+}
+
+const minimumLevel = configuredLevel();
+
+function maskEmail(email: string): string {
+  const [local, domain] = email.split('@');
+  return `${local.slice(0, 1)}***@${domain}`;
+}
+
+/** Keeps the last three digits so entries about the same chat can still be matched up. */
+export function maskChatId(chatId: unknown): string {
+  const digits = String(chatId);
+  return digits.length > 3 ? `***${digits.slice(-3)}` : '***';
+}
+
+/** Masks secrets, bearer tokens, JWTs, bot tokens, Google API keys and email addresses inside a string. */
+export function redactText(text: string): string {
+  return text
+    .replace(BEARER_PATTERN, `Bearer ${REDACTED}`)
+    .replace(JWT_PATTERN, REDACTED)
+    .replace(BOT_TOKEN_PATTERN, REDACTED)
+    .replace(GOOGLE_API_KEY_PATTERN, REDACTED)
+    .replace(EMAIL_PATTERN, maskEmail);
+}
+
+/** Copy of a value that is safe to log (see the header comment). */
+export function redact(value: unknown, key = '', depth = 0): unknown {
+  if (value === null || value === undefined) return value;
+  if (key && SECRET_KEY.test(key)) return REDACTED;
+  if (key && CHAT_ID_KEY.test(key)) return maskChatId(value);
+  if (key && EMAIL_KEY.test(key) && typeof value === 'string') return maskEmail(value);
+
+  if (typeof value === 'string') return redactText(value);
+  if (typeof value !== 'object') return value;
+  if (depth > 6) return '[Truncated]';
+
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactText(value.message),
+      ...(value.stack ? { stack: redactText(value.stack) } : {}),
+    };
+  }
+  if (value instanceof Headers) {
+    return redact(Object.fromEntries(value.entries()), '', depth + 1);
+  }
+  if (Array.isArray(value)) {
+    return value.map(entry => redact(entry, '', depth + 1));
+  }
+
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).map(([entryKey, entry]) => [entryKey, redact(entry, entryKey, depth + 1)])
+  );
+}
+
+function write(level: LogLevel, context: Record<string, unknown>, message: string, data?: unknown): void {
+  if (LEVELS[level] < minimumLevel) return;
+
+  const entry: Record<string, unknown> = {
+    ts: new Date().toISOString(),
+    level,
+    function: functionName,
+    ...(redact(context) as Record<string, unknown>),
+    message: redactText(message),
+  };
+  if (data !== undefined) {
+    entry.data = redact(data);
+  }
+
+  const line = JSON.stringify(entry);
+  if (level === 'error') {
+    console.error(line);
+  } else if (level === 'warn') {
+    console.warn(line);
+  } else {
+    console.log(line);
+  }
+}
+
+function makeLogger(context: Record<string, unknown>): Logger {
+  return {
+    debug: (message, data) => write('debug', context, message, data),
+    info: (message, data) => write('info', context, message, data),
+    warn: (message, data) => write('warn', context, message, data),
+    error: (message, data) => write('error', context, message, data),
+    child: (extra) => makeLogger({ ...context, ...extra }),
+  };
+}
+
+/** Root logger; shared modules log through it under the name of the function they run in. */
+export const logger: Logger = makeLogger({});
+
+/** Names the running function in every entry; call once from the function's index.ts. */
+export function initLogger(name: string): Logger {
+  functionName = name;
+  return logger;
+}
+
+/**
+ * Correlation ID of an incoming request: the caller's X-Correlation-ID (or X-Request-ID)
+ * when it sent one, so a chain of function calls shares one ID, or a new one.
+ */
+export function correlationIdFrom(req: Request): string {
+  const provided = req.headers.get('X-Correlation-ID') || req.headers.get('X-Request-ID');
+  return provided && CORRELATION_ID_PATTERN.test(provided) ? provided : crypto.randomUUID();
+}
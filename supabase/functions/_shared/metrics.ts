@@ -0,0 +1,140 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { logger } from './logger.ts';
+
+// Notification pipeline metrics. Counters are collected in memory while a request runs
+// and added to pipeline_metric_counters when it finishes (flushMetrics / recordWorkerRun),
+// so they survive cold starts; pipeline-metrics renders them in Prometheus text format.
+
+export type WorkerName = 'populate-expiring-queue' | 'process-expiring-queue';
+
+export type SendResultClass = 'ok' | 'rate_limited' | 'blocked' | 'bad_request' | 'server_error' | 'network';
+
+export interface CounterIncrement {
+  name: string;
+  labels: Record<string, string>;
+  value: number;
+}
+
+export interface WorkerRun {
+  worker: WorkerName;
+  runId: string;
+  startedAt: Date;
+  success: boolean;
+  stats: Record<string, number>;
+  error?: string;
+}
+
+export const SEND_RESULTS_METRIC = 'expiry_notification_sends_total';
+export const TELEGRAM_LATENCY_METRIC = 'telegram_api_request_duration_seconds';
+export const WORKER_RUNS_METRIC = 'expiry_worker_runs_total';
+export const WORKER_ITEMS_METRIC = 'expiry_worker_items_total';
+export const WEBHOOK_REJECTED_METRIC = 'webhook_requests_rejected_total';
+
+// Upper bounds (seconds) of the Telegram latency histogram buckets
+export const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const pending = new Map<string, CounterIncrement>();
+
+function seriesKey(name: string, labels: Record<string, string>): string {
+  return `${name}${JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)))}`;
+}
+
+function increment(name: string, labels: Record<string, string>, value = 1): void {
+  const key = seriesKey(name, labels);
+  const existing = pending.get(key);
+  if (existing) {
+    existing.value += value;
+  } else {
+    pending.set(key, { name, labels, value });
+  }
+}
+
+/** Groups a delivery result by what went wrong (Telegram error code, or no response at all). */
+export function classifySendResult(result: { success: boolean; errorCode?: number }): SendResultClass {
+  if (result.success) return 'ok';
+  switch (result.errorCode) {
+    case undefined:
+      return 'network';
+    case 429:
+      return 'rate_limited';
+    case 403:
+      return 'blocked';
+    case 400:
+      return 'bad_request';
+    default:
+      return result.errorCode >= 500 ? 'server_error' : 'bad_request';
+  }
+}
+
+/** Counts one delivery attempt; `kind` is item (one notification) or digest. */
+export function recordSendResult(
+  kind: 'item' | 'digest',
+  source: string,
+  result: { success: boolean; errorCode?: number }
+): void {
+  increment(SEND_RESULTS_METRIC, { kind, source, result: classifySendResult(result) });
+}
+
+/** Counts a webhook request rejected as unauthenticated, by receiving function and reason. */
+export function recordRejectedWebhook(fn: string, reason: string): void {
+  increment(WEBHOOK_REJECTED_METRIC, { function: fn, reason });
+}
+
+/** Adds a Telegram API call to the latency histogram. */
+export function observeTelegramLatency(method: string, seconds: number): void {
+  for (const bound of LATENCY_BUCKETS) {
+    if (seconds <= bound) increment(`${TELEGRAM_LATENCY_METRIC}_bucket`, { method, le: String(bound) });
+  }
+  increment(`${TELEGRAM_LATENCY_METRIC}_bucket`, { method, le: '+Inf' });
+  increment(`${TELEGRAM_LATENCY_METRIC}_sum`, { method }, seconds);
+  increment(`${TELEGRAM_LATENCY_METRIC}_count`, { method });
+}
+
+/** Runs a Telegram API call and records its latency, whether it succeeds or throws. */
+export async function timeTelegramRequest<T>(method: string, request: () => Promise<T>): Promise<T> {
+  const started = performance.now();
+  try {
+    return await request();
+  } finally {
+    observeTelegramLatency(method, (performance.now() - started) / 1000);
+  }
+}
+
+/** Adds the counters collected so far to pipeline_metric_counters. Never throws. */
+export async function flushMetrics(supabase: SupabaseClient): Promise<void> {
+  if (pending.size === 0) return;
+
+  const increments = [...pending.values()];
+  pending.clear();
+
+  const { error } = await supabase.rpc('increment_pipeline_metrics', { p_increments: increments });
+  if (error) {
+    logger.error('Error recording pipeline metrics', error);
+  }
+}
+
+/** Stores a worker run, counts its totals and flushes the collected counters. Never throws. */
+export async function recordWorkerRun(supabase: SupabaseClient, run: WorkerRun): Promise<void> {
+  increment(WORKER_RUNS_METRIC, { worker: run.worker, status: run.success ? 'success' : 'error' });
+  for (const [stat, value] of Object.entries(run.stats)) {
+    if (value) increment(WORKER_ITEMS_METRIC, { worker: run.worker, stat }, value);
+  }
+
+  const { error } = await supabase
+    .from('worker_runs')
+    .insert({
+      worker: run.worker,
+      run_id: run.runId,
+      started_at: run.startedAt.toISOString(),
+      finished_at: new Date().toISOString(),
+      success: run.success,
+      stats: run.stats,
+      error: run.error ?? null,
+    });
+
+  if (error) {
+    logger.error(`Error recording ${run.worker} run ${run.runId}`, error);
+  }
+
+  await flushMetrics(supabase);
+}
@@ -0,0 +1,227 @@
+import { ItemTypeDefinition } from './item-types.ts';
+import { StorageLocation } from './storage-locations.ts';
+
+// Signed inline-keyboard actions attached to expiry notifications.
+//
+// Callback data has the form `n:<action>:<queue id without dashes>:<signature>` and must
+// fit Telegram's 64-byte limit. The signature is an HMAC over the action, queue row and
+// chat ID, so a button can only act on the queue row it was sent for, in the chat it was
+// sent to. Answers to "this has expired" messages use the same scheme with the prefix `x`
+// and the waste_log row instead of the queue row. The location picker behind "Move" uses the
+// prefix `l`, with the position of the chosen location in the household's list as the code.
+
+export type NotificationAction = 'consumed' | 'discarded' | 'snooze' | 'half' | 'opened' | 'move';
+
+export interface InlineKeyboardMarkup {
+  inline_keyboard: { text: string; callback_data: string }[][];
+}
+
+export interface VerifiedNotificationAction {
+  action: NotificationAction;
+  queueId: string;
+}
+
+const ACTION_CODES: Record<NotificationAction, string> = {
+  consumed: 'c',
+  discarded: 'd',
+  snooze: 'z',
+  half: 'h',
+  opened: 'o',
+  move: 'm',
+};
+
+// Outcomes of an expired item; codes must not overlap with ACTION_CODES
+export type ExpiredItemOutcome = 'used' | 'wasted';
+
+export interface VerifiedExpiredItemAction {
+  outcome: ExpiredItemOutcome;
+  wasteLogId: string;
+}
+
+const OUTCOME_CODES: Record<ExpiredItemOutcome, string> = {
+  used: 'u',
+  wasted: 'w',
+};
+
+// Location picker: codes a, b, c, ... pick the first, second, third location; BACK_CODE
+// returns to the notification's own buttons
+export interface VerifiedLocationChoice {
+  locationIndex: number | null;  // null for "Back"
+  queueId: string;
+}
+
+export const MAX_LOCATION_CHOICES = 20;
+const BACK_CODE = 'z';
+
+const SIGNATURE_LENGTH = 16;
+
+const encoder = new TextEncoder();
+let keyPromise: Promise<CryptoKey> | null = null;
+
+function getSigningKey(): Promise<CryptoKey> {
+  if (!keyPromise) {
+    const secret = Deno.env.get('TELEGRAM_CALLBACK_SECRET') || Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!secret) {
+      throw new Error('Missing TELEGRAM_CALLBACK_SECRET (or SUPABASE_SERVICE_ROLE_KEY) for signing callback data');
+    }
+    keyPromise = crypto.subtle.importKey(
+      'raw',
+      encoder.encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+  }
+  return keyPromise;
+}
+
+async function sign(code: string, queueId: string, chatId: number | string): Promise<string> {
+  const key = await getSigningKey();
+  const digest = await crypto.subtle.sign('HMAC', key, encoder.encode(`${code}:${queueId}:${chatId}`));
+  const base64 = btoa(String.fromCharCode(...new Uint8Array(digest)));
+  return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '').slice(0, SIGNATURE_LENGTH);
+}
+
+function compactUuid(id: string): string {
+  return id.replace(/-/g, '');
+}
+
+function expandUuid(hex: string): string {
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+// Constant-time comparison to avoid leaking signature prefixes
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+async function createCallbackData(prefix: string, code: string, id: string, chatId: number | string): Promise<string> {
+  return `${prefix}:${code}:${compactUuid(id)}:${await sign(code, id, chatId)}`;
+}
+
+// Returns the code and ID of signed callback data with the given prefix, or null when forged
+async function verifyCallbackData(
+  prefix: string,
+  data: string,
+  chatId: number | string
+): Promise<{ code: string; id: string } | null> {
+  const match = /^([a-z]):([a-z]):([0-9a-f]{32}):([A-Za-z0-9_-]+)$/.exec(data);
+  if (!match || match[1] !== prefix) return null;
+
+  const [, , code, hexId, signature] = match;
+  const id = expandUuid(hexId);
+  const expected = await sign(code, id, chatId);
+  return safeEqual(signature, expected) ? { code, id } : null;
+}
+
+export function createActionCallbackData(action: NotificationAction, queueId: string, chatId: number | string): Promise<string> {
+  return createCallbackData('n', ACTION_CODES[action], queueId, chatId);
+}
+
+/**
+ * Verifies callback data produced by createActionCallbackData for the chat the
+ * callback query came from. Returns null for malformed or forged data.
+ */
+export async function verifyActionCallbackData(data: string, chatId: number | string): Promise<VerifiedNotificationAction | null> {
+  const verified = await verifyCallbackData('n', data, chatId);
+  if (!verified) return null;
+
+  const action = (Object.keys(ACTION_CODES) as NotificationAction[]).find(key => ACTION_CODES[key] === verified.code);
+  return action ? { action, queueId: verified.id } : null;
+}
+
+export function createExpiredItemCallbackData(outcome: ExpiredItemOutcome, wasteLogId: string, chatId: number | string): Promise<string> {
+  return createCallbackData('x', OUTCOME_CODES[outcome], wasteLogId, chatId);
+}
+
+/** Like verifyActionCallbackData, for the buttons of an expired-item message. */
+export async function verifyExpiredItemCallbackData(data: string, chatId: number | string): Promise<VerifiedExpiredItemAction | null> {
+  const verified = await verifyCallbackData('x', data, chatId);
+  if (!verified) return null;
+
+  const outcome = (Object.keys(OUTCOME_CODES) as ExpiredItemOutcome[]).find(key => OUTCOME_CODES[key] === verified.code);
+  return outcome ? { outcome, wasteLogId: verified.id } : null;
+}
+
+export function createLocationCallbackData(locationIndex: number | null, queueId: string, chatId: number | string): Promise<string> {
+  const code = locationIndex === null ? BACK_CODE : String.fromCharCode(97 + locationIndex);
+  return createCallbackData('l', code, queueId, chatId);
+}
+
+/** Like verifyActionCallbackData, for the buttons of the location picker. */
+export async function verifyLocationCallbackData(data: string, chatId: number | string): Promise<VerifiedLocationChoice | null> {
+  const verified = await verifyCallbackData('l', data, chatId);
+  if (!verified) return null;
+  if (verified.code === BACK_CODE) return { locationIndex: null, queueId: verified.id };
+
+  const locationIndex = verified.code.charCodeAt(0) - 97;
+  return locationIndex < MAX_LOCATION_CHOICES ? { locationIndex, queueId: verified.id } : null;
+}
+
+// Inline keyboard shown under every expiry notification, worded for the item's type
+export async function buildNotificationKeyboard(
+  queueId: string,
+  chatId: number | string,
+  itemType?: ItemTypeDefinition | null
+): Promise<InlineKeyboardMarkup> {
+  const button = async (text: string, action: NotificationAction) => ({
+    text,
+    callback_data: await createActionCallbackData(action, queueId, chatId),
+  });
+
+  const wording = itemType?.wording;
+  const secondaryAction = itemType ? itemType.secondaryAction : 'half';
+  const secondRow = [await button('⏰ Snooze 1 day', 'snooze')];
+  if (secondaryAction === 'half') secondRow.push(await button('🌓 Used half', 'half'));
+  if (secondaryAction === 'opened') secondRow.push(await button('🧴 I just opened this', 'opened'));
+
+  const rows = [
+    [
+      await button(wording?.consumed || '😋 Ate it', 'consumed'),
+      await button(wording?.discarded || '🗑️ Threw it away', 'discarded'),
+    ],
+    secondRow,
+  ];
+  if (itemType?.locationColumn) rows.push([await button('📍 Move to…', 'move')]);
+
+  return { inline_keyboard: rows };
+}
+
+// Replaces a notification's buttons after "Move": one per location (two per row), then Back
+export async function buildLocationKeyboard(
+  queueId: string,
+  chatId: number | string,
+  locations: StorageLocation[]
+): Promise<InlineKeyboardMarkup> {
+  const buttons = await Promise.all(locations.slice(0, MAX_LOCATION_CHOICES).map(async (location, index) => ({
+    text: location.name,
+    callback_data: await createLocationCallbackData(index, queueId, chatId),
+  })));
+
+  const rows = [];
+  for (let i = 0; i < buttons.length; i += 2) {
+    rows.push(buttons.slice(i, i + 2));
+  }
+  rows.push([{ text: '↩️ Back', callback_data: await createLocationCallbackData(null, queueId, chatId) }]);
+
+  return { inline_keyboard: rows };
+}
+
+// Buttons under a "this has expired" message, worded for the item's type
+export async function buildExpiredItemKeyboard(
+  wasteLogId: string,
+  chatId: number | string,
+  itemType: ItemTypeDefinition
+): Promise<InlineKeyboardMarkup> {
+  return {
+    inline_keyboard: [[
+      { text: itemType.wording.consumed, callback_data: await createExpiredItemCallbackData('used', wasteLogId, chatId) },
+      { text: itemType.wording.discarded, callback_data: await createExpiredItemCallbackData('wasted', wasteLogId, chatId) },
+    ]],
+  };
+}
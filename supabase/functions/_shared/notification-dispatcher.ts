@@ -0,0 +1,299 @@
+import { Api, GrammyError } from "https://deno.land/x/grammy@v1.36.3/mod.ts";
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { describePao } from './cosmetics.ts';
+import { escapeHtml, formatDate } from './format.ts';
+import { describeDue, resolveQueueItem } from './item-types.ts';
+import { logger } from './logger.ts';
+import { recordSendResult, timeTelegramRequest } from './metrics.ts';
+import { buildNotificationKeyboard } from './notification-actions.ts';
+
+// Single delivery path for per-item expiry notifications, shared by the queue INSERT
+// webhook (handle-webhook-callback) and the queue worker (process-expiring-queue).
+//
+// Before sending, the dispatcher claims the idempotency key `<queue id>:<channel>` in
+// notification_deliveries. Whoever claims it sends; everyone else sees the existing
+// delivery and skips, so a queue row is delivered at most once per channel.
+
+export type DeliveryChannel = 'telegram';
+
+export interface NotificationQueueRow {
+  id: string;
+  chat_id: number;
+  item_type?: string | null;
+  item_id?: string | null;
+  food_item_id?: string | null;   // Rows queued before item_type existed
+  cosmetic_id?: string | null;
+  item_name: string;
+  quantity: number;
+  unit: string;
+  category: string;
+  expiration_date: string;
+  expiration_estimated?: boolean | null; // Date suggested from typical shelf life, not printed
+  location?: string | null;       // Name of the item's storage location
+  days_until_expiry: number;
+  notification_priority: string;
+  correlation_id?: string | null; // Request that queued the row; logged with every entry about it
+}
+
+export interface DispatchResult {
+  success: boolean;
+  messageId?: number;
+  duplicate?: boolean;   // Already delivered by another entry point; nothing was sent
+  inProgress?: boolean;  // Another entry point is sending right now; try again later
+  error?: string;
+  errorCode?: number;    // Telegram error code, when Telegram rejected the request
+  retryAfter?: number;   // Seconds to wait before retrying (Telegram 429)
+}
+
+interface DeliveryRow {
+  id: string;
+  status: 'sending' | 'sent' | 'failed';
+  message_id: number | null;
+  updated_at: string;
+}
+
+// A 'sending' claim older than this is treated as abandoned (the sender crashed)
+const STALE_SENDING_MS = 10 * 60 * 1000;
+
+// The queue row's priority already reflects the owner's thresholds for the category
+const PRIORITY_EMOJI: Record<string, string> = {
+  urgent: '🚨',
+  high: '⚠️',
+  medium: '📅',
+  low: '🗓️',
+};
+
+// Food categories; other item types use their registered emoji
+const CATEGORY_EMOJI: Record<string, string> = {
+  snacks: '🍪',
+  dairy: '🥛',
+  meat: '🥩',
+  vegetables: '🥕',
+  fruits: '🍎',
+  beverages: '🥤',
+  other: '📦',
+};
+
+let api: Api | null = null;
+
+function getApi(): Api {
+  if (!api) {
+    const token = Deno.env.get('TELEGRAM_BOT_TOKEN');
+    if (!token) {
+      throw new Error('Missing TELEGRAM_BOT_TOKEN');
+    }
+    api = new Api(token);
+  }
+  return api;
+}
+
+interface ItemDetails {
+  image_url?: string | null;
+  opened_at?: string | null;
+  pao_months?: number | null;
+}
+
+/**
+ * Renders the canonical per-item notification (parse_mode: 'HTML') with the wording of the
+ * row's item type. `pao` describes an opened cosmetic, e.g. "opened 11 months ago, PAO 12M".
+ */
+export function renderNotificationMessage(row: NotificationQueueRow, pao?: string | null): string {
+  const itemType = resolveQueueItem(row)?.definition;
+  const due = itemType ? describeDue(itemType, row.days_until_expiry) : `Expires in ${row.days_until_expiry} days`;
+  const heading = `${PRIORITY_EMOJI[row.notification_priority] || '📅'} <b>${due}</b>`;
+  const itemEmoji = CATEGORY_EMOJI[row.category] || itemType?.emoji || '📦';
+  const categoryName = row.category.charAt(0).toUpperCase() + row.category.slice(1);
+
+  const lines = [`${itemEmoji} <b>Item:</b> ${escapeHtml(row.item_name)}`];
+  if (!itemType || itemType.quantityColumn) {
+    lines.push(`📊 <b>Quantity:</b> ${row.quantity} ${escapeHtml(row.unit)}`);
+  }
+  lines.push(`📅 <b>${itemType?.wording.dateLabel || 'Expires'}:</b> ${formatDate(row.expiration_date)}` +
+    (row.expiration_estimated ? ' <i>(estimated)</i>' : ''));
+  lines.push(`🗂️ <b>Category:</b> ${escapeHtml(categoryName)}`);
+  if (row.location) {
+    lines.push(`📍 <b>Location:</b> ${escapeHtml(row.location)}`);
+  }
+  if (pao) {
+    lines.push(`🧴 <b>Opened:</b> ${escapeHtml(pao)}`);
+  }
+
+  return `${heading}\n\n${lines.join('\n')}`;
+}
+
+// Image and the type's extra columns (e.g. a cosmetic's opened date and PAO) of the queued item
+async function fetchItemDetails(supabase: SupabaseClient, row: NotificationQueueRow): Promise<ItemDetails | null> {
+  const resolved = resolveQueueItem(row);
+  if (!resolved) return null;
+
+  const { definition, itemId } = resolved;
+  const columns = [definition.imageColumn, ...(definition.extraColumns || [])].filter(Boolean);
+  if (columns.length === 0) return null;
+
+  const { data, error } = await supabase
+    .from(definition.table)
+    .select(columns.join(', '))
+    .eq('id', itemId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error(`Error fetching details for queue item ${row.id}`, error);
+    return null;
+  }
+
+  const details = data as Record<string, unknown> | null;
+  return details && {
+    ...details,
+    image_url: definition.imageColumn ? details[definition.imageColumn] as string | null : null,
+  };
+}
+
+// Claims the idempotency key for this row and channel. Returns the claimed delivery row,
+// or a DispatchResult when someone else already owns the delivery.
+async function claimDelivery(
+  supabase: SupabaseClient,
+  row: NotificationQueueRow,
+  channel: DeliveryChannel,
+  source: string
+): Promise<{ delivery: DeliveryRow } | { result: DispatchResult }> {
+  const { data: inserted, error: insertError } = await supabase
+    .from('notification_deliveries')
+    .insert({
+      queue_id: row.id,
+      channel,
+      idempotency_key: `${row.id}:${channel}`,
+      status: 'sending',
+      source,
+      chat_id: row.chat_id,
+    })
+    .select('id, status, message_id, updated_at')
+    .single();
+
+  if (!insertError) {
+    return { delivery: inserted as DeliveryRow };
+  }
+
+  // 23505 = unique_violation: another attempt already holds the key
+  if (insertError.code !== '23505') {
+    throw insertError;
+  }
+
+  const { data: existing, error: fetchError } = await supabase
+    .from('notification_deliveries')
+    .select('id, status, message_id, updated_at')
+    .eq('idempotency_key', `${row.id}:${channel}`)
+    .single();
+
+  if (fetchError) throw fetchError;
+
+  const delivery = existing as DeliveryRow;
+
+  if (delivery.status === 'sent') {
+    return { result: { success: true, duplicate: true, messageId: delivery.message_id ?? undefined } };
+  }
+
+  const isStale = Date.now() - new Date(delivery.updated_at).getTime() > STALE_SENDING_MS;
+  if (delivery.status === 'sending' && !isStale) {
+    return { result: { success: false, inProgress: true, error: 'Delivery already in progress' } };
+  }
+
+  // Take over a failed or abandoned delivery; the status check makes the takeover atomic
+  const { data: retaken, error: retakeError } = await supabase
+    .from('notification_deliveries')
+    .update({ status: 'sending', source, error: null })
+    .eq('id', delivery.id)
+    .eq('status', delivery.status)
+    .eq('updated_at', delivery.updated_at)
+    .select('id, status, message_id, updated_at');
+
+  if (retakeError) throw retakeError;
+
+  if (!retaken || retaken.length === 0) {
+    return { result: { success: false, inProgress: true, error: 'Delivery already in progress' } };
+  }
+
+  return { delivery: retaken[0] as DeliveryRow };
+}
+
+/**
+ * Delivers the notification for a queue row at most once per channel and records the
+ * Telegram message_id. Never throws; failures are reported in the result.
+ */
+export async function dispatchQueueNotification(
+  supabase: SupabaseClient,
+  row: NotificationQueueRow,
+  source: string,
+  channel: DeliveryChannel = 'telegram'
+): Promise<DispatchResult> {
+  const log = logger.child({ correlation_id: row.correlation_id, queue_id: row.id, source });
+  let delivery: DeliveryRow;
+
+  try {
+    const claim = await claimDelivery(supabase, row, channel, source);
+    if ('result' in claim) {
+      log.info(`Skipping queue item on ${channel}: ${claim.result.duplicate ? 'already delivered' : 'in progress'}`);
+      return claim.result;
+    }
+    delivery = claim.delivery;
+  } catch (error) {
+    log.error('Error claiming delivery for queue item', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Could not claim delivery' };
+  }
+
+  let result: DispatchResult;
+
+  try {
+    const details = await fetchItemDetails(supabase, row);
+    const message = renderNotificationMessage(row, details?.opened_at ? describePao(details) : null);
+    const replyMarkup = await buildNotificationKeyboard(row.id, row.chat_id, resolveQueueItem(row)?.definition);
+    const imageUrl = details?.image_url || null;
+
+    const sent = imageUrl
+      ? await timeTelegramRequest('sendPhoto', () =>
+        getApi().sendPhoto(row.chat_id, imageUrl, { caption: message, parse_mode: 'HTML', reply_markup: replyMarkup }))
+      : await timeTelegramRequest('sendMessage', () =>
+        getApi().sendMessage(row.chat_id, message, { parse_mode: 'HTML', reply_markup: replyMarkup }));
+
+    result = { success: true, messageId: sent.message_id };
+    log.info('Notification delivered', { channel, message_id: sent.message_id, chat_id: row.chat_id });
+  } catch (error) {
+    log.error('Error sending notification for queue item', error);
+    result = error instanceof GrammyError
+      ? {
+        success: false,
+        error: error.description,
+        errorCode: error.error_code,
+        retryAfter: error.parameters?.retry_after,
+      }
+      : { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+
+  recordSendResult('item', source, result);
+
+  const { error: recordError } = await supabase
+    .from('notification_deliveries')
+    .update(result.success
+      ? { status: 'sent', message_id: result.messageId, error: null }
+      : { status: 'failed', error: result.error || 'Unknown error' })
+    .eq('id', delivery.id);
+
+  if (recordError) {
+    log.error('Error recording delivery for queue item', recordError);
+  }
+
+  return result;
+}
+
+/**
+ * Drops the delivery records of a queue row so that it is delivered again, e.g. after a
+ * snooze puts it back to 'pending'. Without this the next claim finds the 'sent' key and
+ * skips the row as a duplicate.
+ */
+export async function releaseQueueDeliveries(supabase: SupabaseClient, queueId: string): Promise<void> {
+  const { error } = await supabase
+    .from('notification_deliveries')
+    .delete()
+    .eq('queue_id', queueId);
+
+  if (error) throw error;
+}
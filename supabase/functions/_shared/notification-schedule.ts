@@ -0,0 +1,57 @@
+import { addDays, getZonedParts, todayInTimezone, zonedTimeToUtc } from './dates.ts';
+import { NotificationPreferences, QuietHours } from './user-preferences.ts';
+
+// Computes when a queue row should be delivered, in the user's own time zone.
+//
+// A row is scheduled for today's preferred delivery time; if that has already passed, for
+// tomorrow's. Either way the result is pushed to the end of the user's quiet hours when it
+// would land inside them. Rows count their days until expiry from the delivery instant,
+// which may fall on a later day than the one they are queued on.
+
+function toMinutes(timeOfDay: string): number {
+  const [hours, minutes] = timeOfDay.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+export function isWithinQuietHours(minutes: number, quietHours: QuietHours): boolean {
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end; // overnight, e.g. 22:00-07:00
+}
+
+/** Returns the instant a notification created at `now` should be delivered. */
+export function computeScheduledAt(preferences: NotificationPreferences, now = new Date()): Date {
+  const { timezone, delivery_time, quiet_hours } = preferences;
+  const today = todayInTimezone(timezone, now);
+  let scheduledAt = zonedTimeToUtc(today, toMinutes(delivery_time), timezone);
+  if (scheduledAt < now) {
+    scheduledAt = zonedTimeToUtc(addDays(today, 1), toMinutes(delivery_time), timezone);
+  }
+
+  if (quiet_hours) {
+    const local = getZonedParts(scheduledAt, timezone);
+    if (isWithinQuietHours(local.hour * 60 + local.minute, quiet_hours)) {
+      const localDate = todayInTimezone(timezone, scheduledAt);
+      let quietEnd = zonedTimeToUtc(localDate, toMinutes(quiet_hours.end), timezone);
+      if (quietEnd <= scheduledAt) {
+        quietEnd = zonedTimeToUtc(addDays(localDate, 1), toMinutes(quiet_hours.end), timezone);
+      }
+      scheduledAt = quietEnd;
+    }
+  }
+
+  return scheduledAt;
+}
+
+/**
+ * Whether something can be sent to the user at `now` without waiting: today's delivery time
+ * has passed and `now` is outside their quiet hours.
+ */
+export function isDeliveryWindowOpen(preferences: NotificationPreferences, now = new Date()): boolean {
+  const local = getZonedParts(now, preferences.timezone);
+  const minutes = local.hour * 60 + local.minute;
+  return minutes >= toMinutes(preferences.delivery_time) &&
+    !(preferences.quiet_hours && isWithinQuietHours(minutes, preferences.quiet_hours));
+}
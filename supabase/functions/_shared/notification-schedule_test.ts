@@ -0,0 +1,92 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { computeScheduledAt, isDeliveryWindowOpen, isWithinQuietHours } from './notification-schedule.ts';
+import { DEFAULT_NOTIFICATION_PREFERENCES, NotificationPreferences } from './user-preferences.ts';
+
+function preferences(overrides: Partial<NotificationPreferences>): NotificationPreferences {
+  return { ...DEFAULT_NOTIFICATION_PREFERENCES, ...overrides };
+}
+
+function scheduledAt(overrides: Partial<NotificationPreferences>, now: string): string {
+  return computeScheduledAt(preferences(overrides), new Date(now)).toISOString();
+}
+
+// Ho Chi Minh City is UTC+7 all year
+const OVERNIGHT = { timezone: 'Asia/Ho_Chi_Minh', delivery_time: '08:00', quiet_hours: { start: '22:00', end: '07:00' } };
+
+Deno.test('isWithinQuietHours wraps past midnight', () => {
+  const quiet = { start: '22:00', end: '07:00' };
+  assertEquals(isWithinQuietHours(22 * 60, quiet), true);
+  assertEquals(isWithinQuietHours(23 * 60 + 59, quiet), true);
+  assertEquals(isWithinQuietHours(0, quiet), true);
+  assertEquals(isWithinQuietHours(6 * 60 + 59, quiet), true);
+  assertEquals(isWithinQuietHours(7 * 60, quiet), false);
+  assertEquals(isWithinQuietHours(21 * 60 + 59, quiet), false);
+});
+
+Deno.test('isWithinQuietHours within one day', () => {
+  const quiet = { start: '13:00', end: '14:30' };
+  assertEquals(isWithinQuietHours(13 * 60, quiet), true);
+  assertEquals(isWithinQuietHours(14 * 60 + 29, quiet), true);
+  assertEquals(isWithinQuietHours(14 * 60 + 30, quiet), false);
+  assertEquals(isWithinQuietHours(12 * 60 + 59, quiet), false);
+});
+
+Deno.test('computeScheduledAt waits for the delivery time later today', () => {
+  // 06:00 local, delivery at 08:00 local
+  assertEquals(scheduledAt({ ...OVERNIGHT, quiet_hours: null }, '2025-06-14T23:00:00Z'), '2025-06-15T01:00:00.000Z');
+});
+
+Deno.test('computeScheduledAt waits for tomorrow once the delivery time has passed', () => {
+  // 12:00 local on the 15th -> 08:00 local on the 16th
+  assertEquals(scheduledAt(OVERNIGHT, '2025-06-15T05:00:00Z'), '2025-06-16T01:00:00.000Z');
+  // 23:00 local on the 15th, inside quiet hours -> 08:00 local on the 16th
+  assertEquals(scheduledAt(OVERNIGHT, '2025-06-15T16:00:00Z'), '2025-06-16T01:00:00.000Z');
+});
+
+Deno.test('computeScheduledAt keeps the delivery time west of UTC after the 06:00 UTC cron', () => {
+  const nineAm = { delivery_time: '09:00', quiet_hours: null };
+  // 23:00 PDT on the 14th -> 09:00 PDT on the 15th
+  assertEquals(scheduledAt({ ...nineAm, timezone: 'America/Los_Angeles' }, '2025-06-15T06:00:00Z'), '2025-06-15T16:00:00.000Z');
+  // 20:00 HST on the 14th -> 09:00 HST on the 15th
+  assertEquals(scheduledAt({ ...nineAm, timezone: 'Pacific/Honolulu' }, '2025-06-15T06:00:00Z'), '2025-06-15T19:00:00.000Z');
+  // 13:00 on the 15th in Ho Chi Minh City -> 09:00 on the 16th
+  assertEquals(scheduledAt({ ...nineAm, timezone: 'Asia/Ho_Chi_Minh' }, '2025-06-15T06:00:00Z'), '2025-06-16T02:00:00.000Z');
+});
+
+Deno.test('computeScheduledAt before midnight moves to the end of quiet hours the next morning', () => {
+  // 22:00 local on the 15th; delivery at 22:30 falls inside 22:00-07:00 -> 07:00 local on the 16th
+  assertEquals(scheduledAt({ ...OVERNIGHT, delivery_time: '22:30' }, '2025-06-15T15:00:00Z'), '2025-06-16T00:00:00.000Z');
+});
+
+Deno.test('computeScheduledAt after midnight moves to the end of quiet hours the same morning', () => {
+  // 02:30 local on the 16th; delivery at 06:00 falls inside quiet hours -> 07:00 local on the 16th
+  assertEquals(scheduledAt({ ...OVERNIGHT, delivery_time: '06:00' }, '2025-06-15T19:30:00Z'), '2025-06-16T00:00:00.000Z');
+  // With the delivery time still ahead and after quiet hours, it simply waits for it
+  assertEquals(scheduledAt(OVERNIGHT, '2025-06-15T19:30:00Z'), '2025-06-16T01:00:00.000Z');
+});
+
+Deno.test('computeScheduledAt moves a delivery time inside quiet hours to their end', () => {
+  // 05:00 local; delivery at 06:00 falls inside 22:00-07:00
+  assertEquals(scheduledAt({ ...OVERNIGHT, delivery_time: '06:00' }, '2025-06-14T22:00:00Z'), '2025-06-15T00:00:00.000Z');
+});
+
+Deno.test('computeScheduledAt ends overnight quiet hours in the offset of the next morning', () => {
+  const newYork = { timezone: 'America/New_York', delivery_time: '23:45', quiet_hours: { start: '23:00', end: '07:00' } };
+  // 23:30 EST on 8 March -> 07:00 EDT on 9 March (spring forward in between)
+  assertEquals(scheduledAt(newYork, '2025-03-09T04:30:00Z'), '2025-03-09T11:00:00.000Z');
+  // 23:30 EDT on 1 November -> 07:00 EST on 2 November (fall back in between)
+  assertEquals(scheduledAt(newYork, '2025-11-02T03:30:00Z'), '2025-11-02T12:00:00.000Z');
+});
+
+Deno.test('computeScheduledAt keeps the next delivery time across a DST change', () => {
+  const newYork = { timezone: 'America/New_York', delivery_time: '08:00', quiet_hours: null };
+  // 23:30 EST on 8 March -> 08:00 EDT on 9 March
+  assertEquals(scheduledAt(newYork, '2025-03-09T04:30:00Z'), '2025-03-09T12:00:00.000Z');
+});
+
+Deno.test('isDeliveryWindowOpen after the delivery time and outside quiet hours', () => {
+  const prefs = preferences(OVERNIGHT);
+  assertEquals(isDeliveryWindowOpen(prefs, new Date('2025-06-15T00:30:00Z')), false); // 07:30, before 08:00
+  assertEquals(isDeliveryWindowOpen(prefs, new Date('2025-06-15T05:00:00Z')), true);  // 12:00
+  assertEquals(isDeliveryWindowOpen(prefs, new Date('2025-06-15T16:00:00Z')), false); // 23:00, quiet
+});
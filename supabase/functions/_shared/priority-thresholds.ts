@@ -0,0 +1,93 @@
+// Priority cut-offs and reminder horizons, configurable per user and per category.
+//
+// Thresholds live under `thresholds` in user_settings.preferences.notifications:
+// {
+//   "default": { "urgent": 0, "high": 2, "medium": 6, "horizon": 7 },
+//   "categories": {
+//     "dairy":  { "high": 2 },
+//     "pantry": { "urgent": 3, "high": 14, "medium": 30, "horizon": 30 }
+//   }
+// }
+//
+// An item is urgent up to `urgent` days before expiry, high up to `high`, medium up to
+// `medium` and low up to `horizon`; beyond the horizon no reminder is queued. Category
+// entries only need the values they change, the rest comes from the user's default.
+
+export type Priority = 'urgent' | 'high' | 'medium' | 'low';
+
+export interface PriorityThresholds {
+  urgent: number;
+  high: number;
+  medium: number;
+  horizon: number;
+}
+
+export interface ThresholdSettings {
+  default: PriorityThresholds;
+  categories: Record<string, PriorityThresholds>;
+}
+
+export const DEFAULT_PRIORITY_THRESHOLDS: PriorityThresholds = {
+  urgent: 0,
+  high: 2,
+  medium: 6,
+  horizon: 7,
+};
+
+// Longest reminder horizon a user can configure; populate-expiring-queue looks this far ahead
+export const MAX_REMINDER_HORIZON = 60;
+
+const THRESHOLD_KEYS: (keyof PriorityThresholds)[] = ['urgent', 'high', 'medium', 'horizon'];
+
+/**
+ * Merges stored (possibly partial) thresholds over `base`. Returns null when the result
+ * is not a valid, non-decreasing set of whole days within MAX_REMINDER_HORIZON.
+ */
+export function mergeThresholds(raw: unknown, base: PriorityThresholds): PriorityThresholds | null {
+  const stored = (raw && typeof raw === 'object' ? raw : {}) as Partial<Record<keyof PriorityThresholds, unknown>>;
+  const merged = { ...base };
+
+  for (const key of THRESHOLD_KEYS) {
+    const value = stored[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) return null;
+    merged[key] = value;
+  }
+
+  const ordered = merged.urgent <= merged.high && merged.high <= merged.medium && merged.medium <= merged.horizon;
+  return ordered && merged.horizon <= MAX_REMINDER_HORIZON ? merged : null;
+}
+
+// Fills in defaults and drops invalid entries from stored threshold settings
+export function normalizeThresholdSettings(raw: unknown): ThresholdSettings {
+  const stored = (raw && typeof raw === 'object' ? raw : {}) as { default?: unknown; categories?: unknown };
+  const userDefault = mergeThresholds(stored.default, DEFAULT_PRIORITY_THRESHOLDS) || { ...DEFAULT_PRIORITY_THRESHOLDS };
+
+  const categories: Record<string, PriorityThresholds> = {};
+  if (stored.categories && typeof stored.categories === 'object') {
+    for (const [category, value] of Object.entries(stored.categories)) {
+      const merged = mergeThresholds(value, userDefault);
+      if (merged) categories[category] = merged;
+    }
+  }
+
+  return { default: userDefault, categories };
+}
+
+export function resolveThresholds(settings: ThresholdSettings | undefined, category: string): PriorityThresholds {
+  if (!settings) return DEFAULT_PRIORITY_THRESHOLDS;
+  return settings.categories[category] || settings.default;
+}
+
+/** Priority for an item `days` away from expiry; already expired items are urgent. */
+export function getPriorityForDays(days: number, thresholds: PriorityThresholds = DEFAULT_PRIORITY_THRESHOLDS): Priority {
+  if (days <= thresholds.urgent) return 'urgent';
+  if (days <= thresholds.high) return 'high';
+  if (days <= thresholds.medium) return 'medium';
+  return 'low';
+}
+
+/** Whether a reminder should be queued for an item `days` away from expiry. */
+export function isWithinReminderHorizon(days: number, thresholds: PriorityThresholds = DEFAULT_PRIORITY_THRESHOLDS): boolean {
+  return days >= 0 && days <= thresholds.horizon;
+}
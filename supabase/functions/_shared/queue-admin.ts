@@ -0,0 +1,261 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { AdminActor } from './admin-auth.ts';
+import { getItemType } from './item-types.ts';
+import { logger } from './logger.ts';
+
+// Operator actions on expiring_items_queue, used by the expiring-items queue endpoint:
+// - requeue:    failed (or dead) rows go back to pending with a fresh attempt count
+// - cancel:     pending/failed rows for a user or item become cancelled and are never sent
+// - reschedule: pending/failed rows get a new scheduled_at
+// - purge:      rows of the given statuses older than N days are deleted
+// Each action only touches rows in the statuses it allows, so rows a worker is currently
+// processing are never changed. Every action, dry runs included, is written to queue_admin_audit.
+
+export type QueueStatus = 'pending' | 'processing' | 'sent' | 'failed' | 'dead' | 'cancelled';
+export type QueueAdminAction = 'requeue' | 'cancel' | 'reschedule' | 'purge';
+
+export const QUEUE_STATUSES: QueueStatus[] = ['pending', 'processing', 'sent', 'failed', 'dead', 'cancelled'];
+const PRIORITIES = ['urgent', 'high', 'medium', 'low'];
+
+export interface QueueFilters {
+  ids?: string[];
+  statuses?: QueueStatus[];
+  user_id?: string;
+  chat_id?: number;
+  priorities?: string[];
+  item_type?: string;
+  item_id?: string;
+  from?: string;            // scheduled_at on or after
+  to?: string;              // scheduled_at before
+  older_than_days?: number; // created_at more than this many days ago
+}
+
+export interface QueueAdminRequest {
+  action: QueueAdminAction;
+  filters: QueueFilters;
+  scheduled_at?: string;    // reschedule: new time; requeue: when to send (default now)
+  dry_run: boolean;
+}
+
+export interface QueueAdminResult {
+  action: QueueAdminAction;
+  dry_run: boolean;
+  affected_count: number;
+  affected_ids: string[];
+  audit_id: string;
+}
+
+// Statuses each action may touch, and the default when no status filter is given
+const ACTION_STATUSES: Record<QueueAdminAction, { allowed: QueueStatus[]; defaults: QueueStatus[] }> = {
+  requeue: { allowed: ['failed', 'dead'], defaults: ['failed'] },
+  cancel: { allowed: ['pending', 'failed'], defaults: ['pending', 'failed'] },
+  reschedule: { allowed: ['pending', 'failed'], defaults: ['pending'] },
+  purge: { allowed: ['pending', 'sent', 'failed', 'dead', 'cancelled'], defaults: ['sent', 'dead', 'cancelled'] },
+};
+
+const MAX_PREVIEW_IDS = 1000;
+
+interface FilterableQuery<T> {
+  eq(column: string, value: unknown): T;
+  in(column: string, values: unknown[]): T;
+  gte(column: string, value: unknown): T;
+  lt(column: string, value: unknown): T;
+}
+
+function isTimestamp(value: unknown): value is string {
+  return typeof value === 'string' && !isNaN(Date.parse(value));
+}
+
+// Accepts an array or a comma-separated string (query parameters)
+function parseList(value: unknown): string[] | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const list = Array.isArray(value) ? value : String(value).split(',');
+  return list.map(entry => String(entry).trim()).filter(Boolean);
+}
+
+/** Parses filters from query parameters or a JSON body; returns an error message when invalid. */
+export function parseQueueFilters(source: Record<string, unknown>): QueueFilters | string {
+  const filters: QueueFilters = {};
+
+  const ids = parseList(source.ids);
+  if (ids) filters.ids = ids;
+
+  const statuses = parseList(source.status);
+  if (statuses) {
+    const unknown = statuses.find(status => !QUEUE_STATUSES.includes(status as QueueStatus));
+    if (unknown) return `Unknown status: ${unknown}`;
+    filters.statuses = statuses as QueueStatus[];
+  }
+
+  const priorities = parseList(source.priority);
+  if (priorities) {
+    const unknown = priorities.find(priority => !PRIORITIES.includes(priority));
+    if (unknown) return `Unknown priority: ${unknown}`;
+    filters.priorities = priorities;
+  }
+
+  if (source.user_id) filters.user_id = String(source.user_id);
+  if (source.item_id) filters.item_id = String(source.item_id);
+
+  if (source.item_type) {
+    if (!getItemType(String(source.item_type))) return `Unknown item type: ${source.item_type}`;
+    filters.item_type = String(source.item_type);
+  }
+
+  if (source.chat_id !== undefined && source.chat_id !== null && source.chat_id !== '') {
+    const chatId = Number(source.chat_id);
+    if (!Number.isInteger(chatId)) return 'chat_id must be an integer';
+    filters.chat_id = chatId;
+  }
+
+  for (const key of ['from', 'to'] as const) {
+    if (source[key] === undefined || source[key] === null || source[key] === '') continue;
+    if (!isTimestamp(source[key])) return `${key} must be a date or timestamp`;
+    filters[key] = new Date(source[key] as string).toISOString();
+  }
+
+  if (source.older_than_days !== undefined && source.older_than_days !== null && source.older_than_days !== '') {
+    const days = Number(source.older_than_days);
+    if (!Number.isFinite(days) || days < 0) return 'older_than_days must be a non-negative number';
+    filters.older_than_days = days;
+  }
+
+  return filters;
+}
+
+/** Narrows a queue query (select, update or delete) to the filtered rows. */
+export function applyQueueFilters<T extends FilterableQuery<T>>(query: T, filters: QueueFilters, now = new Date()): T {
+  if (filters.ids) query = query.in('id', filters.ids);
+  if (filters.statuses) query = query.in('status', filters.statuses);
+  if (filters.user_id) query = query.eq('user_id', filters.user_id);
+  if (filters.chat_id !== undefined) query = query.eq('chat_id', filters.chat_id);
+  if (filters.priorities) query = query.in('notification_priority', filters.priorities);
+  if (filters.item_type) query = query.eq('item_type', filters.item_type);
+  if (filters.item_id) query = query.eq('item_id', filters.item_id);
+  if (filters.from) query = query.gte('scheduled_at', filters.from);
+  if (filters.to) query = query.lt('scheduled_at', filters.to);
+  if (filters.older_than_days !== undefined) {
+    const cutoff = new Date(now.getTime() - filters.older_than_days * 24 * 60 * 60 * 1000);
+    query = query.lt('created_at', cutoff.toISOString());
+  }
+  return query;
+}
+
+/**
+ * Checks the request against what its action needs and fills in the default statuses.
+ * Returns an error message when the request is not allowed.
+ */
+export function prepareQueueAdminRequest(request: QueueAdminRequest): QueueAdminRequest | string {
+  const { allowed, defaults } = ACTION_STATUSES[request.action];
+  const statuses = request.filters.statuses || defaults;
+  const disallowed = statuses.find(status => !allowed.includes(status));
+  if (disallowed) return `${request.action} cannot change ${disallowed} rows (allowed: ${allowed.join(', ')})`;
+
+  const { filters } = request;
+  switch (request.action) {
+    case 'cancel':
+      if (!filters.ids && !filters.user_id && !filters.item_id) {
+        return 'cancel needs ids, user_id or item_id';
+      }
+      break;
+    case 'reschedule':
+      if (!isTimestamp(request.scheduled_at)) return 'reschedule needs scheduled_at';
+      if (!filters.ids && !filters.user_id && !filters.chat_id && !filters.item_id && !filters.from && !filters.to) {
+        return 'reschedule needs ids, user_id, chat_id, item_id or a from/to range';
+      }
+      break;
+    case 'requeue':
+      if (request.scheduled_at !== undefined && !isTimestamp(request.scheduled_at)) {
+        return 'scheduled_at must be a timestamp';
+      }
+      break;
+    case 'purge':
+      if (filters.older_than_days === undefined) return 'purge needs older_than_days';
+      break;
+  }
+
+  return { ...request, filters: { ...filters, statuses } };
+}
+
+function changesFor(request: QueueAdminRequest, now: Date): Record<string, unknown> {
+  switch (request.action) {
+    case 'requeue':
+      return {
+        status: 'pending',
+        attempt_count: 0,
+        next_attempt_at: null,
+        last_error: null,
+        last_error_code: null,
+        processed_at: null,
+        scheduled_at: request.scheduled_at ? new Date(request.scheduled_at).toISOString() : now.toISOString(),
+      };
+    case 'cancel':
+      return { status: 'cancelled', processed_at: now.toISOString(), next_attempt_at: null };
+    case 'reschedule':
+      return { scheduled_at: new Date(request.scheduled_at!).toISOString(), next_attempt_at: null };
+    case 'purge':
+      return {};
+  }
+}
+
+/** Runs a prepared request (see prepareQueueAdminRequest) and records it in the audit trail. */
+export async function runQueueAdminAction(
+  supabase: SupabaseClient,
+  actor: AdminActor,
+  request: QueueAdminRequest,
+  now = new Date()
+): Promise<QueueAdminResult> {
+  const changes = changesFor(request, now);
+  let affectedIds: string[];
+  let affectedCount: number;
+
+  if (request.dry_run) {
+    const { data, count, error } = await applyQueueFilters(
+      supabase.from('expiring_items_queue').select('id', { count: 'exact' }),
+      request.filters,
+      now
+    ).limit(MAX_PREVIEW_IDS);
+
+    if (error) throw error;
+    affectedIds = ((data || []) as { id: string }[]).map(row => row.id);
+    affectedCount = count ?? affectedIds.length;
+  } else {
+    const table = supabase.from('expiring_items_queue');
+    const { data, error } = await applyQueueFilters(
+      request.action === 'purge' ? table.delete() : table.update(changes),
+      request.filters,
+      now
+    ).select('id');
+
+    if (error) throw error;
+    affectedIds = ((data || []) as { id: string }[]).map(row => row.id);
+    affectedCount = affectedIds.length;
+  }
+
+  const { data: audit, error: auditError } = await supabase
+    .from('queue_admin_audit')
+    .insert({
+      action: request.action,
+      actor: actor.actor,
+      actor_role: actor.role,
+      filters: request.filters,
+      changes,
+      dry_run: request.dry_run,
+      affected_count: affectedCount,
+      affected_ids: affectedIds,
+    })
+    .select('id')
+    .single();
+
+  if (auditError) throw auditError;
+
+  logger.info(`Queue admin ${request.action}${request.dry_run ? ' (dry run)' : ''} by ${actor.actor}: ${affectedCount} rows`);
+
+  return {
+    action: request.action,
+    dry_run: request.dry_run,
+    affected_count: affectedCount,
+    affected_ids: affectedIds,
+    audit_id: audit.id,
+  };
+}
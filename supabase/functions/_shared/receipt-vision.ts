@@ -0,0 +1,171 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { loadGeminiApiKey } from './api-keys.ts';
+
+// Vision providers that read the line items off a photo of a grocery receipt. Providers are
+// registered by name and RECEIPT_VISION_PROVIDER picks one (default 'gemini', which calls
+// Gemini with the user's own API key). The 'fake' provider returns a fixed receipt without
+// any network access, so the import pipeline can be run offline; like a real receipt it has a
+// product on two lines and lines that are not products.
+
+export interface ReceiptImage {
+  data: Uint8Array;
+  mimeType: string;                 // e.g. 'image/jpeg'
+}
+
+export interface ReceiptLine {
+  name: string;                     // As printed, cleaned of codes and prices
+  quantity: number | null;
+  unit: string | null;              // Raw unit word, resolved against the user's units later
+  shelf_life_days: number | null;   // The provider's estimate of how long the item keeps
+}
+
+export interface VisionProvider {
+  name: string;
+  extractReceiptLines(image: ReceiptImage): Promise<ReceiptLine[]>;
+}
+
+/** Builds the provider for a user, or returns a message telling them what is missing. */
+export type VisionProviderFactory = (supabase: SupabaseClient, userId: string) => Promise<VisionProvider | string>;
+
+const DEFAULT_PROVIDER = 'gemini';
+const GEMINI_MODEL = Deno.env.get('GEMINI_VISION_MODEL') || 'gemini-2.5-flash';
+const MAX_SHELF_LIFE_DAYS = 730;
+
+const GEMINI_PROMPT = `This is a photo of a grocery receipt. List every food or household product bought.
+For each line give:
+- name: the product name in plain words, without item codes, prices or discounts
+- quantity: the number of units or the weight bought, or null if not printed
+- unit: the unit of the quantity (e.g. "kg", "g", "l", "ml", "pcs", "pack", "bottle", "can"), or null
+- shelf_life_days: roughly how many days the product keeps at home after purchase
+Leave out totals, taxes, discounts, deposits, bag fees and payment lines.`;
+
+const GEMINI_RESPONSE_SCHEMA = {
+  type: 'ARRAY',
+  items: {
+    type: 'OBJECT',
+    properties: {
+      name: { type: 'STRING' },
+      quantity: { type: 'NUMBER', nullable: true },
+      unit: { type: 'STRING', nullable: true },
+      shelf_life_days: { type: 'INTEGER', nullable: true },
+    },
+    required: ['name'],
+  },
+};
+
+const FAKE_RECEIPT: ReceiptLine[] = [
+  { name: 'Fresh milk', quantity: 2, unit: 'l', shelf_life_days: 7 },
+  { name: 'Chicken breast', quantity: 0.5, unit: 'kg', shelf_life_days: 2 },
+  { name: 'Bananas', quantity: 6, unit: 'pcs', shelf_life_days: 5 },
+  { name: 'Greek yogurt', quantity: 4, unit: 'cups', shelf_life_days: 14 },
+  { name: 'Jasmine rice', quantity: 5, unit: 'kg', shelf_life_days: 365 },
+  { name: 'Soy sauce', quantity: 1, unit: 'bottle', shelf_life_days: null },
+  { name: 'Bananas', quantity: 4, unit: 'pcs', shelf_life_days: 4 },
+  { name: 'Plastic bag', quantity: 1, unit: 'pcs', shelf_life_days: null },
+  { name: 'VAT 8%', quantity: null, unit: null, shelf_life_days: null },
+  { name: 'TOTAL', quantity: null, unit: null, shelf_life_days: null },
+];
+
+const registry = new Map<string, VisionProviderFactory>();
+
+/** Registers (or replaces) a vision provider under `name`. */
+export function registerVisionProvider(name: string, factory: VisionProviderFactory): void {
+  registry.set(name, factory);
+}
+
+/** The configured provider for the user, or a message explaining why none is available. */
+export async function visionProviderFor(supabase: SupabaseClient, userId: string): Promise<VisionProvider | string> {
+  const name = Deno.env.get('RECEIPT_VISION_PROVIDER') || DEFAULT_PROVIDER;
+  const factory = registry.get(name);
+  if (!factory) throw new Error(`Unknown RECEIPT_VISION_PROVIDER: ${name}`);
+  return await factory(supabase, userId);
+}
+
+function toBase64(bytes: Uint8Array): string {
+  // Chunked so large photos do not overflow the argument list of fromCharCode
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function positiveNumber(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : null;
+}
+
+// Keeps the well-formed entries of a provider's answer
+function toReceiptLines(value: unknown): ReceiptLine[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((entry): ReceiptLine[] => {
+    const name = typeof entry?.name === 'string' ? entry.name.trim() : '';
+    if (!name) return [];
+
+    const shelfLife = positiveNumber(entry.shelf_life_days);
+    return [{
+      name,
+      quantity: positiveNumber(entry.quantity),
+      unit: typeof entry.unit === 'string' && entry.unit.trim() ? entry.unit.trim() : null,
+      shelf_life_days: shelfLife ? Math.min(Math.round(shelfLife), MAX_SHELF_LIFE_DAYS) : null,
+    }];
+  });
+}
+
+function geminiProvider(apiKey: string): VisionProvider {
+  return {
+    name: 'gemini',
+    async extractReceiptLines(image: ReceiptImage): Promise<ReceiptLine[]> {
+      const response = await fetch(
+        `https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_MODEL}:generateContent`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+          body: JSON.stringify({
+            contents: [{
+              parts: [
+                { text: GEMINI_PROMPT },
+                { inline_data: { mime_type: image.mimeType, data: toBase64(image.data) } },
+              ],
+            }],
+            generationConfig: {
+              temperature: 0,
+              responseMimeType: 'application/json',
+              responseSchema: GEMINI_RESPONSE_SCHEMA,
+            },
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        await response.body?.cancel();
+        throw new Error(`Gemini request failed with status ${response.status}`);
+      }
+
+      const result = await response.json();
+      const text = result?.candidates?.[0]?.content?.parts?.[0]?.text;
+      if (typeof text !== 'string') return [];
+
+      try {
+        return toReceiptLines(JSON.parse(text));
+      } catch (_) {
+        throw new Error('Gemini returned a receipt that is not valid JSON');
+      }
+    },
+  };
+}
+
+registerVisionProvider('gemini', async (supabase, userId) => {
+  const apiKey = await loadGeminiApiKey(supabase, userId);
+  return apiKey ? geminiProvider(apiKey) : 'Reading receipts needs your Gemini API key. Save it with /setkey first.';
+});
+
+/** The offline provider, which needs neither a user nor a client; tests use it directly. */
+export function fakeVisionProvider(): VisionProvider {
+  return {
+    name: 'fake',
+    extractReceiptLines: () => Promise.resolve(FAKE_RECEIPT.map(line => ({ ...line }))),
+  };
+}
+
+registerVisionProvider('fake', () => Promise.resolve(fakeVisionProvider()));
@@ -0,0 +1,278 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { addDays } from './dates.ts';
+import { mentions } from './item-normalizer.ts';
+import { UserScope } from './user-auth.ts';
+
+// Typical shelf lives of groceries, used to suggest an expiration date for items that have
+// none printed (fresh produce, meat from the counter, receipts). An estimate is looked up in
+// this order, the first match winning:
+//   1. the household's override for a product named in the item (shelf_life_overrides)
+//   2. the built-in rule for that product
+//   3. the household's override for the item's category
+//   4. the built-in rule for the category, then a default per storage kind
+// Households are groups; users outside any group keep personal overrides. Every lookup is
+// for a storage kind, by default where the product or category is usually kept.
+
+export type StorageKind = 'pantry' | 'fridge' | 'freezer';
+
+export const STORAGE_KINDS: StorageKind[] = ['pantry', 'fridge', 'freezer'];
+
+export interface ShelfLifeInput {
+  name: string;
+  category: string;
+  storage?: StorageKind | null;
+}
+
+export interface ShelfLifeEstimate {
+  days: number;
+  storage: StorageKind;
+  source: 'household' | 'product' | 'category' | 'default';
+  matched: string | null;        // Product or category the estimate came from
+}
+
+export interface ShelfLifeOverride {
+  id: string;
+  group_id: string | null;       // Household override
+  user_id: string | null;        // Personal override of a user outside any group
+  product: string | null;        // Lower-case product name; exactly one of product/category is set
+  category: string | null;
+  storage: StorageKind | null;   // Null applies to every storage kind
+  days: number;
+}
+
+export interface ShelfLifeOverrideInput {
+  product?: string | null;
+  category?: string | null;
+  storage?: StorageKind | null;
+  days: number;
+}
+
+type Lifetimes = Partial<Record<StorageKind, number>>;
+
+interface ProductRule {
+  product: string;
+  aliases: string[];
+  storage: StorageKind;          // Where it is usually kept
+  days: Lifetimes;
+}
+
+const MAX_OVERRIDE_DAYS = 3650;
+const OVERRIDE_COLUMNS = 'id, group_id, user_id, product, category, storage, days';
+
+// Longer aliases win, so "ice cream" is not read as "cream" and "thịt xay" not as "thịt"
+const PRODUCT_RULES: ProductRule[] = [
+  { product: 'milk', aliases: ['milk', 'sữa tươi', 'sữa'], storage: 'fridge', days: { fridge: 7, freezer: 90 } },
+  { product: 'yogurt', aliases: ['yogurt', 'yoghurt', 'sữa chua'], storage: 'fridge', days: { fridge: 14, freezer: 60 } },
+  { product: 'cheese', aliases: ['cheese', 'phô mai'], storage: 'fridge', days: { fridge: 21, freezer: 180 } },
+  { product: 'butter', aliases: ['butter'], storage: 'fridge', days: { fridge: 30, freezer: 270 } },
+  { product: 'cream', aliases: ['cream', 'whipping cream'], storage: 'fridge', days: { fridge: 7, freezer: 90 } },
+  { product: 'ice cream', aliases: ['ice cream', 'kem'], storage: 'freezer', days: { freezer: 60, fridge: 1 } },
+  { product: 'eggs', aliases: ['egg', 'eggs', 'trứng'], storage: 'fridge', days: { fridge: 28, pantry: 14 } },
+  { product: 'chicken', aliases: ['chicken', 'gà', 'thịt gà'], storage: 'fridge', days: { fridge: 2, freezer: 270 } },
+  { product: 'beef', aliases: ['beef', 'steak', 'bò', 'thịt bò'], storage: 'fridge', days: { fridge: 3, freezer: 180 } },
+  { product: 'pork', aliases: ['pork', 'heo', 'lợn', 'thịt heo', 'thịt lợn'], storage: 'fridge', days: { fridge: 3, freezer: 180 } },
+  { product: 'minced meat', aliases: ['ground beef', 'ground pork', 'minced meat', 'mince', 'thịt xay', 'thịt băm'], storage: 'fridge', days: { fridge: 2, freezer: 120 } },
+  { product: 'fish', aliases: ['fish', 'salmon', 'tuna', 'cá', 'cá hồi'], storage: 'fridge', days: { fridge: 2, freezer: 180 } },
+  { product: 'seafood', aliases: ['shrimp', 'prawn', 'prawns', 'squid', 'tôm', 'mực'], storage: 'fridge', days: { fridge: 2, freezer: 180 } },
+  { product: 'cured meat', aliases: ['sausage', 'sausages', 'ham', 'bacon', 'xúc xích', 'giăm bông', 'chả lụa'], storage: 'fridge', days: { fridge: 7, freezer: 60 } },
+  { product: 'tofu', aliases: ['tofu', 'đậu phụ', 'đậu hũ'], storage: 'fridge', days: { fridge: 5, freezer: 90 } },
+  { product: 'bread', aliases: ['bread', 'baguette', 'bánh mì'], storage: 'pantry', days: { pantry: 4, fridge: 7, freezer: 90 } },
+  { product: 'fresh noodles', aliases: ['bún', 'bánh phở', 'fresh noodles'], storage: 'fridge', days: { fridge: 2, pantry: 1 } },
+  { product: 'rice', aliases: ['rice', 'gạo'], storage: 'pantry', days: { pantry: 365 } },
+  { product: 'dry pasta', aliases: ['pasta', 'spaghetti', 'macaroni', 'noodles', 'mì gói', 'mì tôm'], storage: 'pantry', days: { pantry: 365 } },
+  { product: 'flour', aliases: ['flour', 'bột mì'], storage: 'pantry', days: { pantry: 180 } },
+  { product: 'bananas', aliases: ['banana', 'bananas', 'chuối'], storage: 'pantry', days: { pantry: 5 } },
+  { product: 'apples', aliases: ['apple', 'apples', 'táo'], storage: 'fridge', days: { fridge: 30, pantry: 7 } },
+  { product: 'citrus', aliases: ['orange', 'oranges', 'lemon', 'lemons', 'lime', 'limes', 'cam', 'chanh', 'quýt'], storage: 'fridge', days: { fridge: 21, pantry: 7 } },
+  { product: 'berries', aliases: ['strawberry', 'strawberries', 'berries', 'blueberries', 'raspberries', 'dâu'], storage: 'fridge', days: { fridge: 4, freezer: 240 } },
+  { product: 'grapes', aliases: ['grape', 'grapes', 'nho'], storage: 'fridge', days: { fridge: 10 } },
+  { product: 'mango', aliases: ['mango', 'mangoes', 'xoài'], storage: 'pantry', days: { pantry: 5, fridge: 7, freezer: 240 } },
+  { product: 'leafy greens', aliases: ['lettuce', 'spinach', 'salad', 'kale', 'rau', 'rau muống', 'cải'], storage: 'fridge', days: { fridge: 5 } },
+  { product: 'herbs', aliases: ['herbs', 'basil', 'cilantro', 'coriander', 'scallion', 'scallions', 'hành lá', 'rau thơm', 'ngò'], storage: 'fridge', days: { fridge: 7 } },
+  { product: 'tomatoes', aliases: ['tomato', 'tomatoes', 'cà chua'], storage: 'pantry', days: { pantry: 5, fridge: 10 } },
+  { product: 'carrots', aliases: ['carrot', 'carrots', 'cà rốt'], storage: 'fridge', days: { fridge: 21 } },
+  { product: 'potatoes', aliases: ['potato', 'potatoes', 'khoai tây', 'khoai lang'], storage: 'pantry', days: { pantry: 30 } },
+  { product: 'onions', aliases: ['onion', 'onions', 'hành tây', 'hành tím'], storage: 'pantry', days: { pantry: 30, fridge: 60 } },
+  { product: 'garlic', aliases: ['garlic', 'tỏi'], storage: 'pantry', days: { pantry: 90 } },
+  { product: 'juice', aliases: ['juice', 'nước ép'], storage: 'fridge', days: { fridge: 7, freezer: 240 } },
+  { product: 'cooked food', aliases: ['leftovers', 'cooked', 'cơm', 'thức ăn thừa', 'đồ ăn thừa'], storage: 'fridge', days: { fridge: 3, freezer: 90 } },
+  { product: 'condiments', aliases: ['sauce', 'ketchup', 'mayonnaise', 'soy sauce', 'fish sauce', 'nước mắm', 'nước tương', 'tương'], storage: 'pantry', days: { pantry: 365, fridge: 180 } },
+  { product: 'cooking staples', aliases: ['oil', 'sugar', 'salt', 'vinegar', 'dầu ăn', 'đường', 'muối', 'giấm'], storage: 'pantry', days: { pantry: 365 } },
+  { product: 'canned food', aliases: ['canned', 'tinned', 'đồ hộp'], storage: 'pantry', days: { pantry: 730 } },
+  { product: 'coffee and tea', aliases: ['coffee', 'tea', 'cà phê', 'trà'], storage: 'pantry', days: { pantry: 180 } },
+];
+
+// Built-in lifetimes of the default categories seeded by seed_default_categories_units()
+const CATEGORY_RULES: Record<string, { storage: StorageKind; days: Lifetimes }> = {
+  meat: { storage: 'fridge', days: { fridge: 3, freezer: 180, pantry: 1 } },
+  dairy: { storage: 'fridge', days: { fridge: 7, freezer: 60, pantry: 1 } },
+  vegetables: { storage: 'fridge', days: { fridge: 7, freezer: 240, pantry: 3 } },
+  fruits: { storage: 'pantry', days: { pantry: 5, fridge: 10, freezer: 240 } },
+  grains: { storage: 'pantry', days: { pantry: 180, fridge: 180, freezer: 365 } },
+  beverages: { storage: 'pantry', days: { pantry: 180, fridge: 14, freezer: 180 } },
+  snacks: { storage: 'pantry', days: { pantry: 60, fridge: 60, freezer: 180 } },
+  frozen: { storage: 'freezer', days: { freezer: 90, fridge: 2, pantry: 1 } },
+  pantry: { storage: 'pantry', days: { pantry: 365, fridge: 365, freezer: 365 } },
+};
+
+const DEFAULT_STORAGE: StorageKind = 'fridge';
+const DEFAULT_DAYS: Record<StorageKind, number> = { pantry: 14, fridge: 7, freezer: 90 };
+
+function findProductRule(name: string): { rule: ProductRule; alias: string } | null {
+  let best: { rule: ProductRule; alias: string } | null = null;
+  for (const rule of PRODUCT_RULES) {
+    for (const alias of rule.aliases) {
+      if ((!best || alias.length > best.alias.length) && mentions(name, alias)) best = { rule, alias };
+    }
+  }
+  return best;
+}
+
+// Personal overrides beat household ones, storage-specific beat catch-all, longer products beat shorter
+function overrideRank(override: ShelfLifeOverride): number {
+  return (override.user_id ? 1000 : 0) + (override.storage ? 500 : 0) + (override.product?.length || 0);
+}
+
+function findOverride(
+  overrides: ShelfLifeOverride[],
+  storage: StorageKind,
+  matches: (override: ShelfLifeOverride) => boolean
+): ShelfLifeOverride | null {
+  return overrides
+    .filter(override => (!override.storage || override.storage === storage) && matches(override))
+    .sort((a, b) => overrideRank(b) - overrideRank(a))[0] || null;
+}
+
+/** Typical shelf life of an item, from the household's overrides and the built-in rules. */
+export function estimateShelfLife(input: ShelfLifeInput, overrides: ShelfLifeOverride[] = []): ShelfLifeEstimate {
+  const name = input.name.toLowerCase();
+  const product = findProductRule(name);
+  const categoryRule = CATEGORY_RULES[input.category];
+  const storage = input.storage || product?.rule.storage || categoryRule?.storage || DEFAULT_STORAGE;
+
+  const productOverride = findOverride(overrides, storage, o => !!o.product && mentions(name, o.product));
+  if (productOverride) {
+    return { days: productOverride.days, storage, source: 'household', matched: productOverride.product };
+  }
+
+  const productDays = product?.rule.days[storage];
+  if (product && productDays) {
+    return { days: productDays, storage, source: 'product', matched: product.rule.product };
+  }
+
+  const categoryOverride = findOverride(overrides, storage, o => o.category === input.category);
+  if (categoryOverride) {
+    return { days: categoryOverride.days, storage, source: 'household', matched: categoryOverride.category };
+  }
+
+  const categoryDays = categoryRule?.days[storage];
+  if (categoryDays) {
+    return { days: categoryDays, storage, source: 'category', matched: input.category };
+  }
+
+  return { days: DEFAULT_DAYS[storage], storage, source: 'default', matched: null };
+}
+
+/** Estimated expiration date (yyyy-mm-dd) for an item bought `today`, with the estimate behind it. */
+export function estimateExpirationDate(
+  input: ShelfLifeInput,
+  today: string,
+  overrides: ShelfLifeOverride[] = []
+): { expiration_date: string; estimate: ShelfLifeEstimate } {
+  const estimate = estimateShelfLife(input, overrides);
+  return { expiration_date: addDays(today, estimate.days), estimate };
+}
+
+/** Overrides that apply to the user: their households' and their personal ones. */
+export async function loadShelfLifeOverrides(
+  supabase: SupabaseClient,
+  scope: Pick<UserScope, 'userId' | 'groupIds'>
+): Promise<ShelfLifeOverride[]> {
+  const owners = [`user_id.eq.${scope.userId}`];
+  if (scope.groupIds.length > 0) owners.push(`group_id.in.(${scope.groupIds.join(',')})`);
+
+  const { data, error } = await supabase
+    .from('shelf_life_overrides')
+    .select(OVERRIDE_COLUMNS)
+    .or(owners.join(','));
+
+  if (error) throw error;
+  return (data || []) as ShelfLifeOverride[];
+}
+
+/**
+ * Which household an override of the user belongs to: the given group (one of theirs), their
+ * only group, or themselves when they are in none. Returns an error message otherwise.
+ */
+export function resolveOverrideOwner(
+  scope: Pick<UserScope, 'userId' | 'groupIds'>,
+  groupId?: string | null
+): { group_id: string | null; user_id: string | null } | string {
+  if (groupId) {
+    return scope.groupIds.includes(groupId) ? { group_id: groupId, user_id: null } : 'You are not a member of this group.';
+  }
+  if (scope.groupIds.length === 0) return { group_id: null, user_id: scope.userId };
+  if (scope.groupIds.length === 1) return { group_id: scope.groupIds[0], user_id: null };
+  return 'You belong to several groups; choose the group the override is for.';
+}
+
+/** Checks an override and normalizes its product name; returns an error message when invalid. */
+export function validateShelfLifeOverride(input: ShelfLifeOverrideInput): ShelfLifeOverrideInput | string {
+  const product = input.product?.trim().toLowerCase() || null;
+  const category = input.category?.trim() || null;
+
+  if (!product === !category) return 'Give either a product or a category.';
+  if (input.storage && !STORAGE_KINDS.includes(input.storage)) {
+    return `storage must be one of: ${STORAGE_KINDS.join(', ')}.`;
+  }
+  if (!Number.isInteger(input.days) || input.days < 1 || input.days > MAX_OVERRIDE_DAYS) {
+    return `days must be a whole number from 1 to ${MAX_OVERRIDE_DAYS}.`;
+  }
+
+  return { product, category, storage: input.storage || null, days: input.days };
+}
+
+/** Creates or replaces the household's override for a product or category (and storage kind). */
+export async function saveShelfLifeOverride(
+  supabase: SupabaseClient,
+  owner: { group_id: string | null; user_id: string | null },
+  override: ShelfLifeOverrideInput,
+  createdBy: string
+): Promise<ShelfLifeOverride> {
+  let existing = supabase
+    .from('shelf_life_overrides')
+    .select('id');
+
+  existing = owner.group_id ? existing.eq('group_id', owner.group_id) : existing.eq('user_id', owner.user_id);
+  existing = override.product ? existing.eq('product', override.product) : existing.eq('category', override.category);
+  existing = override.storage ? existing.eq('storage', override.storage) : existing.is('storage', null);
+
+  const { data: current, error: findError } = await existing.maybeSingle();
+  if (findError) throw findError;
+
+  const row = { ...owner, ...override, created_by: createdBy, updated_at: new Date().toISOString() };
+  const { data, error } = current
+    ? await supabase.from('shelf_life_overrides').update(row).eq('id', current.id).select(OVERRIDE_COLUMNS).single()
+    : await supabase.from('shelf_life_overrides').insert(row).select(OVERRIDE_COLUMNS).single();
+
+  if (error) throw error;
+  return data as ShelfLifeOverride;
+}
+
+/** Deletes an override the user may manage; returns false when there was none. */
+export async function deleteShelfLifeOverride(
+  supabase: SupabaseClient,
+  scope: Pick<UserScope, 'userId' | 'groupIds'>,
+  overrideId: string
+): Promise<boolean> {
+  const owned = (await loadShelfLifeOverrides(supabase, scope)).some(override => override.id === overrideId);
+  if (!owned) return false;
+
+  const { error } = await supabase
+    .from('shelf_life_overrides')
+    .delete()
+    .eq('id', overrideId);
+
+  if (error) throw error;
+  return true;
+}
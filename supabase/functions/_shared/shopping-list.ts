@@ -0,0 +1,382 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { DateRange } from './dates.ts';
+import { loadUserLists, mentions, resolveCategory, UNIT_ALIASES } from './item-normalizer.ts';
+import { convertAmount, densityFor, isKnownUnit, loadUnitContext, normalizeUnitWord, UnitContext } from './units.ts';
+import { UserScope } from './user-auth.ts';
+
+// Shopping lists from the household's meal plans. The ingredients of every planned recipe in a
+// date range are scaled by the meal's servings, and what the household's active food items
+// cover is taken off, meal by meal in date order: an item only counts for meals on or before
+// its expiration date, and once counted for one meal it is no longer there for the next.
+// The shortfall is merged per ingredient and written to shopping_items with source
+// 'meal-plan'. Each row remembers the meal plans it counts (meal_plan_ids): meals already
+// counted by a row for the ingredient, open or ticked off, are not counted again, and the
+// shortfall of new meals is added to the open row instead of starting another. Generating
+// for week 1 and then week 2 adds up; generating an overlapping range again changes nothing.
+
+export interface Ingredient {
+  name: string;
+  quantity: number;
+  unit: string;
+}
+
+export interface ShoppingItem {
+  id: string;
+  user_id: string;
+  name: string;
+  quantity: number;
+  unit: string;
+  category: string;
+  completed: boolean;
+  source: 'manual' | 'meal-plan' | 'inventory';
+  meal_plan_ids: string[]; // Meals whose shortfall the quantity includes ('meal-plan' rows)
+}
+
+export interface ShoppingNeed {
+  name: string;
+  unit: string;
+  needed: number;        // For all planned meals in the range
+  missing: number;       // What the inventory does not cover
+  meal_plan_ids: string[];
+}
+
+// A need with the shortfall of each meal, in the need's unit
+interface NeedTally extends ShoppingNeed {
+  shares: Map<string, number>;
+}
+
+export interface GeneratedShoppingList {
+  meals: number;
+  needs: ShoppingNeed[];
+  items: ShoppingItem[]; // Rows created or updated
+  created: number;
+  updated: number;
+}
+
+interface PlannedMeal {
+  id: string;
+  date: string;
+  meal_type: string;
+  servings: number | null;
+  recipe: { name: string; ingredients: string[]; servings: number } | null;
+}
+
+interface StockItem {
+  name: string;
+  unit: string;
+  left: number;
+  expiration_date: string | null;
+  density: number | null;
+}
+
+export const MAX_PLAN_DAYS = 31;
+
+const MEAL_ORDER = ['breakfast', 'lunch', 'dinner'];
+const DEFAULT_UNIT = 'pieces';
+const SHOPPING_COLUMNS = 'id, user_id, name, quantity, unit, category, completed, source, meal_plan_ids';
+
+// Lists are rounded up to two decimals, so the shortfall is never under-bought
+const PRECISION = 100;
+// Anything below this is covered (floating-point leftovers of the conversions)
+const EPSILON = 1e-6;
+
+// "2", "1.5", "1,5", "1/2" or "1 1/2" at the start of an ingredient line
+const QUANTITY_PATTERN = /^(\d+(?:[.,]\d+)?)(?:\/(\d+)|\s+(\d+)\/(\d+))?\s*/u;
+
+function roundUp(quantity: number): number {
+  return Math.ceil(Number((quantity * PRECISION).toFixed(6))) / PRECISION;
+}
+
+/**
+ * Reads a recipe ingredient line such as "200 g chicken breast, diced" or "1 1/2 cups of milk".
+ * The first word is a unit only when it is one the context knows; a line without a quantity
+ * ("salt") is one piece, so it still reaches the list when there is none in stock.
+ */
+export function parseIngredient(line: string, context: UnitContext): Ingredient | null {
+  // Notes after a comma ("diced") or in parentheses are dropped; "1,5" is a decimal comma
+  const text = line.replace(/\([^)]*\)/g, ' ').split(/,(?!\d)/)[0].trim();
+  if (!text) return null;
+
+  const match = QUANTITY_PATTERN.exec(text);
+  let quantity = 1;
+  let rest = text;
+  if (match) {
+    const whole = Number(match[1].replace(',', '.'));
+    quantity = match[2] ? whole / Number(match[2])
+      : match[3] ? whole + Number(match[3]) / Number(match[4])
+      : whole;
+    rest = text.slice(match[0].length);
+  }
+
+  const words = rest.split(/\s+/).filter(Boolean);
+  let unit = DEFAULT_UNIT;
+  if (match && words.length > 1 && (isKnownUnit(words[0], context) || words[0].toLowerCase() in UNIT_ALIASES)) {
+    unit = normalizeUnitWord(words.shift()!, context.units);
+  }
+  if (words.length > 1 && words[0].toLowerCase() === 'of') words.shift();
+
+  const name = words.join(' ');
+  if (!name || !Number.isFinite(quantity) || quantity <= 0) return null;
+  return { name, quantity, unit };
+}
+
+// Lower case with English plurals dropped, so "eggs" in stock covers "1 egg" and both merge
+function singular(name: string): string {
+  return name.toLowerCase().split(/\s+/).map(word =>
+    word.length <= 3 || word.endsWith('ss') ? word
+      : word.endsWith('ies') ? `${word.slice(0, -3)}y`
+      : /(?:oes|ches|shes|xes)$/.test(word) ? word.slice(0, -2)
+      : word.endsWith('s') ? word.slice(0, -1)
+      : word
+  ).join(' ');
+}
+
+// Whether a food item can stand in for an ingredient: either name mentions the other
+function coversIngredient(itemName: string, ingredientName: string): boolean {
+  const item = singular(itemName);
+  const ingredient = singular(ingredientName);
+  return mentions(item, ingredient) || mentions(ingredient, item);
+}
+
+// Takes what the stock holds of the ingredient for a meal on `date`; returns what is still missing
+function takeFromStock(ingredient: Ingredient, date: string, stock: StockItem[], context: UnitContext): number {
+  let missing = ingredient.quantity;
+
+  for (const item of stock) {
+    if (missing <= EPSILON) break;
+    if (item.left <= 0 || (item.expiration_date && item.expiration_date < date)) continue;
+    if (!coversIngredient(item.name, ingredient.name)) continue;
+
+    // The missing amount in the item's unit; items in units that cannot be related do not count
+    const wanted = convertAmount({ quantity: missing, unit: ingredient.unit }, item.unit, context, densityFor(item.name, item.density));
+    if (typeof wanted === 'string' || wanted <= 0) continue;
+
+    const taken = Math.min(item.left, wanted);
+    item.left -= taken;
+    missing -= missing * (taken / wanted);
+  }
+
+  return Math.max(missing, 0);
+}
+
+// Adds a meal's amount to the need for the same ingredient in a unit it converts to, or starts a new one
+function addNeed(needs: NeedTally[], mealId: string, ingredient: Ingredient, missing: number, context: UnitContext) {
+  const density = densityFor(ingredient.name);
+  for (const need of needs) {
+    if (singular(need.name) !== singular(ingredient.name)) continue;
+
+    const factor = convertAmount({ quantity: 1, unit: ingredient.unit }, need.unit, context, density);
+    if (typeof factor === 'string') continue;
+
+    need.needed += ingredient.quantity * factor;
+    need.missing += missing * factor;
+    need.shares.set(mealId, (need.shares.get(mealId) || 0) + missing * factor);
+    return;
+  }
+
+  needs.push({
+    name: ingredient.name,
+    unit: ingredient.unit,
+    needed: ingredient.quantity,
+    missing,
+    meal_plan_ids: [],
+    shares: new Map([[mealId, missing]]),
+  });
+}
+
+function toShoppingItem(row: ShoppingItem): ShoppingItem {
+  return { ...row, quantity: Number(row.quantity), completed: !!row.completed, meal_plan_ids: row.meal_plan_ids || [] };
+}
+
+/** The household's open and ticked-off shopping items, open ones first. */
+export async function loadShoppingList(supabase: SupabaseClient, userIds: string[]): Promise<ShoppingItem[]> {
+  const { data, error } = await supabase
+    .from('shopping_items')
+    .select(SHOPPING_COLUMNS)
+    .in('user_id', userIds)
+    .order('completed', { ascending: true })
+    .order('category', { ascending: true })
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return ((data || []) as ShoppingItem[]).map(toShoppingItem);
+}
+
+/**
+ * Ticks a shopping item off, or puts it back when `completed` is omitted and it was ticked.
+ * Returns null when there is no such item in the household.
+ */
+export async function setShoppingItemCompleted(
+  supabase: SupabaseClient,
+  itemId: string,
+  userIds: string[],
+  completed?: boolean
+): Promise<ShoppingItem | null> {
+  const { data: item, error: findError } = await supabase
+    .from('shopping_items')
+    .select('id, completed')
+    .eq('id', itemId)
+    .in('user_id', userIds)
+    .maybeSingle();
+
+  if (findError) throw findError;
+  if (!item) return null;
+
+  const { data, error } = await supabase
+    .from('shopping_items')
+    .update({ completed: completed ?? !item.completed, updated_at: new Date().toISOString() })
+    .eq('id', itemId)
+    .select(SHOPPING_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return toShoppingItem(data as ShoppingItem);
+}
+
+/** Deletes the household's ticked-off items; returns how many there were. */
+export async function clearCompletedShoppingItems(supabase: SupabaseClient, userIds: string[]): Promise<number> {
+  const { data, error } = await supabase
+    .from('shopping_items')
+    .delete()
+    .in('user_id', userIds)
+    .eq('completed', true)
+    .select('id');
+
+  if (error) throw error;
+  return (data || []).length;
+}
+
+/**
+ * Expands the household's meal plans between `range.start` and `range.end` (inclusive) into
+ * ingredients, takes off what the inventory covers and adds the shortfall of meals not yet on
+ * the household's list to the caller's shopping list.
+ */
+export async function generateShoppingList(
+  supabase: SupabaseClient,
+  scope: UserScope,
+  range: DateRange
+): Promise<GeneratedShoppingList> {
+  const [plansResult, stockResult, context] = await Promise.all([
+    supabase
+      .from('meal_plans')
+      .select('id, date, meal_type, servings, recipe:recipes(name, ingredients, servings)')
+      .in('user_id', scope.userIds)
+      .gte('date', range.start)
+      .lte('date', range.end)
+      .not('recipe_id', 'is', null),
+    supabase
+      .from('food_items')
+      .select('name, quantity, unit, expiration_date, density')
+      .in('user_id', scope.userIds)
+      .eq('status', 'active')
+      .gt('quantity', 0)
+      .order('expiration_date', { ascending: true, nullsFirst: false }),
+    loadUnitContext(supabase, scope.userIds),
+  ]);
+
+  if (plansResult.error) throw plansResult.error;
+  if (stockResult.error) throw stockResult.error;
+
+  const meals = ((plansResult.data || []) as unknown as PlannedMeal[])
+    .filter(meal => meal.recipe)
+    .sort((a, b) => a.date.localeCompare(b.date) || MEAL_ORDER.indexOf(a.meal_type) - MEAL_ORDER.indexOf(b.meal_type));
+
+  // Items expiring first are used first
+  const stock: StockItem[] = ((stockResult.data || []) as { name: string; quantity: number; unit: string; expiration_date: string | null; density: number | null }[])
+    .map(item => ({ name: item.name, unit: item.unit, left: Number(item.quantity), expiration_date: item.expiration_date, density: item.density }));
+
+  const needs: NeedTally[] = [];
+  for (const meal of meals) {
+    const recipe = meal.recipe!;
+    const scale = meal.servings && recipe.servings > 0 ? meal.servings / recipe.servings : 1;
+
+    for (const line of recipe.ingredients || []) {
+      const parsed = parseIngredient(line, context);
+      if (!parsed) continue;
+
+      const ingredient = { ...parsed, quantity: parsed.quantity * scale };
+      addNeed(needs, meal.id, ingredient, takeFromStock(ingredient, meal.date, stock, context), context);
+    }
+  }
+
+  const result: GeneratedShoppingList = {
+    meals: meals.length,
+    needs: needs.map(({ shares, ...need }) => ({
+      ...need,
+      needed: roundUp(need.needed),
+      missing: need.missing > EPSILON ? roundUp(need.missing) : 0,
+      meal_plan_ids: [...shares.keys()],
+    })),
+    items: [],
+    created: 0,
+    updated: 0,
+  };
+  if (!needs.some(need => need.missing > EPSILON)) return result;
+
+  // Ticked-off rows count too: a meal whose ingredients were bought is not added again
+  const [rowsResult, lists] = await Promise.all([
+    supabase
+      .from('shopping_items')
+      .select(SHOPPING_COLUMNS)
+      .in('user_id', scope.userIds)
+      .eq('source', 'meal-plan'),
+    loadUserLists(supabase, scope.userId),
+  ]);
+
+  if (rowsResult.error) throw rowsResult.error;
+  const rows = ((rowsResult.data || []) as ShoppingItem[]).map(toShoppingItem);
+
+  for (const need of needs) {
+    const sameIngredient = rows.filter(row => singular(row.name) === singular(need.name));
+    const counted = new Set(sameIngredient.flatMap(row => row.meal_plan_ids));
+    const newMeals = [...need.shares.keys()].filter(mealId => !counted.has(mealId));
+    const missing = newMeals.reduce((sum, mealId) => sum + need.shares.get(mealId)!, 0);
+    if (missing <= EPSILON) continue;
+
+    // The open row for the ingredient takes the new meals' shortfall on top, in its own unit
+    let current: ShoppingItem | null = null;
+    let quantity = roundUp(missing);
+    for (const row of sameIngredient) {
+      if (row.completed) continue;
+      const converted = convertAmount({ quantity: missing, unit: need.unit }, row.unit, context, densityFor(need.name));
+      if (typeof converted === 'string') continue;
+      current = row;
+      quantity = roundUp(row.quantity + converted);
+      break;
+    }
+
+    const now = new Date().toISOString();
+    const { data, error } = current
+      ? await supabase
+        .from('shopping_items')
+        .update({ quantity, meal_plan_ids: [...current.meal_plan_ids, ...newMeals], updated_at: now })
+        .eq('id', current.id)
+        .select(SHOPPING_COLUMNS)
+        .single()
+      : await supabase
+        .from('shopping_items')
+        .insert({
+          user_id: scope.userId,
+          name: need.name,
+          quantity,
+          unit: need.unit,
+          category: resolveCategory(need.name, lists.categories),
+          completed: false,
+          source: 'meal-plan',
+          meal_plan_ids: newMeals,
+        })
+        .select(SHOPPING_COLUMNS)
+        .single();
+
+    if (error) throw error;
+    const item = toShoppingItem(data as ShoppingItem);
+    result.items.push(item);
+    if (current) {
+      result.updated++;
+    } else {
+      result.created++;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,313 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { addDays, daysUntil, todayInTimezone } from './dates.ts';
+import { queueItemReference } from './item-types.ts';
+import { computeScheduledAt } from './notification-schedule.ts';
+import { getPriorityForDays, isWithinReminderHorizon, resolveThresholds } from './priority-thresholds.ts';
+import {
+  estimateShelfLife,
+  loadShelfLifeOverrides,
+  ShelfLifeEstimate,
+  STORAGE_KINDS,
+  StorageKind,
+} from './shelf-life.ts';
+import { loadUserScope, UserScope } from './user-auth.ts';
+import { loadNotificationPreferences } from './user-preferences.ts';
+
+// Per-household storage locations ("Kitchen fridge", "Garage freezer") and moving food items
+// between them. Locations belong to a group, or to a user who is in no group, like shelf-life
+// overrides. Each has a storage kind, so a move re-estimates the item's expiry with the
+// shelf-life rules of the new kind:
+//   - to a kind where it keeps longer (into the freezer): the later of its date and
+//     today + the new shelf life, as the cold stops the clock
+//   - to a kind where it keeps shorter (thawing): the earlier of the two
+// When the date changes, the item's pending reminders are replaced by one for the new date.
+
+export interface StorageLocation {
+  id: string;
+  group_id: string | null;
+  user_id: string | null;
+  name: string;
+  kind: StorageKind;
+}
+
+export interface StorageLocationInput {
+  name: string;
+  kind: StorageKind;
+}
+
+export interface MovedItem {
+  id: string;
+  user_id: string;
+  name: string;
+  location: StorageLocation;
+  expiration_date: string;
+  previous_expiration_date: string | null;
+  expiration_estimated: boolean;
+  estimate: ShelfLifeEstimate;     // Shelf life in the new location
+  requeued: boolean;               // A reminder was queued for the new date
+}
+
+const MAX_NAME_LENGTH = 40;
+const LOCATION_COLUMNS = 'id, group_id, user_id, name, kind';
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Created for a household the first time it needs a location
+const DEFAULT_LOCATIONS: StorageLocationInput[] = [
+  { name: 'Pantry', kind: 'pantry' },
+  { name: 'Fridge', kind: 'fridge' },
+  { name: 'Freezer', kind: 'freezer' },
+];
+
+function compareLocations(a: StorageLocation, b: StorageLocation): number {
+  return STORAGE_KINDS.indexOf(a.kind) - STORAGE_KINDS.indexOf(b.kind) ||
+    a.name.localeCompare(b.name) ||
+    a.id.localeCompare(b.id);
+}
+
+/** Locations of the user's households and their personal ones, by kind then name. */
+export async function loadStorageLocations(
+  supabase: SupabaseClient,
+  scope: Pick<UserScope, 'userId' | 'groupIds'>
+): Promise<StorageLocation[]> {
+  const owners = [`user_id.eq.${scope.userId}`];
+  if (scope.groupIds.length > 0) owners.push(`group_id.in.(${scope.groupIds.join(',')})`);
+
+  const { data, error } = await supabase
+    .from('storage_locations')
+    .select(LOCATION_COLUMNS)
+    .or(owners.join(','));
+
+  if (error) throw error;
+  return ((data || []) as StorageLocation[]).sort(compareLocations);
+}
+
+/**
+ * Which household a new location of the user belongs to: the given group (one of theirs),
+ * their only group, or themselves when they are in none. Returns an error message otherwise.
+ */
+export function resolveLocationOwner(
+  scope: Pick<UserScope, 'userId' | 'groupIds'>,
+  groupId?: string | null
+): { group_id: string | null; user_id: string | null } | string {
+  if (groupId) {
+    return scope.groupIds.includes(groupId) ? { group_id: groupId, user_id: null } : 'You are not a member of this group.';
+  }
+  if (scope.groupIds.length === 0) return { group_id: null, user_id: scope.userId };
+  if (scope.groupIds.length === 1) return { group_id: scope.groupIds[0], user_id: null };
+  return 'You belong to several groups; choose the group the location is for.';
+}
+
+/** Checks a location and trims its name; returns an error message when invalid. */
+export function validateStorageLocation(input: StorageLocationInput): StorageLocationInput | string {
+  const name = input.name?.trim().replace(/\s+/g, ' ') || '';
+  if (!name) return 'Give the location a name.';
+  if (name.length > MAX_NAME_LENGTH) return `Location names are at most ${MAX_NAME_LENGTH} characters.`;
+  if (!STORAGE_KINDS.includes(input.kind)) return `kind must be one of: ${STORAGE_KINDS.join(', ')}.`;
+  return { name, kind: input.kind };
+}
+
+/** Adds a location to the household; returns an error message when the name is taken. */
+export async function createStorageLocation(
+  supabase: SupabaseClient,
+  owner: { group_id: string | null; user_id: string | null },
+  location: StorageLocationInput,
+  createdBy: string
+): Promise<StorageLocation | string> {
+  const { data, error } = await supabase
+    .from('storage_locations')
+    .insert({ ...owner, ...location, created_by: createdBy })
+    .select(LOCATION_COLUMNS)
+    .single();
+
+  if (error?.code === '23505') return `There is already a location called "${location.name}".`;
+  if (error) throw error;
+  return data as StorageLocation;
+}
+
+/** Deletes a location the user may manage; its items keep no location. Returns false when there was none. */
+export async function deleteStorageLocation(
+  supabase: SupabaseClient,
+  scope: Pick<UserScope, 'userId' | 'groupIds'>,
+  locationId: string
+): Promise<boolean> {
+  const owned = (await loadStorageLocations(supabase, scope)).some(location => location.id === locationId);
+  if (!owned) return false;
+
+  const { error } = await supabase
+    .from('storage_locations')
+    .delete()
+    .eq('id', locationId);
+
+  if (error) throw error;
+  return true;
+}
+
+/**
+ * The user's locations, first creating a pantry, fridge and freezer for their household when
+ * it has none. Users in several groups without any location get none.
+ */
+export async function ensureStorageLocations(
+  supabase: SupabaseClient,
+  scope: Pick<UserScope, 'userId' | 'groupIds'>
+): Promise<StorageLocation[]> {
+  const locations = await loadStorageLocations(supabase, scope);
+  const owner = resolveLocationOwner(scope);
+  if (locations.length > 0 || typeof owner === 'string') return locations;
+
+  const { data, error } = await supabase
+    .from('storage_locations')
+    .insert(DEFAULT_LOCATIONS.map(location => ({ ...owner, ...location, created_by: scope.userId })))
+    .select(LOCATION_COLUMNS);
+
+  if (error) throw error;
+  return ((data || []) as StorageLocation[]).sort(compareLocations);
+}
+
+/** Locations whose ID or name (ignoring case) is `reference`. */
+export function findStorageLocations(locations: StorageLocation[], reference: string): StorageLocation[] {
+  const wanted = reference.trim().toLowerCase();
+  return locations.filter(location => location.id === wanted || location.name.toLowerCase() === wanted);
+}
+
+/**
+ * IDs of the locations named (or with the ID) `reference`: among the user's locations, or
+ * every household's when no scope is given (service role callers).
+ */
+export async function findStorageLocationIds(
+  supabase: SupabaseClient,
+  reference: string,
+  scope?: Pick<UserScope, 'userId' | 'groupIds'> | null
+): Promise<string[]> {
+  if (scope) {
+    return findStorageLocations(await loadStorageLocations(supabase, scope), reference).map(location => location.id);
+  }
+
+  const wanted = reference.trim();
+  let request = supabase.from('storage_locations').select('id');
+  request = UUID_PATTERN.test(wanted)
+    ? request.eq('id', wanted.toLowerCase())
+    : request.ilike('name', wanted.replace(/[\\%_]/g, '\\$&'));
+
+  const { data, error } = await request;
+  if (error) throw error;
+  return ((data || []) as { id: string }[]).map(row => row.id);
+}
+
+/**
+ * Moves a food item to `location`, re-estimating its expiry for the location's storage kind
+ * and rescheduling its pending reminders. `keepQueueId` is a queue row that must survive the
+ * rescheduling, e.g. the one whose notification the move was made from.
+ */
+export async function moveItemToLocation(
+  supabase: SupabaseClient,
+  itemId: string,
+  location: StorageLocation,
+  keepQueueId?: string
+): Promise<MovedItem> {
+  const { data: item, error: itemError } = await supabase
+    .from('food_items')
+    .select('id, user_id, name, quantity, unit, category, expiration_date, expiration_estimated, storage_location:storage_locations(kind)')
+    .eq('id', itemId)
+    .single();
+
+  if (itemError) throw itemError;
+
+  const [scope, preferences] = await Promise.all([
+    loadUserScope(supabase, item.user_id),
+    loadNotificationPreferences(supabase, [item.user_id]),
+  ]);
+  const ownerPreferences = preferences.get(item.user_id)!;
+  const overrides = await loadShelfLifeOverrides(supabase, scope);
+
+  const category = item.category || 'other';
+  const current = item.storage_location as unknown as { kind: StorageKind } | null;
+  const previous = estimateShelfLife({ name: item.name, category, storage: current?.kind }, overrides);
+  const estimate = estimateShelfLife({ name: item.name, category, storage: location.kind }, overrides);
+
+  const today = todayInTimezone(ownerPreferences.timezone);
+  const candidate = addDays(today, estimate.days);
+  const previousDate: string | null = item.expiration_date;
+  let expirationDate = previousDate || candidate;
+  if (previousDate && estimate.days > previous.days && candidate > previousDate) expirationDate = candidate;
+  if (previousDate && estimate.days < previous.days && candidate < previousDate) expirationDate = candidate;
+
+  const changed = expirationDate !== previousDate;
+  const estimated = changed || item.expiration_estimated === true;
+
+  const { error: updateError } = await supabase
+    .from('food_items')
+    .update({ location_id: location.id, expiration_date: expirationDate, expiration_estimated: estimated })
+    .eq('id', itemId);
+
+  if (updateError) throw updateError;
+
+  // Rows that stay (sent ones, the one acted on) describe the item as it is now
+  const { error: queueError } = await supabase
+    .from('expiring_items_queue')
+    .update({ location: location.name, expiration_date: expirationDate, expiration_estimated: estimated })
+    .eq('item_type', 'food')
+    .eq('item_id', itemId);
+
+  if (queueError) throw queueError;
+
+  let requeued = false;
+  if (changed) {
+    let pending = supabase
+      .from('expiring_items_queue')
+      .delete()
+      .eq('item_type', 'food')
+      .eq('item_id', itemId)
+      .eq('status', 'pending');
+    if (keepQueueId) pending = pending.neq('id', keepQueueId);
+
+    const { error: deleteError } = await pending;
+    if (deleteError) throw deleteError;
+
+    // Later days are queued by populate-expiring-queue as usual; queue the next reminder here,
+    // counting the days from when it is delivered
+    const scheduledAt = computeScheduledAt(ownerPreferences);
+    const days = daysUntil(expirationDate, ownerPreferences.timezone, scheduledAt);
+    const thresholds = resolveThresholds(ownerPreferences.thresholds, category);
+    const { data: user } = await supabase
+      .from('users')
+      .select('chat_id')
+      .eq('id', item.user_id)
+      .maybeSingle();
+
+    if (user?.chat_id && isWithinReminderHorizon(days, thresholds)) {
+      const { error: insertError } = await supabase
+        .from('expiring_items_queue')
+        .upsert([{
+          ...queueItemReference({ type: 'food', id: itemId }),
+          user_id: item.user_id,
+          chat_id: user.chat_id,
+          item_name: item.name,
+          quantity: item.quantity,
+          unit: item.unit || 'item',
+          expiration_date: expirationDate,
+          expiration_estimated: estimated,
+          location: location.name,
+          category,
+          days_until_expiry: days,
+          notification_priority: getPriorityForDays(days, thresholds),
+          scheduled_at: scheduledAt.toISOString(),
+          status: 'pending',
+        }], { onConflict: 'item_type,item_id,days_until_expiry', ignoreDuplicates: true });
+
+      if (insertError) throw insertError;
+      requeued = true;
+    }
+  }
+
+  return {
+    id: item.id,
+    user_id: item.user_id,
+    name: item.name,
+    location,
+    expiration_date: expirationDate,
+    previous_expiration_date: previousDate,
+    expiration_estimated: estimated,
+    estimate,
+    requeued,
+  };
+}
@@ -0,0 +1,221 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { mentions, UNIT_ALIASES } from './item-normalizer.ts';
+
+// Conversion between the free-form units items are recorded in. Every unit is reduced to a
+// dimension (mass, volume or count) and a factor in its base unit (grams, millilitres,
+// pieces), looked up in this order:
+//   1. the user's conversions for containers, e.g. "1 hộp = 180 ml" (unit_conversions), which
+//      may lead to another container for a few steps
+//   2. the dimension and base_factor of the user's own unit (units)
+//   3. the standard units below, for unit words missing from the user's table
+// Mass and volume convert into each other through a density in grams per millilitre: the
+// item's own (food_items.density) or a typical one for the product. Count units only convert
+// to mass or volume through a conversion ("1 pieces = 60 g" for eggs is rarely right for all).
+
+export type UnitDimension = 'mass' | 'volume' | 'count';
+
+export interface UnitRow {
+  name: string;
+  display_name: string;
+  dimension: UnitDimension | null;  // Null for containers without a fixed size
+  base_factor: number | null;       // Grams, millilitres or pieces in one of the unit
+}
+
+export interface UnitConversion {
+  id: string;
+  user_id: string;
+  unit: string;
+  quantity: number;                 // How many target_unit one unit is
+  target_unit: string;
+}
+
+export interface UnitContext {
+  units: UnitRow[];
+  conversions: UnitConversion[];    // Earlier conversions win
+}
+
+export interface Amount {
+  quantity: number;
+  unit: string;
+}
+
+interface Measure {
+  dimension: UnitDimension;
+  factor: number;
+}
+
+const STANDARD_UNITS: Record<string, Measure> = {
+  pieces: { dimension: 'count', factor: 1 },
+  g: { dimension: 'mass', factor: 1 },
+  kg: { dimension: 'mass', factor: 1000 },
+  lbs: { dimension: 'mass', factor: 453.59237 },
+  oz: { dimension: 'mass', factor: 28.349523 },
+  ml: { dimension: 'volume', factor: 1 },
+  liters: { dimension: 'volume', factor: 1000 },
+  cups: { dimension: 'volume', factor: 240 },
+  tbsp: { dimension: 'volume', factor: 15 },
+  tsp: { dimension: 'volume', factor: 5 },
+};
+
+// Typical densities in grams per millilitre; the longest matching alias wins
+const DENSITIES: { aliases: string[]; density: number }[] = [
+  { aliases: ['water', 'nước'], density: 1 },
+  { aliases: ['milk', 'sữa', 'sữa tươi'], density: 1.03 },
+  { aliases: ['yogurt', 'yoghurt', 'sữa chua'], density: 1.03 },
+  { aliases: ['cream', 'kem'], density: 1.0 },
+  { aliases: ['oil', 'olive oil', 'dầu', 'dầu ăn'], density: 0.92 },
+  { aliases: ['butter', 'bơ'], density: 0.91 },
+  { aliases: ['honey', 'mật ong'], density: 1.42 },
+  { aliases: ['fish sauce', 'nước mắm'], density: 1.2 },
+  { aliases: ['soy sauce', 'nước tương', 'xì dầu'], density: 1.2 },
+  { aliases: ['flour', 'bột', 'bột mì'], density: 0.53 },
+  { aliases: ['sugar', 'đường'], density: 0.85 },
+  { aliases: ['salt', 'muối'], density: 1.2 },
+  { aliases: ['rice', 'gạo'], density: 0.85 },
+];
+
+const MAX_CONVERSION_STEPS = 3;
+const CONVERSION_COLUMNS = 'id, user_id, unit, quantity, target_unit';
+
+/**
+ * Units and conversions of the given users, e.g. an item's owner and whoever is using it up.
+ * Units come from the first user; conversions of earlier users win over later ones.
+ */
+export async function loadUnitContext(supabase: SupabaseClient, userIds: string[]): Promise<UnitContext> {
+  const [unitsResult, conversionsResult] = await Promise.all([
+    supabase.from('units').select('name, display_name, dimension, base_factor').eq('user_id', userIds[0]),
+    supabase.from('unit_conversions').select(CONVERSION_COLUMNS).in('user_id', userIds),
+  ]);
+
+  if (unitsResult.error) throw unitsResult.error;
+  if (conversionsResult.error) throw conversionsResult.error;
+
+  const conversions = ((conversionsResult.data || []) as UnitConversion[])
+    .sort((a, b) => userIds.indexOf(a.user_id) - userIds.indexOf(b.user_id));
+  return { units: (unitsResult.data || []) as UnitRow[], conversions };
+}
+
+/** The unit name a typed word stands for: one of the user's units, a built-in alias, or the word itself. */
+export function normalizeUnitWord(word: string, units: UnitRow[]): string {
+  const lower = word.trim().toLowerCase();
+  const direct = units.find(unit => unit.name.toLowerCase() === lower || unit.display_name.toLowerCase() === lower);
+  if (direct) return direct.name;
+  return UNIT_ALIASES[lower] || lower;
+}
+
+function measureOf(unit: string, context: UnitContext, steps = 0): Measure | null {
+  const name = normalizeUnitWord(unit, context.units);
+
+  const conversion = context.conversions.find(c => normalizeUnitWord(c.unit, context.units) === name);
+  if (conversion && steps < MAX_CONVERSION_STEPS) {
+    const target = measureOf(conversion.target_unit, context, steps + 1);
+    if (target) return { dimension: target.dimension, factor: Number(conversion.quantity) * target.factor };
+  }
+
+  const row = context.units.find(u => u.name === name);
+  if (row?.dimension && row.base_factor) return { dimension: row.dimension, factor: Number(row.base_factor) };
+
+  return STANDARD_UNITS[name] || null;
+}
+
+/** Whether `word` is a unit the context can size (a conversion, a unit with a dimension, a standard unit). */
+export function isKnownUnit(word: string, context: UnitContext): boolean {
+  const name = normalizeUnitWord(word, context.units);
+  return measureOf(name, context) !== null || context.units.some(unit => unit.name === name);
+}
+
+/** Grams per millilitre of an item: its own density, else the typical one for the product, else null. */
+export function densityFor(itemName: string, override?: number | null): number | null {
+  if (override && override > 0) return Number(override);
+
+  const name = itemName.toLowerCase();
+  let best: { alias: string; density: number } | null = null;
+  for (const rule of DENSITIES) {
+    for (const alias of rule.aliases) {
+      if ((!best || alias.length > best.alias.length) && mentions(name, alias)) best = { alias, density: rule.density };
+    }
+  }
+  return best?.density ?? null;
+}
+
+/**
+ * `amount` expressed in `targetUnit`, or an error message when the two cannot be related.
+ * `density` (grams per millilitre) is needed between mass and volume.
+ */
+export function convertAmount(
+  amount: Amount,
+  targetUnit: string,
+  context: UnitContext,
+  density?: number | null
+): number | string {
+  const from = normalizeUnitWord(amount.unit, context.units);
+  const to = normalizeUnitWord(targetUnit, context.units);
+  if (from === to) return amount.quantity;
+
+  const source = measureOf(from, context);
+  const target = measureOf(to, context);
+  if (!source) return `The size of one ${from} is unknown; add a conversion such as "1 ${from} = 180 ml".`;
+  if (!target) return `The size of one ${to} is unknown; add a conversion such as "1 ${to} = 180 ml".`;
+
+  const base = amount.quantity * source.factor;
+  if (source.dimension === target.dimension) return base / target.factor;
+
+  const massAndVolume = [source.dimension, target.dimension].sort().join('/') === 'mass/volume';
+  if (!massAndVolume) return `Cannot convert ${from} (${source.dimension}) to ${to} (${target.dimension}).`;
+  if (!density) return `Cannot convert ${from} to ${to} without the item's density (grams per ml).`;
+
+  // Grams to millilitres divides by the density, millilitres to grams multiplies
+  return (source.dimension === 'mass' ? base / density : base * density) / target.factor;
+}
+
+/** Checks a conversion and normalizes its unit words; returns an error message when invalid. */
+export function validateUnitConversion(
+  input: { unit: string; quantity: number; target_unit: string },
+  units: UnitRow[]
+): { unit: string; quantity: number; target_unit: string } | string {
+  const unit = normalizeUnitWord(input.unit || '', units);
+  const targetUnit = normalizeUnitWord(input.target_unit || '', units);
+
+  if (!unit || !targetUnit) return 'Give both units, e.g. "1 hộp = 180 ml".';
+  if (unit === targetUnit) return 'A unit cannot be converted to itself.';
+  if (!Number.isFinite(input.quantity) || input.quantity <= 0) return 'The quantity must be a positive number.';
+
+  return { unit, quantity: input.quantity, target_unit: targetUnit };
+}
+
+/** Creates or replaces the user's conversion for `unit`. */
+export async function saveUnitConversion(
+  supabase: SupabaseClient,
+  userId: string,
+  conversion: { unit: string; quantity: number; target_unit: string }
+): Promise<UnitConversion> {
+  const { data: current, error: findError } = await supabase
+    .from('unit_conversions')
+    .select('id')
+    .eq('user_id', userId)
+    .ilike('unit', conversion.unit.replace(/[\\%_]/g, '\\$&'))
+    .maybeSingle();
+
+  if (findError) throw findError;
+
+  const row = { user_id: userId, ...conversion, updated_at: new Date().toISOString() };
+  const { data, error } = current
+    ? await supabase.from('unit_conversions').update(row).eq('id', current.id).select(CONVERSION_COLUMNS).single()
+    : await supabase.from('unit_conversions').insert(row).select(CONVERSION_COLUMNS).single();
+
+  if (error) throw error;
+  return data as UnitConversion;
+}
+
+/** Deletes the user's conversion for `unit`; returns false when there was none. */
+export async function deleteUnitConversion(supabase: SupabaseClient, userId: string, unit: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('unit_conversions')
+    .delete()
+    .eq('user_id', userId)
+    .ilike('unit', unit.replace(/[\\%_]/g, '\\$&'))
+    .select('id');
+
+  if (error) throw error;
+  return (data || []).length > 0;
+}
@@ -0,0 +1,80 @@
+import { assert, assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { convertAmount, UnitContext, UnitConversion, UnitRow } from './units.ts';
+
+// The units seed_default_categories_units() gives a new user
+const UNITS: UnitRow[] = [
+  { name: 'pieces', display_name: 'Pieces', dimension: 'count', base_factor: 1 },
+  { name: 'lbs', display_name: 'Lbs', dimension: 'mass', base_factor: 453.59237 },
+  { name: 'oz', display_name: 'Oz', dimension: 'mass', base_factor: 28.349523 },
+  { name: 'kg', display_name: 'Kg', dimension: 'mass', base_factor: 1000 },
+  { name: 'g', display_name: 'G', dimension: 'mass', base_factor: 1 },
+  { name: 'cups', display_name: 'Cups', dimension: 'volume', base_factor: 240 },
+  { name: 'liters', display_name: 'Liters', dimension: 'volume', base_factor: 1000 },
+  { name: 'ml', display_name: 'Ml', dimension: 'volume', base_factor: 1 },
+  { name: 'cans', display_name: 'Cans', dimension: null, base_factor: null },
+  { name: 'bottles', display_name: 'Bottles', dimension: null, base_factor: null },
+  { name: 'packages', display_name: 'Packages', dimension: null, base_factor: null },
+];
+
+function conversion(unit: string, quantity: number, target_unit: string): UnitConversion {
+  return { id: unit, user_id: 'user', unit, quantity, target_unit };
+}
+
+function context(...conversions: UnitConversion[]): UnitContext {
+  return { units: UNITS, conversions };
+}
+
+function assertClose(actual: number | string, expected: number) {
+  assert(typeof actual === 'number', `expected a number, got "${actual}"`);
+  assert(Math.abs(actual - expected) < 1e-9, `expected ${expected}, got ${actual}`);
+}
+
+Deno.test('convertAmount converts between kg and g', () => {
+  assertClose(convertAmount({ quantity: 1.5, unit: 'kg' }, 'g', context()), 1500);
+  assertClose(convertAmount({ quantity: 250, unit: 'gram' }, 'kg', context()), 0.25);
+});
+
+Deno.test('convertAmount converts between ml and cups', () => {
+  assertClose(convertAmount({ quantity: 2, unit: 'cups' }, 'ml', context()), 480);
+  assertClose(convertAmount({ quantity: 120, unit: 'ml' }, 'cup', context()), 0.5);
+});
+
+Deno.test('convertAmount sizes containers through chained conversions', () => {
+  const boxes = context(conversion('hộp', 180, 'ml'), conversion('lốc', 4, 'hộp'));
+  assertClose(convertAmount({ quantity: 2, unit: 'hộp' }, 'ml', boxes), 360);
+  assertClose(convertAmount({ quantity: 1, unit: 'lốc' }, 'liters', boxes), 0.72);
+  assertClose(convertAmount({ quantity: 540, unit: 'ml' }, 'hộp', boxes), 3);
+});
+
+Deno.test('convertAmount converts mass and volume only with a density', () => {
+  assertClose(convertAmount({ quantity: 1, unit: 'liters' }, 'g', context(), 1.03), 1030);
+  assertClose(convertAmount({ quantity: 92, unit: 'g' }, 'ml', context(), 0.92), 100);
+
+  const result = convertAmount({ quantity: 1, unit: 'liters' }, 'g', context());
+  assertEquals(result, "Cannot convert liters to g without the item's density (grams per ml).");
+});
+
+Deno.test('convertAmount rejects count to mass without a conversion', () => {
+  assertEquals(
+    convertAmount({ quantity: 2, unit: 'pieces' }, 'g', context(), 1),
+    'Cannot convert pieces (count) to g (mass).',
+  );
+  assertEquals(
+    convertAmount({ quantity: 1, unit: 'cans' }, 'g', context()),
+    'The size of one cans is unknown; add a conversion such as "1 cans = 180 ml".',
+  );
+});
+
+Deno.test('convertAmount gives up on conversion cycles and overly long chains', () => {
+  const cycle = context(conversion('hộp', 2, 'lốc'), conversion('lốc', 3, 'hộp'));
+  assertEquals(
+    convertAmount({ quantity: 1, unit: 'hộp' }, 'ml', cycle),
+    'The size of one hộp is unknown; add a conversion such as "1 hộp = 180 ml".',
+  );
+
+  // Three steps are followed, a fourth is not
+  const threeSteps = [conversion('thùng', 2, 'lốc'), conversion('lốc', 4, 'hộp'), conversion('hộp', 180, 'ml')];
+  assertClose(convertAmount({ quantity: 1, unit: 'thùng' }, 'ml', context(...threeSteps)), 1440);
+  const fourSteps = context(conversion('kiện', 5, 'thùng'), ...threeSteps);
+  assertEquals(typeof convertAmount({ quantity: 1, unit: 'kiện' }, 'ml', fourSteps), 'string');
+});
@@ -0,0 +1,55 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { bearerToken } from './admin-auth.ts';
+
+// Authorization for end users of functions that query with the service role key. The caller's
+// Supabase JWT identifies them, and they may only see their own rows and those of users who
+// share a group with them, as the is_same_group RLS policies allow.
+
+export interface UserScope {
+  userId: string;
+  groupIds: string[];
+  userIds: string[];  // The caller first, then the other members of their groups
+}
+
+/** The signed-in caller's user ID, or null without a valid user JWT. */
+export async function authenticatedUserId(supabase: SupabaseClient, req: Request): Promise<string | null> {
+  const token = bearerToken(req);
+  if (!token) return null;
+
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  return error || !user ? null : user.id;
+}
+
+/** Resolves the signed-in caller and whose rows they may see, or null without a valid user JWT. */
+export async function authenticateUser(supabase: SupabaseClient, req: Request): Promise<UserScope | null> {
+  const userId = await authenticatedUserId(supabase, req);
+  return userId ? await loadUserScope(supabase, userId) : null;
+}
+
+/** The user's groups and fellow group members, for callers already known by other means (e.g. the bot). */
+export async function loadUserScope(supabase: SupabaseClient, userId: string): Promise<UserScope> {
+  const { data: memberships, error: membershipsError } = await supabase
+    .from('group_members')
+    .select('group_id')
+    .eq('user_id', userId);
+
+  if (membershipsError) throw membershipsError;
+  const groupIds = [...new Set(((memberships || []) as { group_id: string }[]).map(row => row.group_id))];
+
+  let memberIds: string[] = [];
+  if (groupIds.length > 0) {
+    const { data: members, error: membersError } = await supabase
+      .from('group_members')
+      .select('user_id')
+      .in('group_id', groupIds);
+
+    if (membersError) throw membersError;
+    memberIds = ((members || []) as { user_id: string }[]).map(row => row.user_id);
+  }
+
+  return {
+    userId,
+    groupIds,
+    userIds: [...new Set([userId, ...memberIds])],
+  };
+}
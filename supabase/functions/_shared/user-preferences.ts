@@ -0,0 +1,153 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import {
+  DEFAULT_PRIORITY_THRESHOLDS,
+  normalizeThresholdSettings,
+  ThresholdSettings,
+} from './priority-thresholds.ts';
+import { logger } from './logger.ts';
+
+// Notification preferences live under `notifications` in user_settings.preferences:
+// {
+//   "notifications": {
+//     "delivery_mode": "digest",          // 'immediate' (default) or 'digest'
+//     "digest_urgent_immediately": true,  // still send urgent items one by one in digest mode
+//     "timezone": "Asia/Ho_Chi_Minh",     // IANA time zone, defaults to UTC
+//     "delivery_time": "08:00",           // local time of day notifications are scheduled for
+//     "quiet_hours": { "start": "22:00", "end": "07:00" },  // or null; nothing is scheduled inside
+//     "thresholds": { "default": { ... }, "categories": { ... } }  // see priority-thresholds.ts
+//   }
+// }
+
+export type DeliveryMode = 'immediate' | 'digest';
+
+export interface QuietHours {
+  start: string; // HH:MM, local time
+  end: string;   // HH:MM, local time; may be earlier than start (overnight)
+}
+
+export interface NotificationPreferences {
+  delivery_mode: DeliveryMode;
+  digest_urgent_immediately: boolean;
+  timezone: string;
+  delivery_time: string;
+  quiet_hours: QuietHours | null;
+  thresholds: ThresholdSettings;
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  delivery_mode: 'immediate',
+  digest_urgent_immediately: true,
+  timezone: 'UTC',
+  delivery_time: '08:00',
+  quiet_hours: null,
+  thresholds: { default: DEFAULT_PRIORITY_THRESHOLDS, categories: {} },
+};
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export function isValidTimeOfDay(value: unknown): value is string {
+  return typeof value === 'string' && TIME_OF_DAY_PATTERN.test(value);
+}
+
+export function isValidTimezone(value: unknown): value is string {
+  if (typeof value !== 'string' || value.length === 0) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function normalizeQuietHours(raw: unknown): QuietHours | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const { start, end } = raw as Partial<QuietHours>;
+  if (!isValidTimeOfDay(start) || !isValidTimeOfDay(end) || start === end) return null;
+  return { start, end };
+}
+
+// Fills in defaults and drops unknown values from a stored preferences object
+export function normalizeNotificationPreferences(raw: unknown): NotificationPreferences {
+  const stored = (raw && typeof raw === 'object' ? raw : {}) as Partial<NotificationPreferences>;
+
+  return {
+    delivery_mode: stored.delivery_mode === 'digest' ? 'digest' : DEFAULT_NOTIFICATION_PREFERENCES.delivery_mode,
+    digest_urgent_immediately: typeof stored.digest_urgent_immediately === 'boolean'
+      ? stored.digest_urgent_immediately
+      : DEFAULT_NOTIFICATION_PREFERENCES.digest_urgent_immediately,
+    timezone: isValidTimezone(stored.timezone) ? stored.timezone : DEFAULT_NOTIFICATION_PREFERENCES.timezone,
+    delivery_time: isValidTimeOfDay(stored.delivery_time)
+      ? stored.delivery_time
+      : DEFAULT_NOTIFICATION_PREFERENCES.delivery_time,
+    quiet_hours: normalizeQuietHours(stored.quiet_hours),
+    thresholds: normalizeThresholdSettings(stored.thresholds),
+  };
+}
+
+// Loads notification preferences for the given users; users without settings get the defaults
+export async function loadNotificationPreferences(
+  supabase: SupabaseClient,
+  userIds: string[]
+): Promise<Map<string, NotificationPreferences>> {
+  const preferences = new Map<string, NotificationPreferences>(
+    userIds.map(userId => [userId, { ...DEFAULT_NOTIFICATION_PREFERENCES }])
+  );
+
+  if (userIds.length === 0) return preferences;
+
+  const { data, error } = await supabase
+    .from('user_settings')
+    .select('user_id, preferences')
+    .in('user_id', userIds);
+
+  if (error) {
+    logger.error('Error fetching user notification preferences, using defaults', error);
+    return preferences;
+  }
+
+  for (const row of data || []) {
+    preferences.set(row.user_id, normalizeNotificationPreferences(row.preferences?.notifications));
+  }
+
+  return preferences;
+}
+
+// Time zone of each user, for computing "today" in the item owner's zone
+export async function loadUserTimezones(supabase: SupabaseClient, userIds: string[]): Promise<Map<string, string>> {
+  const preferences = await loadNotificationPreferences(supabase, userIds);
+  return new Map([...preferences.entries()].map(([userId, prefs]) => [userId, prefs.timezone]));
+}
+
+// Whether a queue row should be sent on its own rather than collected into a digest
+export function shouldSendImmediately(preferences: NotificationPreferences, priority: string): boolean {
+  if (preferences.delivery_mode !== 'digest') return true;
+  return priority === 'urgent' && preferences.digest_urgent_immediately;
+}
+
+// Merges changes into the user's stored notification preferences, keeping every other
+// key in user_settings.preferences; returns the normalized result
+export async function saveNotificationPreferences(
+  supabase: SupabaseClient,
+  userId: string,
+  changes: Partial<NotificationPreferences>
+): Promise<NotificationPreferences> {
+  const { data: existing, error: fetchError } = await supabase
+    .from('user_settings')
+    .select('id, preferences')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (fetchError) throw fetchError;
+
+  const preferences = existing?.preferences || {};
+  const notifications = normalizeNotificationPreferences({ ...preferences.notifications, ...changes });
+  const updated = { ...preferences, notifications };
+
+  const { error } = existing
+    ? await supabase.from('user_settings').update({ preferences: updated }).eq('id', existing.id)
+    : await supabase.from('user_settings').insert({ user_id: userId, preferences: updated });
+
+  if (error) throw error;
+
+  return notifications;
+}
@@ -0,0 +1,98 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { getItemType } from './item-types.ts';
+import { logger } from './logger.ts';
+
+// The waste log records what happened to items that passed their date. sweep-expired-items
+// opens a row when it asks the user; the answer (or no_response after a while) closes it
+// and removes the item from its table, so expired items stop cluttering the inventory.
+// Items removed with a notification button before their date are logged too (source
+// 'notification'), as are items whose quantity "use some" brought to zero (source 'used_up'),
+// so the log holds every outcome analytics needs.
+
+export type WasteOutcome = 'used' | 'wasted' | 'no_response';
+
+export type WasteLogSource = 'expired_sweep' | 'notification' | 'used_up';
+
+export interface RemovedItem {
+  user_id: string;
+  item_type: string;
+  item_id: string;
+  item_name: string;
+  quantity: number;
+  unit: string;
+  category: string;
+  expiration_date: string;
+  chat_id: number | null;        // Null for users who never connected Telegram
+}
+
+export interface WasteLogRow {
+  id: string;
+  user_id: string;
+  item_type: string;
+  item_id: string;
+  item_name: string;
+  quantity: number;
+  unit: string;
+  chat_id: number;
+  message_id: number | null;
+  outcome: WasteOutcome | null;
+}
+
+const WASTE_LOG_COLUMNS = 'id, user_id, item_type, item_id, item_name, quantity, unit, chat_id, message_id, outcome';
+
+/**
+ * Records the outcome of an open waste log row and removes the item. Returns the closed
+ * row, or null when the row does not exist or already has an outcome.
+ */
+export async function recordWasteOutcome(
+  supabase: SupabaseClient,
+  wasteLogId: string,
+  outcome: WasteOutcome
+): Promise<WasteLogRow | null> {
+  // Only the first answer counts; the outcome check makes concurrent answers safe
+  const { data, error } = await supabase
+    .from('waste_log')
+    .update({ outcome, resolved_at: new Date().toISOString() })
+    .eq('id', wasteLogId)
+    .is('outcome', null)
+    .select(WASTE_LOG_COLUMNS);
+
+  if (error) throw error;
+  if (!data || data.length === 0) return null;
+
+  const row = data[0] as WasteLogRow;
+  const itemType = getItemType(row.item_type);
+
+  if (itemType) {
+    const { error: deleteError } = await supabase
+      .from(itemType.table)
+      .delete()
+      .eq('id', row.item_id)
+      .eq('user_id', row.user_id);
+
+    if (deleteError) throw deleteError;
+  } else {
+    logger.warn(`Waste log ${row.id} has unregistered item type ${row.item_type}; item not removed`);
+  }
+
+  return row;
+}
+
+/** Logs an item the user removed before its date; it replaces an open sweep row for the item. */
+export async function logRemovedItem(
+  supabase: SupabaseClient,
+  item: RemovedItem,
+  outcome: Exclude<WasteOutcome, 'no_response'>,
+  source: Exclude<WasteLogSource, 'expired_sweep'> = 'notification'
+): Promise<void> {
+  const { error } = await supabase
+    .from('waste_log')
+    .upsert({
+      ...item,
+      outcome,
+      source,
+      resolved_at: new Date().toISOString(),
+    }, { onConflict: 'item_type,item_id' });
+
+  if (error) throw error;
+}
@@ -0,0 +1,115 @@
+// Authenticity checks for requests that arrive as webhooks rather than authenticated API calls:
+// - Telegram updates to telegram-bot carry X-Telegram-Bot-Api-Secret-Token, the secret_token
+//   registered with setWebhook (TELEGRAM_WEBHOOK_SECRET)
+// - Database webhooks to handle-webhook-callback are signed by the queue trigger:
+//   X-Webhook-Signature is the hex HMAC-SHA256 of `<X-Webhook-Timestamp>.<raw body>` with
+//   DATABASE_WEBHOOK_SECRET. Webhooks that can only send static headers (dashboard-configured
+//   ones) may send the secret itself as X-Webhook-Secret instead.
+//
+// Database webhooks older (or further in the future) than the replay window are rejected:
+// signed ones by their timestamp, shared-secret ones by the record's created_at.
+
+export type WebhookAuthFailure =
+  | 'not_configured'
+  | 'missing_credentials'
+  | 'invalid_secret'
+  | 'invalid_signature'
+  | 'invalid_timestamp'
+  | 'outside_replay_window';
+
+const DEFAULT_REPLAY_WINDOW_SECONDS = 300;
+
+// Telegram only accepts these characters in a webhook secret_token
+const TELEGRAM_SECRET_PATTERN = /^[A-Za-z0-9_-]{1,256}$/;
+
+const encoder = new TextEncoder();
+
+// Constant-time comparison so a wrong secret does not leak how much of it matched
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+function replayWindowSeconds(): number {
+  const configured = Number(Deno.env.get('WEBHOOK_REPLAY_WINDOW_SECONDS'));
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_REPLAY_WINDOW_SECONDS;
+}
+
+function isWithinReplayWindow(sentAtMs: number, now: Date): boolean {
+  return Math.abs(now.getTime() - sentAtMs) <= replayWindowSeconds() * 1000;
+}
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const digest = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/** The secret_token telegram-bot registers with Telegram; throws when it is missing or malformed. */
+export function telegramWebhookSecret(): string {
+  const secret = Deno.env.get('TELEGRAM_WEBHOOK_SECRET');
+  if (!secret || !TELEGRAM_SECRET_PATTERN.test(secret)) {
+    throw new Error('TELEGRAM_WEBHOOK_SECRET must be set to 1-256 characters of A-Z, a-z, 0-9, _ or -');
+  }
+  return secret;
+}
+
+/** Returns why a Telegram update is rejected, or null when it carries the registered secret token. */
+export function verifyTelegramUpdate(req: Request): WebhookAuthFailure | null {
+  const secret = Deno.env.get('TELEGRAM_WEBHOOK_SECRET');
+  if (!secret) return 'not_configured';
+
+  const provided = req.headers.get('X-Telegram-Bot-Api-Secret-Token');
+  if (!provided) return 'missing_credentials';
+  return safeEqual(provided, secret) ? null : 'invalid_secret';
+}
+
+/**
+ * Returns why a database webhook is rejected, or null when it is authentic and fresh.
+ * `rawBody` must be the body exactly as received, since the signature covers its bytes.
+ */
+export async function verifyDatabaseWebhook(
+  req: Request,
+  rawBody: string,
+  now = new Date()
+): Promise<WebhookAuthFailure | null> {
+  const secret = Deno.env.get('DATABASE_WEBHOOK_SECRET');
+  if (!secret) return 'not_configured';
+
+  const signature = req.headers.get('X-Webhook-Signature');
+  if (signature) {
+    const timestamp = req.headers.get('X-Webhook-Timestamp') || '';
+    if (!/^\d{1,12}$/.test(timestamp)) return 'invalid_timestamp';
+
+    const expected = await hmacHex(secret, `${timestamp}.${rawBody}`);
+    if (!safeEqual(signature.replace(/^sha256=/, '').toLowerCase(), expected)) return 'invalid_signature';
+
+    return isWithinReplayWindow(Number(timestamp) * 1000, now) ? null : 'outside_replay_window';
+  }
+
+  const providedSecret = req.headers.get('X-Webhook-Secret');
+  if (!providedSecret) return 'missing_credentials';
+  if (!safeEqual(providedSecret, secret)) return 'invalid_secret';
+
+  // Static headers cannot carry a timestamp, so the record itself dates the event
+  let createdAt: unknown;
+  try {
+    createdAt = JSON.parse(rawBody)?.record?.created_at;
+  } catch (_) {
+    return 'invalid_timestamp';
+  }
+  const sentAtMs = typeof createdAt === 'string' ? Date.parse(createdAt) : NaN;
+  if (isNaN(sentAtMs)) return 'invalid_timestamp';
+
+  return isWithinReplayWindow(sentAtMs, now) ? null : 'outside_replay_window';
+}
@@ -0,0 +1,151 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { bearerToken } from '../_shared/admin-auth.ts';
+import {
+  deleteGeminiApiKey,
+  getGeminiApiKeyStatus,
+  migratePlaintextGeminiKeys,
+  saveGeminiApiKey,
+} from '../_shared/api-keys.ts';
+import { correlationIdFrom, initLogger } from '../_shared/logger.ts';
+import { authenticatedUserId } from '../_shared/user-auth.ts';
+
+// CORS helper
+function corsHeaders(origin: string | null) {
+  return {
+    'Access-Control-Allow-Origin': origin ?? '*',
+    'Access-Control-Allow-Methods': 'GET, PUT, POST, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type, apikey',
+  } as Record<string, string>;
+}
+
+const logger = initLogger('api-key-settings');
+
+// Initialize Supabase client
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+if (!supabaseUrl || !supabaseKey) {
+  logger.error('Missing Supabase environment variables');
+  Deno.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+function jsonResponse(body: unknown, status: number, origin: string | null): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders(origin) },
+  });
+}
+
+// HTTP server handler
+Deno.serve(async (req) => {
+  const { method, headers } = req;
+  const origin = headers.get('Origin');
+  const log = logger.child({ correlation_id: correlationIdFrom(req) });
+
+  // Handle CORS preflight requests
+  if (method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders(origin) });
+  }
+
+  try {
+    // One-off move of plaintext user_settings.gemini_api_key values; service role only
+    if (method === 'POST' && new URL(req.url).pathname.endsWith('/migrate')) {
+      if (bearerToken(req) !== supabaseKey) {
+        return jsonResponse({ error: 'Forbidden: migration requires the service role key' }, 403, origin);
+      }
+      const migrated = await migratePlaintextGeminiKeys(supabase);
+      log.info(`Migrated ${migrated} plaintext Gemini API keys`);
+      return jsonResponse({ success: true, migrated }, 200, origin);
+    }
+
+    if (method !== 'GET' && method !== 'PUT' && method !== 'DELETE') {
+      return jsonResponse({ error: 'Method not allowed' }, 405, origin);
+    }
+
+    const userId = await authenticatedUserId(supabase, req);
+    if (!userId) {
+      return jsonResponse({ error: 'Unauthorized: a signed-in user access token is required' }, 401, origin);
+    }
+
+    const userLog = log.child({ user_id: userId });
+
+    if (method === 'GET') {
+      return jsonResponse({ gemini: await getGeminiApiKeyStatus(supabase, userId) }, 200, origin);
+    }
+
+    if (method === 'DELETE') {
+      const deleted = await deleteGeminiApiKey(supabase, userId);
+      userLog.info(deleted ? 'Gemini API key deleted' : 'No Gemini API key to delete');
+      return jsonResponse({ success: true, deleted, gemini: await getGeminiApiKeyStatus(supabase, userId) }, 200, origin);
+    }
+
+    // PUT sets the key, or rotates it when one is already stored
+    let body: { api_key?: unknown };
+    try {
+      body = await req.json();
+    } catch (_) {
+      return jsonResponse({ error: 'Invalid JSON body' }, 400, origin);
+    }
+    if (typeof body?.api_key !== 'string' || !body.api_key.trim()) {
+      return jsonResponse({ error: 'api_key is required' }, 400, origin);
+    }
+
+    const result = await saveGeminiApiKey(supabase, userId, body.api_key);
+    if (typeof result === 'string') {
+      return jsonResponse({ error: result }, 400, origin);
+    }
+
+    userLog.info(result.rotated ? 'Gemini API key rotated' : 'Gemini API key saved', { verified: result.verified });
+    const { rotated, ...status } = result;
+    return jsonResponse({ success: true, rotated, gemini: status }, 200, origin);
+  } catch (err) {
+    log.error('Unhandled error in api-key-settings', err);
+    const message = err instanceof Error ? err.message : 'Internal Server Error';
+
+    return new Response(JSON.stringify({
+      error: message,
+      timestamp: new Date().toISOString()
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json', ...corsHeaders(origin) },
+    });
+  }
+});
+
+/* To invoke locally:
+
+  1. Run `supabase start` (see: https://supabase.com/docs/reference/cli/supabase-start)
+  2. Make an HTTP request:
+
+  // Status of the caller's key (never the key itself)
+  curl -i --location --request GET 'http://127.0.0.1:54321/functions/v1/api-key-settings' \
+    --header 'Authorization: Bearer <user access token>'
+
+  // Set or rotate the key
+  curl -i --location --request PUT 'http://127.0.0.1:54321/functions/v1/api-key-settings' \
+    --header 'Authorization: Bearer <user access token>' \
+    --header 'Content-Type: application/json' \
+    --data '{"api_key": "AIza..."}'
+
+  // Delete the key
+  curl -i --location --request DELETE 'http://127.0.0.1:54321/functions/v1/api-key-settings' \
+    --header 'Authorization: Bearer <user access token>'
+
+  // Encrypt keys still stored in plaintext in user_settings
+  curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/api-key-settings/migrate' \
+    --header 'Authorization: Bearer <service role key>'
+
+  // Response example for GET:
+  // {
+  //   "gemini": {
+  //     "configured": true,
+  //     "masked": "••••wXyZ",
+  //     "verified": true,
+  //     "verified_at": "2025-09-14T09:12:00.000Z",
+  //     "updated_at": "2025-09-14T09:12:00.000Z"
+  //   }
+  // }
+
+*/
@@ -0,0 +1,205 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { bearerToken } from '../_shared/admin-auth.ts';
+import { buildOutcomeReport } from '../_shared/analytics.ts';
+import { addDays, DEFAULT_TIMEZONE, daysBetween, makeDate, todayInTimezone } from '../_shared/dates.ts';
+import { correlationIdFrom, initLogger } from '../_shared/logger.ts';
+import { authenticateUser, UserScope } from '../_shared/user-auth.ts';
+import { isValidTimezone, loadUserTimezones } from '../_shared/user-preferences.ts';
+
+// CORS helper
+function corsHeaders(origin: string | null) {
+  return {
+    'Access-Control-Allow-Origin': origin ?? '*',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type, apikey',
+  } as Record<string, string>;
+}
+
+const logger = initLogger('consumption-analytics');
+
+// Initialize Supabase client
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+if (!supabaseUrl || !supabaseKey) {
+  logger.error('Missing Supabase environment variables');
+  Deno.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+// Configuration
+const DEFAULT_RANGE_DAYS = 28; // Four full weeks when no range is given
+const MAX_RANGE_DAYS = 366;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isValidDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false;
+  const [year, month, day] = value.split('-').map(Number);
+  return makeDate(year, month, day) !== null;
+}
+
+function errorResponse(message: string, status: number, origin: string | null): Response {
+  return new Response(JSON.stringify({ error: message }), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders(origin) },
+  });
+}
+
+function badRequest(message: string, origin: string | null): Response {
+  return errorResponse(message, 400, origin);
+}
+
+// Resolves the users a report covers: one user, or every member of a group
+async function resolveUserIds(userId: string | null, groupId: string | null): Promise<string[]> {
+  if (userId) return [userId];
+
+  const { data, error } = await supabase
+    .from('group_members')
+    .select('user_id')
+    .eq('group_id', groupId);
+
+  if (error) throw new Error(`Failed to fetch group members: ${error.message}`);
+  return ((data || []) as { user_id: string }[]).map(member => member.user_id);
+}
+
+// HTTP server handler
+Deno.serve(async (req) => {
+  const { method, headers } = req;
+  const origin = headers.get('Origin');
+  const log = logger.child({ correlation_id: correlationIdFrom(req) });
+
+  // Handle CORS preflight requests
+  if (method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders(origin) });
+  }
+
+  if (method !== 'GET') {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+      status: 405,
+      headers: { 'Content-Type': 'application/json', ...corsHeaders(origin) },
+    });
+  }
+
+  try {
+    // The service role sees everyone; a signed-in user only themselves, the members of their
+    // groups and those groups, as the is_same_group RLS policies allow
+    let scope: UserScope | null = null;
+    if (bearerToken(req) !== supabaseKey) {
+      scope = await authenticateUser(supabase, req);
+      if (!scope) {
+        return errorResponse('Unauthorized: a signed-in user access token is required', 401, origin);
+      }
+    }
+
+    const url = new URL(req.url);
+    const userId = url.searchParams.get('user_id');
+    const groupId = url.searchParams.get('group_id');
+    const from = url.searchParams.get('from');
+    const to = url.searchParams.get('to');
+    const timezoneParam = url.searchParams.get('timezone');
+
+    if (!userId === !groupId) {
+      return badRequest('Exactly one of user_id or group_id is required', origin);
+    }
+    if (timezoneParam && !isValidTimezone(timezoneParam)) {
+      return badRequest(`Unknown timezone: ${timezoneParam}`, origin);
+    }
+    if ((from && !isValidDate(from)) || (to && !isValidDate(to))) {
+      return badRequest('from and to must be dates in YYYY-MM-DD format', origin);
+    }
+    if (scope && userId && !scope.userIds.includes(userId)) {
+      return errorResponse('Forbidden: user_id must be you or a member of one of your groups', 403, origin);
+    }
+    if (scope && groupId && !scope.groupIds.includes(groupId)) {
+      return errorResponse('Forbidden: group_id must be one of your groups', 403, origin);
+    }
+
+    const userIds = await resolveUserIds(userId, groupId);
+    if (userIds.length === 0) {
+      return new Response(JSON.stringify({ error: 'Group not found or has no members' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json', ...corsHeaders(origin) },
+      });
+    }
+
+    // A single user's days follow their own time zone; groups default to UTC
+    const timezone = timezoneParam
+      || (userId ? (await loadUserTimezones(supabase, [userId])).get(userId) : undefined)
+      || DEFAULT_TIMEZONE;
+
+    const end = to || todayInTimezone(timezone);
+    const start = from || addDays(end, -(DEFAULT_RANGE_DAYS - 1));
+
+    if (start > end) {
+      return badRequest('from must not be after to', origin);
+    }
+    if (daysBetween(start, end) >= MAX_RANGE_DAYS) {
+      return badRequest(`The range may span at most ${MAX_RANGE_DAYS} days`, origin);
+    }
+
+    log.info('Consumption analytics request', {
+      user_id: userId,
+      group_id: groupId,
+      start,
+      end,
+      timezone,
+      caller: scope?.userId ?? 'service_role',
+    });
+
+    const report = await buildOutcomeReport(supabase, userIds, { start, end }, timezone);
+
+    return new Response(JSON.stringify({
+      ...(userId ? { user_id: userId } : { group_id: groupId, members: userIds.length }),
+      ...report,
+      timestamp: new Date().toISOString()
+    }), {
+      headers: { 'Content-Type': 'application/json', ...corsHeaders(origin) },
+    });
+  } catch (err) {
+    log.error('Unhandled error in consumption-analytics', err);
+    const message = err instanceof Error ? err.message : 'Internal Server Error';
+
+    return new Response(JSON.stringify({
+      error: message,
+      timestamp: new Date().toISOString()
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json', ...corsHeaders(origin) },
+    });
+  }
+});
+
+/* To invoke locally:
+
+  1. Run `supabase start` (see: https://supabase.com/docs/reference/cli/supabase-start)
+  2. Make an HTTP request:
+
+  // Last four weeks for one user, in their time zone; users may ask about themselves and
+  // the members of their groups, the service role about anyone
+  curl -i --location --request GET 'http://127.0.0.1:54321/functions/v1/consumption-analytics?user_id=<uuid>' \
+    --header 'Authorization: Bearer <user access token>'
+
+  // One of the caller's groups over an explicit range
+  curl -i --location --request GET 'http://127.0.0.1:54321/functions/v1/consumption-analytics?group_id=<uuid>&from=2025-06-02&to=2025-08-31&timezone=Europe/Berlin' \
+    --header 'Authorization: Bearer <user access token>'
+
+  // Response example (abridged):
+  // {
+  //   "user_id": "…",
+  //   "range": { "start": "2025-08-04", "end": "2025-08-31", "timezone": "Europe/Berlin" },
+  //   "totals": { "consumed": 31, "discarded": 4, "expired": 5, "total": 40, "wasted": 9, "waste_rate": 0.225 },
+  //   "by_category": [{ "category": "dairy", "consumed": 10, "discarded": 1, "expired": 3, "total": 14, "wasted": 4, "waste_rate": 0.286 }],
+  //   "most_wasted_categories": [{ "category": "dairy", "wasted": 4 }],
+  //   "weekly": [{ "week_start": "2025-08-04", "consumed": 8, "discarded": 1, "expired": 2, ... }],
+  //   "week_over_week": { "week_start": "2025-08-25", "wasted_change": -0.5, "consumed_change": 0.125 },
+  //   "series": {
+  //     "labels": ["2025-08-04", "2025-08-11", "2025-08-18", "2025-08-25"],
+  //     "datasets": [{ "key": "consumed", "label": "Consumed", "data": [8, 7, 7, 9] }, ...]
+  //   },
+  //   "inventory": { "tracked_food_items": 42, "expiring_within_7_days": 6 },
+  //   "reminders_sent": 37
+  // }
+
+*/
@@ -0,0 +1,236 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { makeDate, todayInTimezone } from '../_shared/dates.ts';
+import { loadUserLists, resolveCategory, resolveUnit } from '../_shared/item-normalizer.ts';
+import { correlationIdFrom, initLogger } from '../_shared/logger.ts';
+import {
+  estimateExpirationDate,
+  loadShelfLifeOverrides,
+  ShelfLifeEstimate,
+  STORAGE_KINDS,
+  StorageKind,
+} from '../_shared/shelf-life.ts';
+import { findStorageLocations, loadStorageLocations } from '../_shared/storage-locations.ts';
+import { authenticateUser, loadUserScope } from '../_shared/user-auth.ts';
+import { loadUserTimezones } from '../_shared/user-preferences.ts';
+
+// CORS helper
+function corsHeaders(origin: string | null) {
+  return {
+    'Access-Control-Allow-Origin': origin ?? '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type, apikey',
+  } as Record<string, string>;
+}
+
+const logger = initLogger('create-item');
+
+// Initialize Supabase client
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+if (!supabaseUrl || !supabaseKey) {
+  logger.error('Missing Supabase environment variables');
+  Deno.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+interface CreateItemRequest {
+  name: string;
+  quantity: number;
+  unit: string | null;
+  category: string | null;
+  expiration_date: string | null;
+  storage: StorageKind | null;   // Only used to estimate a missing expiration_date
+  location: string | null;       // Storage location name or ID; its kind is the default storage
+  user_id: string | null;        // Owner; defaults to the caller
+}
+
+function jsonResponse(body: unknown, status: number, origin: string | null): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders(origin) },
+  });
+}
+
+// Validates the JSON body; returns an error message when it is invalid
+function parseCreateItemRequest(body: Record<string, unknown>): CreateItemRequest | string {
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name) return 'name is required';
+
+  const quantity = body.quantity ?? 1;
+  if (typeof quantity !== 'number' || !Number.isFinite(quantity) || quantity <= 0) {
+    return 'quantity must be a positive number';
+  }
+
+  for (const field of ['unit', 'category', 'expiration_date', 'storage', 'location', 'user_id']) {
+    if (body[field] !== undefined && body[field] !== null && typeof body[field] !== 'string') {
+      return `${field} must be a string`;
+    }
+  }
+
+  let expirationDate: string | null = null;
+  if (body.expiration_date) {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(body.expiration_date as string);
+    expirationDate = match ? makeDate(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+    if (!expirationDate) return 'expiration_date must be a date in yyyy-mm-dd format';
+  }
+
+  const storage = (body.storage as string | undefined) || null;
+  if (storage && !STORAGE_KINDS.includes(storage as StorageKind)) {
+    return `storage must be one of: ${STORAGE_KINDS.join(', ')}`;
+  }
+
+  return {
+    name,
+    quantity,
+    unit: (body.unit as string | undefined)?.trim() || null,
+    category: (body.category as string | undefined)?.trim() || null,
+    expiration_date: expirationDate,
+    storage: storage as StorageKind | null,
+    location: (body.location as string | undefined)?.trim() || null,
+    user_id: (body.user_id as string | undefined) || null,
+  };
+}
+
+// HTTP server handler
+Deno.serve(async (req) => {
+  const { method, headers } = req;
+  const origin = headers.get('Origin');
+  const log = logger.child({ correlation_id: correlationIdFrom(req) });
+
+  // Handle CORS preflight requests
+  if (method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders(origin) });
+  }
+
+  if (method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405, origin);
+  }
+
+  try {
+    const scope = await authenticateUser(supabase, req);
+    if (!scope) {
+      return jsonResponse({ error: 'Unauthorized: a signed-in user access token is required' }, 401, origin);
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = await req.json();
+    } catch (_) {
+      return jsonResponse({ error: 'Invalid JSON body' }, 400, origin);
+    }
+
+    const request = parseCreateItemRequest(body || {});
+    if (typeof request === 'string') {
+      return jsonResponse({ error: request }, 400, origin);
+    }
+
+    // Items can be added for anyone in the caller's groups, as the is_same_group policies allow
+    const ownerId = request.user_id || scope.userId;
+    if (!scope.userIds.includes(ownerId)) {
+      return jsonResponse({ error: 'Forbidden: user_id is outside your groups' }, 403, origin);
+    }
+
+    const { units, categories } = await loadUserLists(supabase, ownerId);
+
+    let category = resolveCategory(request.name, categories);
+    if (request.category) {
+      const wanted = request.category.toLowerCase();
+      const match = categories.find(c => c.name.toLowerCase() === wanted || c.display_name.toLowerCase() === wanted);
+      if (!match) {
+        return jsonResponse({ error: `Unknown category: ${request.category}` }, 400, origin);
+      }
+      category = match.name;
+    }
+
+    const ownerScope = ownerId === scope.userId ? scope : await loadUserScope(supabase, ownerId);
+
+    // The location must be one of the owner's households'
+    let location = null;
+    if (request.location) {
+      const matches = findStorageLocations(await loadStorageLocations(supabase, ownerScope), request.location);
+      if (matches.length !== 1) {
+        return jsonResponse({
+          error: matches.length === 0 ? `Unknown location: ${request.location}` : `Several locations are called ${request.location}; use its ID`,
+        }, 400, origin);
+      }
+      location = matches[0];
+    }
+
+    // No date given: estimate one from the owner's household shelf-life rules
+    let expirationDate = request.expiration_date;
+    let estimate: ShelfLifeEstimate | null = null;
+    if (!expirationDate) {
+      const timezones = await loadUserTimezones(supabase, [ownerId]);
+      const estimated = estimateExpirationDate(
+        { name: request.name, category, storage: request.storage || location?.kind },
+        todayInTimezone(timezones.get(ownerId)),
+        await loadShelfLifeOverrides(supabase, ownerScope)
+      );
+      expirationDate = estimated.expiration_date;
+      estimate = estimated.estimate;
+    }
+
+    const { data: item, error } = await supabase
+      .from('food_items')
+      .insert({
+        user_id: ownerId,
+        name: request.name,
+        quantity: request.quantity,
+        unit: resolveUnit(request.unit, units),
+        category,
+        expiration_date: expirationDate,
+        expiration_estimated: estimate !== null,
+        location_id: location?.id ?? null,
+      })
+      .select('id, user_id, name, quantity, unit, category, expiration_date, expiration_estimated, location_id, created_at')
+      .single();
+
+    if (error) throw error;
+
+    log.info('Item created', { user_id: ownerId, item_id: item.id, estimated: estimate !== null });
+    return jsonResponse({ success: true, item, estimate }, 201, origin);
+  } catch (err) {
+    log.error('Unhandled error in create-item', err);
+    const message = err instanceof Error ? err.message : 'Internal Server Error';
+
+    return new Response(JSON.stringify({
+      error: message,
+      timestamp: new Date().toISOString()
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json', ...corsHeaders(origin) },
+    });
+  }
+});
+
+/* To invoke locally:
+
+  1. Run `supabase start` (see: https://supabase.com/docs/reference/cli/supabase-start)
+  2. Make an HTTP request:
+
+  // Without expiration_date the date is estimated from shelf life
+  curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/create-item' \
+    --header 'Authorization: Bearer <user access token>' \
+    --header 'Content-Type: application/json' \
+    --data '{"name": "chicken breast", "quantity": 0.5, "unit": "kg", "location": "Freezer"}'
+
+  // Response example:
+  // {
+  //   "success": true,
+  //   "item": {
+  //     "id": "…",
+  //     "name": "chicken breast",
+  //     "quantity": 0.5,
+  //     "unit": "kg",
+  //     "category": "meat",
+  //     "expiration_date": "2026-06-12",
+  //     "expiration_estimated": true,
+  //     "location_id": "…",
+  //     …
+  //   },
+  //   "estimate": { "days": 270, "storage": "freezer", "source": "product", "matched": "chicken" }
+  // }
+
+*/
@@ -1,35 +1,108 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { authenticateAdmin } from '../_shared/admin-auth.ts';
+import { daysUntil, widestDateRangeBounds } from '../_shared/dates.ts';
+import { correlationIdFrom, initLogger } from '../_shared/logger.ts';
+import {
+  applyQueueFilters,
+  parseQueueFilters,
+  prepareQueueAdminRequest,
+  QueueAdminAction,
+  runQueueAdminAction,
+} from '../_shared/queue-admin.ts';
+import { loadUserTimezones } from '../_shared/user-preferences.ts';
 
 // CORS helper
 function corsHeaders(origin: string | null) {
   return {
     'Access-Control-Allow-Origin': origin ?? '*',
-    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS',
     'Access-Control-Allow-Headers': 'Authorization, Content-Type, apikey',
   } as Record<string, string>;
 }
 
+const logger = initLogger('expiring-items');
+
 // Initialize Supabase client
 const supabaseUrl = Deno.env.get('SUPABASE_URL');
 const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
 if (!supabaseUrl || !supabaseKey) {
-  console.error('Missing Supabase environment variables');
+  logger.error('Missing Supabase environment variables');
   Deno.exit(1);
 }
 
 const supabase = createClient(supabaseUrl, supabaseKey);
 
+function jsonResponse(body: unknown, status: number, origin: string | null): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders(origin) },
+  });
+}
+
+// Queue admin actions: POST requeues, PATCH cancels or reschedules, DELETE purges.
+// Filters and options come from the JSON body, or the query string for DELETE.
+async function handleQueueAdmin(req: Request, origin: string | null): Promise<Response> {
+  const actor = await authenticateAdmin(supabase, req, supabaseKey!);
+  if (!actor) {
+    return jsonResponse({ error: 'Queue admin actions require the service role or an admin user' }, 401, origin);
+  }
+
+  const url = new URL(req.url);
+  let body: Record<string, unknown> = Object.fromEntries(url.searchParams);
+  if (req.headers.get('Content-Type')?.includes('application/json')) {
+    try {
+      body = { ...body, ...await req.json() };
+    } catch {
+      return jsonResponse({ error: 'Invalid JSON body' }, 400, origin);
+    }
+  }
+
+  let action: QueueAdminAction;
+  if (req.method === 'POST') {
+    action = 'requeue';
+  } else if (req.method === 'DELETE') {
+    action = 'purge';
+  } else if (body.action === 'cancel' || body.action === 'reschedule') {
+    action = body.action;
+  } else {
+    return jsonResponse({ error: 'PATCH needs action: cancel or reschedule' }, 400, origin);
+  }
+
+  const filters = parseQueueFilters(body);
+  if (typeof filters === 'string') {
+    return jsonResponse({ error: filters }, 400, origin);
+  }
+
+  const request = prepareQueueAdminRequest({
+    action,
+    filters,
+    scheduled_at: body.scheduled_at === undefined ? undefined : String(body.scheduled_at),
+    dry_run: body.dry_run === true || body.dry_run === 'true',
+  });
+  if (typeof request === 'string') {
+    return jsonResponse({ error: request }, 400, origin);
+  }
+
+  const result = await runQueueAdminAction(supabase, actor, request);
+  return jsonResponse({ ...result, filters_applied: request.filters }, 200, origin);
+}
+
 // HTTP server
 Deno.serve(async (req) => {
   const { method, headers } = req;
   const origin = headers.get('Origin');
+  const log = logger.child({ correlation_id: correlationIdFrom(req) });
 
   if (method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders(origin) });
   }
 
-  if (method !== 'GET') {
+  const url = new URL(req.url);
+  const endpoint = url.searchParams.get('endpoint') || 'queue'; // Default to queue, or 'items' for legacy
+
+  const isAdminMethod = method === 'POST' || method === 'PATCH' || method === 'DELETE';
+  if (method !== 'GET' && !(isAdminMethod && endpoint === 'queue')) {
     return new Response(JSON.stringify({ error: 'Method not allowed' }), {
       status: 405,
       headers: { 'Content-Type': 'application/json', ...corsHeaders(origin) },
@@ -37,18 +110,25 @@ Deno.serve(async (req) => {
   }
 
   try {
-    const url = new URL(req.url);
-    const endpoint = url.searchParams.get('endpoint') || 'queue'; // Default to queue, or 'items' for legacy
+    if (isAdminMethod) {
+      return await handleQueueAdmin(req, origin);
+    }
 
     if (endpoint === 'queue') {
-      // Query the notification queue
-      const status = url.searchParams.get('status') || 'pending'; // pending, processing, sent, failed
+      // Query the notification queue; status and priority take comma-separated lists
+      const filters = parseQueueFilters(Object.fromEntries(url.searchParams));
+      if (typeof filters === 'string') {
+        return jsonResponse({ error: filters }, 400, origin);
+      }
+      filters.statuses ??= ['pending'];
       const limit = Math.min(Number(url.searchParams.get('limit')) || 100, 1000); // Cap at 1000
 
-      const { data: queueData, error: queueError } = await supabase
+      const queueQuery = supabase
         .from('expiring_items_queue')
         .select(`
           id,
+          item_type,
+          item_id,
           food_item_id,
           user_id,
           chat_id,
@@ -62,16 +142,21 @@ Deno.serve(async (req) => {
           scheduled_at,
           status,
           processed_at,
+          attempt_count,
+          next_attempt_at,
+          last_error,
+          last_error_code,
           created_at,
           updated_at
-        `)
-        .eq('status', status)
+        `);
+
+      const { data: queueData, error: queueError } = await applyQueueFilters(queueQuery, filters)
         .order('notification_priority', { ascending: false })
         .order('scheduled_at', { ascending: true })
         .limit(limit);
 
       if (queueError) {
-        console.error('Queue query error:', queueError);
+        log.error('Queue query error', queueError);
         return new Response(
           JSON.stringify({ error: queueError.message }),
           { status: 400, headers: { 'Content-Type': 'application/json', ...corsHeaders(origin) } },
@@ -92,7 +177,8 @@ Deno.serve(async (req) => {
       return new Response(JSON.stringify({
         queue_items: queueData,
         stats: stats,
-        total_count: queueData?.length || 0
+        total_count: queueData?.length || 0,
+        filters_applied: filters
       }), {
         headers: { 'Content-Type': 'application/json', ...corsHeaders(origin) },
       });
@@ -104,28 +190,42 @@ Deno.serve(async (req) => {
       if (!Number.isFinite(daysAhead) || daysAhead < 0) daysAhead = 7;
       if (daysAhead > 365) daysAhead = 365; // hard cap to prevent abuse
 
+      // Query bounds cover every owner's "today"; each item is then checked in its owner's time zone
+      const now = new Date();
+      const range = widestDateRangeBounds(daysAhead, now);
+
       const { data, error } = await supabase
         .from('food_items')
-        .select('id, name, quantity, unit, expiration_date, category, image_url')
-        .gte('expiration_date', new Date().toISOString().split('T')[0])
-        .lte('expiration_date', new Date(Date.now() + daysAhead * 24 * 60 * 60 * 1000).toISOString().split('T')[0])
+        .select('id, user_id, name, quantity, unit, expiration_date, category, image_url')
+        .eq('status', 'active')
+        .gte('expiration_date', range.start)
+        .lte('expiration_date', range.end)
         .order('expiration_date', { ascending: true })
         .order('name', { ascending: true });
 
       if (error) {
-        console.error('Query error:', error);
+        log.error('Query error', error);
         return new Response(
           JSON.stringify({ error: error.message }),
           { status: 400, headers: { 'Content-Type': 'application/json', ...corsHeaders(origin) } },
         );
       }
 
-      return new Response(JSON.stringify({ items: data, days_ahead: daysAhead }), {
+      const rows: { user_id: string; expiration_date: string }[] = data || [];
+      const timezones = await loadUserTimezones(supabase, [...new Set(rows.map(row => row.user_id))]);
+      const items = rows
+        .filter(row => {
+          const days = daysUntil(row.expiration_date, timezones.get(row.user_id), now);
+          return days >= 0 && days <= daysAhead;
+        })
+        .map(({ user_id: _userId, ...item }) => item);
+
+      return new Response(JSON.stringify({ items, days_ahead: daysAhead }), {
         headers: { 'Content-Type': 'application/json', ...corsHeaders(origin) },
       });
     }
   } catch (err) {
-    console.error('Unhandled error:', err);
+    log.error('Unhandled error', err);
     return new Response(JSON.stringify({ error: 'Internal Server Error' }), {
       status: 500,
       headers: { 'Content-Type': 'application/json', ...corsHeaders(null) },
@@ -1,39 +1,33 @@
 import { serve } from "https://deno.land/std/http/server.ts";
-import { Bot } from "https://deno.land/x/grammy@v1.36.3/mod.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { formatDate } from '../_shared/format.ts';
+import { correlationIdFrom, initLogger, Logger } from '../_shared/logger.ts';
+import { flushMetrics, recordRejectedWebhook } from '../_shared/metrics.ts';
+import { dispatchQueueNotification } from '../_shared/notification-dispatcher.ts';
+import { loadNotificationPreferences, shouldSendImmediately } from '../_shared/user-preferences.ts';
+import { verifyDatabaseWebhook } from '../_shared/webhook-auth.ts';
+
+const logger = initLogger('handle-webhook-callback');
 
 // Environment variables
 const token = Deno.env.get('TELEGRAM_BOT_TOKEN') || '';
-const bot = new Bot(token);
 
 // Initialize Supabase client
 const supabaseUrl = Deno.env.get('SUPABASE_URL');
 const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
 if (!supabaseUrl || !supabaseKey) {
-  console.error('Missing Supabase environment variables');
+  logger.error('Missing Supabase environment variables');
 }
 
 const supabase = createClient(supabaseUrl || '', supabaseKey || '');
 
-// Logging helper
-const logger = {
-  info: (message: string, data?: any) => {
-    console.log(`[handle-webhook-callback] ${message}`, data ? JSON.stringify(data, null, 2) : '');
-  },
-  error: (message: string, error?: any) => {
-    console.error(`[handle-webhook-callback] ERROR: ${message}`, error?.message || error);
-  },
-  warn: (message: string, data?: any) => {
-    console.warn(`[handle-webhook-callback] WARNING: ${message}`, data ? JSON.stringify(data, null, 2) : '');
-  }
-};
-
 // Initialize logging
 logger.info('Function initialized', {
   hasToken: !!token,
   hasSupabaseUrl: !!supabaseUrl,
-  hasSupabaseKey: !!supabaseKey
+  hasSupabaseKey: !!supabaseKey,
+  hasWebhookSecret: !!Deno.env.get('DATABASE_WEBHOOK_SECRET')
 });
 
 interface FoodItemRecord {
@@ -47,262 +41,176 @@ interface FoodItemRecord {
   item_name: string;
   created_at: string;
   updated_at: string;
+  item_type: string;
+  item_id: string;
   food_item_id?: string;
   cosmetic_id?: string;
   processed_at: string | null;
   scheduled_at: string;
   expiration_date: string;
+  expiration_estimated?: boolean;
+  location?: string | null;
   days_until_expiry: number;
   notification_priority: string;
+  correlation_id?: string;
 }
 
-// Helper function to format date to dd/mm/yyyy
-function formatDate(dateString: string): string {
-  try {
-    const date = new Date(dateString);
-    const day = String(date.getDate()).padStart(2, '0');
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const year = date.getFullYear();
-    return `${day}/${month}/${year}`;
-  } catch (error) {
-    logger.warn('Failed to format date, using original', { dateString, error });
-    return dateString; // Fallback to original if parsing fails
-  }
-}
-
-function formatTelegramMessage(record: FoodItemRecord): string {
-  const { item_name, category, quantity, unit, expiration_date, days_until_expiry, notification_priority } = record;
-
-  const priorityEmoji = notification_priority === 'urgent' ? '🚨' : '⚠️';
-  const categoryEmoji = {
-    'snacks': '🍪',
-    'dairy': '🥛',
-    'meat': '🥩',
-    'vegetables': '🥕',
-    'fruits': '🍎',
-    'beverages': '🥤',
-    'cosmetics': '💄',
-    'other': '📦'
-  }[category] || '📦';
-
-  // Format expiration_date to dd/mm/yyyy
-  const formattedExpirationDate = formatDate(expiration_date);
-
-  logger.info('Date formatting', {
-    original: expiration_date,
-    formatted: formattedExpirationDate
-  });
-
-  return `${priorityEmoji} *Item is coming date ${formattedExpirationDate}*
-
-${categoryEmoji} *Item:* ${item_name}
-📊 *Quantity:* ${quantity} ${unit}
-📅 *Expires:* ${formattedExpirationDate}
-⏰ *Days until expiry:* ${days_until_expiry}
-
-Category: ${category.charAt(0).toUpperCase() + category.slice(1)}`;
-}
-
-async function sendTelegramNotification(record: FoodItemRecord): Promise<void> {
-  // Determine item type and ID
-  const isFoodItem = !!record.food_item_id;
-  const isCosmeticItem = !!record.cosmetic_id;
-  const itemId = record.food_item_id || record.cosmetic_id;
-
-  logger.info('Starting Telegram notification', {
-    item_type: isFoodItem ? 'food' : 'cosmetic',
-    food_item_id: record.food_item_id,
-    cosmetic_id: record.cosmetic_id,
-    chat_id: record.chat_id,
-    item_name: record.item_name
+async function sendTelegramNotification(record: FoodItemRecord, log: Logger): Promise<void> {
+  log.info('Starting Telegram notification', {
+    item_type: record.item_type,
+    item_id: record.item_id,
+    chat_id: record.chat_id
   });
 
   if (!token) {
-    logger.warn('TELEGRAM_BOT_TOKEN is missing - cannot send notification');
+    log.warn('TELEGRAM_BOT_TOKEN is missing - cannot send notification');
     return;
   }
 
-  try {
-    let imageUrl: string | null = null;
-    let fetchError: any = null;
-
-    // Fetch image_url from appropriate table
-    if (isFoodItem && record.food_item_id) {
-      logger.info('Fetching image_url from food_items table', { food_item_id: record.food_item_id });
-      const { data, error } = await supabase
-        .from('food_items')
-        .select('image_url')
-        .eq('id', record.food_item_id)
-        .single();
-
-      imageUrl = data?.image_url || null;
-      fetchError = error;
-    } else if (isCosmeticItem && record.cosmetic_id) {
-      logger.info('Fetching image_url from cosmetics table', { cosmetic_id: record.cosmetic_id });
-      const { data, error } = await supabase
-        .from('cosmetics')
-        .select('image_url')
-        .eq('id', record.cosmetic_id)
-        .single();
+  // Shared with process-expiring-queue: the dispatcher renders the canonical message and
+  // makes sure the row is delivered only once, whichever entry point gets there first
+  const result = await dispatchQueueNotification(supabase, record, 'webhook');
 
-      imageUrl = data?.image_url || null;
-      fetchError = error;
-    }
-
-    if (fetchError) {
-      logger.error('Failed to fetch item image_url', {
-        item_type: isFoodItem ? 'food' : 'cosmetic',
-        item_id: itemId,
-        error: fetchError
-      });
-    }
-
-    const message = formatTelegramMessage(record);
-    logger.info('Formatted message', {
-      messageLength: message.length,
-      hasImage: !!imageUrl,
-      item_type: isFoodItem ? 'food' : 'cosmetic'
+  if (!result.success) {
+    // The row stays pending, so process-expiring-queue retries it on its next run
+    log.warn('Notification not delivered by webhook', {
+      in_progress: !!result.inProgress,
+      error: result.error,
+      error_code: result.errorCode
     });
+    return;
+  }
 
-    // Send photo if image_url exists, otherwise send text message
-    if (imageUrl) {
-      logger.info('Sending photo message', {
-        chat_id: record.chat_id,
-        item_type: isFoodItem ? 'food' : 'cosmetic',
-        image_url: imageUrl.substring(0, 50) + '...' // Log partial URL for privacy
-      });
-
-      const result = await bot.api.sendPhoto(record.chat_id, imageUrl, {
-        caption: message,
-        parse_mode: 'Markdown'
-      });
-
-      logger.info('Photo message sent successfully', {
-        chat_id: record.chat_id,
-        message_id: result.message_id,
-        item_type: isFoodItem ? 'food' : 'cosmetic'
-      });
-    } else {
-      logger.info('Sending text message (no image available)', {
-        chat_id: record.chat_id,
-        item_type: isFoodItem ? 'food' : 'cosmetic',
-        reason: fetchError ? 'fetch_error' : 'no_image_url'
-      });
-
-      const result = await bot.api.sendMessage(record.chat_id, message, {
-        parse_mode: 'Markdown'
-      });
+  log.info(result.duplicate ? 'Notification already delivered' : 'Notification sent successfully', {
+    message_id: result.messageId
+  });
 
-      logger.info('Text message sent successfully', {
-        chat_id: record.chat_id,
-        message_id: result.message_id,
-        item_type: isFoodItem ? 'food' : 'cosmetic'
-      });
-    }
-  } catch (error) {
-    logger.error('Failed to send Telegram notification', {
-      item_type: isFoodItem ? 'food' : 'cosmetic',
-      item_id: itemId,
-      error
-    });
-    // Don't throw - we don't want webhook processing to fail due to notification issues
+  // Mark the row sent unless a worker has already claimed it; the worker then finds the
+  // delivery record and marks it sent without resending
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('expiring_items_queue')
+    .update({ status: 'sent', processed_at: now, updated_at: now })
+    .eq('id', record.id)
+    .eq('status', 'pending');
+
+  if (error) {
+    log.error('Failed to mark queue item as sent', error);
   }
 }
 
 serve(async (req) => {
   const startTime = Date.now();
-  logger.info('=== New request received ===');
-  logger.info('Request details', {
-    method: req.method,
-    url: req.url,
-    headers: Object.fromEntries(req.headers.entries())
-  });
+  const requestId = correlationIdFrom(req);
+  let log = logger.child({ correlation_id: requestId });
+  log.debug('Request received', { method: req.method });
 
   if (req.method !== "POST") {
-    logger.warn('Invalid method', { method: req.method, allowed: 'POST' });
+    log.warn('Invalid method', { method: req.method, allowed: 'POST' });
     return new Response("Method Not Allowed", { status: 405 });
   }
 
+  // Only the signed queue trigger (or a webhook holding the shared secret) may make this
+  // function message a chat
+  const rawBody = await req.text();
+  const authFailure = await verifyDatabaseWebhook(req, rawBody);
+  if (authFailure) {
+    log.warn('Rejected unauthenticated webhook', { reason: authFailure });
+    recordRejectedWebhook('handle-webhook-callback', authFailure);
+    await flushMetrics(supabase);
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
   let payload;
   try {
-    payload = await req.json();
-    logger.info('Payload parsed successfully', {
+    payload = JSON.parse(rawBody);
+    log.debug('Payload parsed successfully', {
       payloadSize: JSON.stringify(payload).length,
       hasRecord: !!payload.record,
       hasOldRecord: !!payload.old_record
     });
   } catch (err) {
-    logger.error('Failed to parse JSON payload', err);
+    log.error('Failed to parse JSON payload', err);
     return new Response("Bad Request: invalid JSON", { status: 400 });
   }
 
   // Extract webhook data
   const { type, table, schema, record, old_record } = payload;
 
-  logger.info('Expiring items queue webhook event', {
+  // Queue rows carry the correlation ID of the run that queued them
+  if (record?.id) {
+    log = logger.child({ correlation_id: record.correlation_id || requestId, queue_id: record.id });
+  }
+
+  log.info('Expiring items queue webhook event', {
     type,
     table,
     schema,
-    recordId: record?.id,
     oldRecordId: old_record?.id,
     isExpiringQueueEvent: table === 'expiring_items_queue'
   });
 
-  // Log record details for debugging
   if (record) {
-    logger.info('New record details', {
-      id: record.id,
-      item_name: record.item_name,
+    log.debug('New record details', {
+      item_type: record.item_type,
+      item_id: record.item_id,
       category: record.category,
       chat_id: record.chat_id,
-      food_item_id: record.food_item_id,
-      cosmetic_id: record.cosmetic_id,
-      expiration_date: record.expiration_date,
-      formatted_expiration_date: formatDate(record.expiration_date),
+      expiration_date: formatDate(record.expiration_date),
       days_until_expiry: record.days_until_expiry
     });
   }
 
-  if (old_record) {
-    logger.info('Old record details', {
-      id: old_record.id,
-      item_name: old_record.item_name,
-      category: old_record.category
-    });
+  // Users in digest mode get this row in their next digest from process-expiring-queue instead
+  let isDigestDelivery = false;
+  if (record?.user_id) {
+    const preferences = await loadNotificationPreferences(supabase, [record.user_id]);
+    const userPreferences = preferences.get(record.user_id);
+    isDigestDelivery = !!userPreferences && !shouldSendImmediately(userPreferences, record.notification_priority);
   }
 
+  // Rows scheduled for the user's delivery time are left to process-expiring-queue
+  const isScheduledLater = !!record?.scheduled_at && new Date(record.scheduled_at).getTime() > Date.now();
+
   // Check if we should send notification
-  const shouldSendNotification = record && type === 'INSERT' && table === 'expiring_items_queue' && record.chat_id;
+  const shouldSendNotification = record && type === 'INSERT' && table === 'expiring_items_queue' && record.chat_id &&
+    !isDigestDelivery && !isScheduledLater;
 
-  logger.info('Notification decision', {
+  log.debug('Notification decision', {
     hasRecord: !!record,
     isInsert: type === 'INSERT',
     isExpiringQueueTable: table === 'expiring_items_queue',
     hasChatId: !!record?.chat_id,
+    isDigestDelivery,
+    isScheduledLater,
     shouldSendNotification
   });
 
   // Send Telegram notification if this is a new expiring item record
   if (shouldSendNotification) {
     try {
-      logger.info('Sending Telegram notification...');
-      await sendTelegramNotification(record as FoodItemRecord);
-      logger.info('Telegram notification completed');
+      await sendTelegramNotification(record as FoodItemRecord, log);
     } catch (error) {
-      logger.error('Error in sendTelegramNotification', error);
+      log.error('Error in sendTelegramNotification', error);
       // Continue processing even if notification fails
     }
+    await flushMetrics(supabase);
   } else {
-    logger.info('Skipping Telegram notification', {
+    log.info('Skipping Telegram notification', {
       reason: !record ? 'no_record' :
               type !== 'INSERT' ? 'not_insert' :
               table !== 'expiring_items_queue' ? 'not_expiring_items_queue_table' :
-              !record.chat_id ? 'no_chat_id' : 'unknown'
+              !record.chat_id ? 'no_chat_id' :
+              isDigestDelivery ? 'digest_mode' :
+              isScheduledLater ? 'scheduled_later' : 'unknown'
     });
   }
 
   const processingTime = Date.now() - startTime;
-  logger.info('=== Request completed ===', {
+  log.info('Request completed', {
     processingTimeMs: processingTime,
     status: 'success'
   });
@@ -0,0 +1,247 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import {
+  LATENCY_BUCKETS,
+  SEND_RESULTS_METRIC,
+  TELEGRAM_LATENCY_METRIC,
+  WEBHOOK_REJECTED_METRIC,
+  WORKER_ITEMS_METRIC,
+  WORKER_RUNS_METRIC,
+  WorkerName,
+} from '../_shared/metrics.ts';
+import { initLogger } from '../_shared/logger.ts';
+
+const logger = initLogger('pipeline-metrics');
+logger.info('Function ready to serve metrics');
+
+// Initialize Supabase client
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+if (!supabaseUrl || !supabaseKey) {
+  logger.error('Missing Supabase environment variables');
+  Deno.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+// Optional: token for the Prometheus scraper, so it does not need the service role key
+const metricsToken = Deno.env.get('METRICS_TOKEN');
+
+const WORKERS: WorkerName[] = ['populate-expiring-queue', 'process-expiring-queue'];
+
+interface QueueDepthRow {
+  status: string;
+  notification_priority: string;
+  count: number;
+  oldest_scheduled_at: string | null;
+}
+
+interface CounterRow {
+  name: string;
+  labels: Record<string, string>;
+  value: number;
+}
+
+interface WorkerRunRow {
+  worker: string;
+  started_at: string;
+  finished_at: string;
+  success: boolean;
+  stats: Record<string, number>;
+}
+
+// HELP text of the counter families stored in pipeline_metric_counters
+const COUNTER_HELP: Record<string, string> = {
+  [SEND_RESULTS_METRIC]: 'Notification delivery attempts by kind, entry point and result class',
+  [WORKER_RUNS_METRIC]: 'Worker runs by outcome',
+  [WORKER_ITEMS_METRIC]: 'Per-run totals of the notification workers, summed over all runs',
+  [WEBHOOK_REJECTED_METRIC]: 'Webhook requests rejected as unauthenticated, by function and reason',
+};
+
+function authenticateRequest(req: Request): boolean {
+  const header = req.headers.get('Authorization');
+  if (!header?.startsWith('Bearer ')) return false;
+  const token = header.substring('Bearer '.length);
+  return token === supabaseKey || (!!metricsToken && token === metricsToken);
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatSample(name: string, labels: Record<string, string>, value: number): string {
+  const entries = Object.entries(labels);
+  const labelText = entries.length > 0
+    ? `{${entries.map(([key, labelValue]) => `${key}="${escapeLabelValue(labelValue)}"`).join(',')}}`
+    : '';
+  return `${name}${labelText} ${Number.isFinite(value) ? value : 0}`;
+}
+
+function family(name: string, type: 'counter' | 'gauge' | 'histogram', help: string, samples: string[]): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`, ...samples];
+}
+
+function renderQueueMetrics(rows: QueueDepthRow[], now: Date): string[] {
+  const depth = rows.map(row =>
+    formatSample('expiry_queue_depth', { status: row.status, priority: row.notification_priority }, Number(row.count))
+  );
+
+  // Time the longest-waiting due row has been waiting; 0 when nothing pending is due yet
+  const oldestPending = rows
+    .filter(row => row.status === 'pending' && row.oldest_scheduled_at)
+    .map(row => new Date(row.oldest_scheduled_at!).getTime())
+    .reduce((oldest, scheduled) => Math.min(oldest, scheduled), Infinity);
+  const oldestAge = Number.isFinite(oldestPending) ? Math.max((now.getTime() - oldestPending) / 1000, 0) : 0;
+
+  return [
+    ...family('expiry_queue_depth', 'gauge', 'Queue rows by status and priority', depth),
+    ...family('expiry_queue_oldest_pending_age_seconds', 'gauge', 'Seconds the oldest due pending row has been waiting',
+      [formatSample('expiry_queue_oldest_pending_age_seconds', {}, Math.round(oldestAge))]),
+  ];
+}
+
+function renderCounters(rows: CounterRow[]): string[] {
+  const lines: string[] = [];
+
+  for (const [name, help] of Object.entries(COUNTER_HELP)) {
+    const samples = rows
+      .filter(row => row.name === name)
+      .map(row => formatSample(name, row.labels, Number(row.value)));
+    lines.push(...family(name, 'counter', help, samples));
+  }
+
+  // Every bucket is written for each method, including ones no request has fallen into yet
+  const value = (suffix: string, labels: Record<string, string>) =>
+    Number(rows.find(row =>
+      row.name === `${TELEGRAM_LATENCY_METRIC}_${suffix}` &&
+      Object.entries(labels).every(([key, labelValue]) => row.labels[key] === labelValue)
+    )?.value ?? 0);
+
+  const methods = [...new Set(
+    rows.filter(row => row.name === `${TELEGRAM_LATENCY_METRIC}_count`).map(row => row.labels.method)
+  )].sort();
+
+  const histogram = methods.flatMap(method => [
+    ...[...LATENCY_BUCKETS.map(String), '+Inf'].map(le =>
+      formatSample(`${TELEGRAM_LATENCY_METRIC}_bucket`, { method, le }, value('bucket', { method, le }))
+    ),
+    formatSample(`${TELEGRAM_LATENCY_METRIC}_sum`, { method }, value('sum', { method })),
+    formatSample(`${TELEGRAM_LATENCY_METRIC}_count`, { method }, value('count', { method })),
+  ]);
+
+  lines.push(...family(TELEGRAM_LATENCY_METRIC, 'histogram', 'Latency of Telegram API requests by method', histogram));
+  return lines;
+}
+
+function renderLastRuns(runs: WorkerRunRow[]): string[] {
+  const timestamps: string[] = [];
+  const durations: string[] = [];
+  const successes: string[] = [];
+  const stats: string[] = [];
+
+  for (const run of runs) {
+    const labels = { worker: run.worker };
+    const finishedAt = new Date(run.finished_at).getTime();
+    timestamps.push(formatSample('expiry_worker_last_run_timestamp_seconds', labels, Math.round(finishedAt / 1000)));
+    durations.push(formatSample('expiry_worker_last_run_duration_seconds', labels,
+      (finishedAt - new Date(run.started_at).getTime()) / 1000));
+    successes.push(formatSample('expiry_worker_last_run_success', labels, run.success ? 1 : 0));
+    for (const [stat, value] of Object.entries(run.stats || {})) {
+      stats.push(formatSample('expiry_worker_last_run_items', { ...labels, stat }, Number(value)));
+    }
+  }
+
+  return [
+    ...family('expiry_worker_last_run_timestamp_seconds', 'gauge', 'When the latest run of the worker finished', timestamps),
+    ...family('expiry_worker_last_run_duration_seconds', 'gauge', 'How long the latest run of the worker took', durations),
+    ...family('expiry_worker_last_run_success', 'gauge', 'Whether the latest run of the worker succeeded (1) or failed (0)', successes),
+    ...family('expiry_worker_last_run_items', 'gauge', 'Totals of the latest run of the worker', stats),
+  ];
+}
+
+async function loadLastRuns(): Promise<WorkerRunRow[]> {
+  const runs: WorkerRunRow[] = [];
+
+  for (const worker of WORKERS) {
+    const { data, error } = await supabase
+      .from('worker_runs')
+      .select('worker, started_at, finished_at, success, stats')
+      .eq('worker', worker)
+      .order('finished_at', { ascending: false })
+      .limit(1);
+
+    if (error) throw new Error(`Failed to fetch worker runs: ${error.message}`);
+    runs.push(...(data || []) as WorkerRunRow[]);
+  }
+
+  return runs;
+}
+
+// Main function handler
+Deno.serve(async (req) => {
+  if (req.method !== 'GET') {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+      status: 405,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (!authenticateRequest(req)) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const now = new Date();
+
+    const { data: depth, error: depthError } = await supabase.rpc('get_queue_depth');
+    if (depthError) throw new Error(`Failed to fetch queue depth: ${depthError.message}`);
+
+    const { data: counters, error: countersError } = await supabase
+      .from('pipeline_metric_counters')
+      .select('name, labels, value')
+      .order('name', { ascending: true });
+    if (countersError) throw new Error(`Failed to fetch metric counters: ${countersError.message}`);
+
+    const lastRuns = await loadLastRuns();
+
+    const body = [
+      ...renderQueueMetrics((depth || []) as QueueDepthRow[], now),
+      ...renderCounters((counters || []) as CounterRow[]),
+      ...renderLastRuns(lastRuns),
+    ].join('\n') + '\n';
+
+    return new Response(body, {
+      headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' },
+    });
+  } catch (err) {
+    logger.error('Unhandled error in pipeline-metrics', err);
+    const message = err instanceof Error ? err.message : 'Internal Server Error';
+    return new Response(JSON.stringify({
+      error: message,
+      timestamp: new Date().toISOString()
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+/* To invoke locally:
+
+  1. Run `supabase start` (see: https://supabase.com/docs/reference/cli/supabase-start)
+  2. Make an HTTP request:
+
+  curl -i --location --request GET 'http://127.0.0.1:54321/functions/v1/pipeline-metrics' \
+    --header 'Authorization: Bearer <service role key or METRICS_TOKEN>'
+
+  // Response example (abridged):
+  // # HELP expiry_queue_depth Queue rows by status and priority
+  // # TYPE expiry_queue_depth gauge
+  // expiry_queue_depth{status="pending",priority="urgent"} 3
+  // expiry_notification_sends_total{kind="item",source="queue_processor",result="rate_limited"} 2
+  // telegram_api_request_duration_seconds_bucket{method="sendMessage",le="0.25"} 118
+
+*/
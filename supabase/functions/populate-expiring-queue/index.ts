@@ -1,59 +1,65 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
-
-console.log('Function "populate-expiring-queue" ready to populate daily notification queue');
+import { addDays, daysUntil, widestDateRangeBounds } from '../_shared/dates.ts';
+import { fetchTrackedItems, listItemTypes, queueItemReference, TrackedItem } from '../_shared/item-types.ts';
+import { correlationIdFrom, initLogger, Logger } from '../_shared/logger.ts';
+import { recordWorkerRun } from '../_shared/metrics.ts';
+import { computeScheduledAt } from '../_shared/notification-schedule.ts';
+import {
+  getPriorityForDays,
+  isWithinReminderHorizon,
+  MAX_REMINDER_HORIZON,
+  resolveThresholds,
+} from '../_shared/priority-thresholds.ts';
+import { loadNotificationPreferences } from '../_shared/user-preferences.ts';
+
+const logger = initLogger('populate-expiring-queue');
+logger.info('Function ready to populate daily notification queue');
 
 // Initialize Supabase client
 const supabaseUrl = Deno.env.get('SUPABASE_URL');
 const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
 if (!supabaseUrl || !supabaseKey) {
-  console.error('Missing Supabase environment variables');
+  logger.error('Missing Supabase environment variables');
   Deno.exit(1);
 }
 
 const supabase = createClient(supabaseUrl, supabaseKey);
 
 // Configuration
-const DEFAULT_DAYS_AHEAD = 7;
 const BATCH_SIZE = 100; // Process items in batches for performance
-
-// Function to determine notification priority based on days until expiry
-function getNotificationPriority(daysUntilExpiry: number): string {
-  if (daysUntilExpiry <= 0) return 'urgent';      // Expires today
-  if (daysUntilExpiry <= 2) return 'high';        // Expires in 1-2 days
-  if (daysUntilExpiry <= 6) return 'medium';      // Expires in 3-6 days
-  return 'low';                                    // Expires in 7+ days
-}
-
-// Function to populate the queue for a specific day range
-async function populateQueueForDayRange(daysAhead: number) {
-  console.log(`Populating queue for items expiring in ${daysAhead} days`);
-
-  // Calculate date range
-  const targetDate = new Date();
-  targetDate.setDate(targetDate.getDate() + daysAhead);
-  const targetDateStr = targetDate.toISOString().split('T')[0];
-
-  console.log(`Target date for ${daysAhead} days ahead: ${targetDateStr}`);
-
-  // First, get all food items expiring on the target date
-  const { data: expiringItems, error: itemsError } = await supabase
-    .from('food_items')
-    .select('id, user_id, name, quantity, unit, expiration_date, category')
-    .eq('expiration_date', targetDateStr)
-    .order('user_id');
-
-  if (itemsError) {
-    console.error('Error fetching expiring items:', itemsError);
-    return { error: itemsError.message };
+// A row is delivered at most two of its owner's days after it is queued: at tomorrow's delivery
+// time, pushed to the end of quiet hours the morning after
+const MAX_DELIVERY_DELAY_DAYS = 2;
+
+// Queues every item within its owner's reminder horizon for the day it is delivered on. The
+// widest window any owner can need is fetched once per item type and split up in memory.
+async function populateQueue(now: Date, log: Logger, correlationId: string) {
+  // "N days from the delivery day" is a different date depending on the owner's time zone,
+  // delivery time and horizon: fetch every candidate date here and work out each item's day
+  // count for its owner
+  const today = widestDateRangeBounds(0, now);
+  const windowEnd = addDays(today.end, MAX_REMINDER_HORIZON + MAX_DELIVERY_DELAY_DAYS);
+
+  log.debug(`Fetching items expiring from ${today.start} to ${windowEnd}`);
+
+  const expiringItems: TrackedItem[] = [];
+  const failedTypes: string[] = [];
+  for (const itemType of listItemTypes()) {
+    try {
+      expiringItems.push(...await fetchTrackedItems(supabase, itemType, { start: today.start, end: windowEnd }));
+    } catch (error) {
+      log.error(`Error fetching expiring ${itemType.type} items`, error);
+      failedTypes.push(itemType.type);
+    }
   }
 
-  if (!expiringItems || expiringItems.length === 0) {
-    console.log(`No items expiring in ${daysAhead} days (${targetDateStr})`);
-    return { processed: 0 };
+  if (expiringItems.length === 0) {
+    log.debug(`No items expiring from ${today.start} to ${windowEnd}`);
+    return { processed: 0, byDays: {}, failedTypes };
   }
 
-  console.log(`Found ${expiringItems.length} items expiring in ${daysAhead} days`);
+  log.info(`Found ${expiringItems.length} items expiring from ${today.start} to ${windowEnd}`);
 
   // Get user chat_ids for all users with expiring items
   const userIds = [...new Set(expiringItems.map(item => item.user_id))];
@@ -65,64 +71,92 @@ async function populateQueueForDayRange(daysAhead: number) {
     .not('chat_id', 'is', null);
 
   if (usersError) {
-    console.error('Error fetching user chat_ids:', usersError);
-    return { error: usersError.message };
+    log.error('Error fetching user chat_ids', usersError);
+    return { error: usersError.message, processed: 0, byDays: {}, failedTypes };
   }
 
   if (!users || users.length === 0) {
-    console.log('No users with chat_ids found for expiring items');
-    return { processed: 0 };
+    log.debug('No users with chat_ids found for expiring items');
+    return { processed: 0, byDays: {}, failedTypes };
   }
 
   // Create user lookup map
   const userMap = new Map(users.map(user => [user.id, user.chat_id]));
 
-  // Prepare queue items
-  const queueItems = expiringItems
-    .filter(item => userMap.has(item.user_id))
-    .map(item => ({
-      food_item_id: item.id,
+  // Schedule each user's rows for their own delivery time, outside their quiet hours
+  const preferences = await loadNotificationPreferences(supabase, [...userMap.keys()] as string[]);
+  const scheduleMap = new Map(
+    [...preferences.entries()].map(([userId, prefs]) => [userId, computeScheduledAt(prefs, now)])
+  );
+
+  const thresholdsFor = (userId: string, category: string) =>
+    resolveThresholds(preferences.get(userId)?.thresholds, category);
+
+  // Prepare queue items, each counting its days from its owner's delivery day and kept only
+  // within the owner's reminder horizon for its category
+  const queueItems = expiringItems.flatMap(item => {
+    if (!userMap.has(item.user_id)) return [];
+
+    const scheduledAt = scheduleMap.get(item.user_id) || now;
+    const daysAhead = daysUntil(item.expiration_date, preferences.get(item.user_id)?.timezone, scheduledAt);
+    const thresholds = thresholdsFor(item.user_id, item.category);
+    if (!isWithinReminderHorizon(daysAhead, thresholds)) return [];
+
+    return [{
+      ...queueItemReference(item),
       user_id: item.user_id,
       chat_id: userMap.get(item.user_id),
       item_name: item.name,
       quantity: item.quantity,
       unit: item.unit,
       expiration_date: item.expiration_date,
+      expiration_estimated: item.details.expiration_estimated === true,
+      location: item.location,
       category: item.category,
       days_until_expiry: daysAhead,
-      notification_priority: getNotificationPriority(daysAhead),
-      scheduled_at: new Date().toISOString(),
-      status: 'pending'
-    }));
+      notification_priority: getPriorityForDays(daysAhead, thresholds),
+      scheduled_at: scheduledAt.toISOString(),
+      status: 'pending',
+      correlation_id: correlationId
+    }];
+  });
 
   if (queueItems.length === 0) {
-    console.log('No valid queue items to insert');
-    return { processed: 0 };
+    log.debug('No valid queue items to insert');
+    return { processed: 0, byDays: {}, failedTypes };
   }
 
   // Insert queue items in batches
   let totalInserted = 0;
+  const byDays: Record<number, number> = {};
   for (let i = 0; i < queueItems.length; i += BATCH_SIZE) {
     const batch = queueItems.slice(i, i + BATCH_SIZE);
 
-    const { error: insertError } = await supabase
+    // Rows already queued for the item and day are left alone: reopening them would resend
+    // delivered reminders and wipe the retry and dead-letter state of failed ones
+    const { data: inserted, error: insertError } = await supabase
       .from('expiring_items_queue')
       .upsert(batch, {
-        onConflict: 'food_item_id,days_until_expiry',
-        ignoreDuplicates: false
-      });
+        onConflict: 'item_type,item_id,days_until_expiry',
+        ignoreDuplicates: true
+      })
+      .select('id, days_until_expiry');
 
     if (insertError) {
-      console.error(`Error inserting batch ${i / BATCH_SIZE + 1}:`, insertError);
-      return { error: insertError.message };
+      log.error(`Error inserting batch ${i / BATCH_SIZE + 1}`, insertError);
+      return { error: insertError.message, processed: totalInserted, byDays, failedTypes };
     }
 
-    totalInserted += batch.length;
-    console.log(`Inserted batch ${i / BATCH_SIZE + 1}: ${batch.length} items`);
+    for (const row of (inserted || []) as { days_until_expiry: number }[]) {
+      byDays[row.days_until_expiry] = (byDays[row.days_until_expiry] || 0) + 1;
+    }
+    const insertedCount = (inserted || []).length;
+    totalInserted += insertedCount;
+    log.debug(`Inserted batch ${i / BATCH_SIZE + 1}: ${insertedCount} new of ${batch.length} items`);
   }
 
-  console.log(`Successfully populated queue with ${totalInserted} items for ${daysAhead} days ahead`);
-  return { processed: totalInserted };
+  log.info(`Successfully populated queue with ${totalInserted} items`);
+  return { processed: totalInserted, byDays, failedTypes };
 }
 
 // Main function handler
@@ -136,8 +170,13 @@ Deno.serve(async (req) => {
     });
   }
 
+  // The run's correlation ID is stored on every row it queues
+  const runId = correlationIdFrom(req);
+  const log = logger.child({ correlation_id: runId });
+  const startedAt = new Date();
+
   try {
-    console.log('Starting daily queue population process');
+    log.info('Starting daily queue population process');
 
     // Clear existing queue items that are more than 7 days old to prevent duplicates
     const cutoffDate = new Date();
@@ -149,44 +188,52 @@ Deno.serve(async (req) => {
       .lt('created_at', cutoffDate.toISOString());
 
     if (cleanupError) {
-      console.error('Error cleaning up old queue items:', cleanupError);
+      log.error('Error cleaning up old queue items', cleanupError);
       // Continue processing despite cleanup error
     } else {
-      console.log('Cleaned up old queue items');
+      log.info('Cleaned up old queue items');
     }
 
-    // Populate queue for different day ranges (0-7 days)
-    const results = [];
-    let totalProcessed = 0;
-
-    for (let days = 0; days <= DEFAULT_DAYS_AHEAD; days++) {
-      const result = await populateQueueForDayRange(days);
-      results.push({ days_ahead: days, ...result });
-
-      if (result.processed) {
-        totalProcessed += result.processed;
-      }
-
-      // Small delay between batches to avoid overwhelming the database
-      if (days < DEFAULT_DAYS_AHEAD) {
-        await new Promise(resolve => setTimeout(resolve, 100));
-      }
-    }
-
-    console.log(`Queue population completed. Total processed: ${totalProcessed}`);
+    // Populate the queue up to the longest configurable reminder horizon in one pass, relative
+    // to one instant; each item is only queued within its owner's horizon for its category
+    const result = await populateQueue(new Date(), log, runId);
+    const failed = !!result.error || result.failedTypes.length > 0;
+
+    log.info(`Queue population completed. Total processed: ${result.processed}`);
+
+    await recordWorkerRun(supabase, {
+      worker: 'populate-expiring-queue',
+      runId,
+      startedAt,
+      success: !failed,
+      stats: { queued: result.processed, failed_types: result.failedTypes.length },
+      error: result.error || (result.failedTypes.length > 0
+        ? `Failed to fetch ${result.failedTypes.join(', ')} items`
+        : undefined)
+    });
 
     return new Response(JSON.stringify({
       success: true,
-      total_processed: totalProcessed,
-      results,
+      total_processed: result.processed,
+      by_days_until_expiry: result.byDays,
+      failed_item_types: result.failedTypes,
+      error: result.error,
       timestamp: new Date().toISOString()
     }), {
       headers: { 'Content-Type': 'application/json' },
     });
 
   } catch (err) {
-    console.error('Unhandled error in populate-expiring-queue:', err);
+    log.error('Unhandled error in populate-expiring-queue', err);
     const message = err instanceof Error ? err.message : 'Internal Server Error';
+    await recordWorkerRun(supabase, {
+      worker: 'populate-expiring-queue',
+      runId,
+      startedAt,
+      success: false,
+      stats: {},
+      error: message
+    });
     return new Response(JSON.stringify({
       success: false,
       error: message,
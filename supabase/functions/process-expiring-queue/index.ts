@@ -1,9 +1,18 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { escapeHtml } from '../_shared/format.ts';
+import { describeDue, resolveQueueItem } from '../_shared/item-types.ts';
+import { correlationIdFrom, initLogger, Logger } from '../_shared/logger.ts';
+import { recordSendResult, recordWorkerRun, timeTelegramRequest } from '../_shared/metrics.ts';
+import { dispatchQueueNotification } from '../_shared/notification-dispatcher.ts';
+import { loadNotificationPreferences, shouldSendImmediately } from '../_shared/user-preferences.ts';
 
 // Type definitions
 interface QueueItem {
   id: string;
-  food_item_id: string;
+  item_type: string;
+  item_id: string;
+  food_item_id?: string | null;
+  cosmetic_id?: string | null;
   user_id: string;
   chat_id: number;
   item_name: string;
@@ -11,6 +20,8 @@ interface QueueItem {
   unit: string;
   category: string;
   expiration_date: string;
+  expiration_estimated?: boolean;
+  location?: string | null;
   days_until_expiry: number;
   notification_priority: 'low' | 'medium' | 'high' | 'urgent';
   scheduled_at: string;
@@ -18,33 +29,53 @@ interface QueueItem {
   created_at: string;
   updated_at: string;
   processed_at?: string;
+  attempt_count: number;
+  next_attempt_at?: string | null;
+  last_error?: string | null;
+  locked_by: string;
+  lease_expires_at: string;
+  correlation_id?: string | null;
 }
 
 interface NotificationResult {
   success: boolean;
+  messageId?: number;
   error?: string;
+  errorCode?: number;   // Telegram error code, when Telegram rejected the request
+  retryAfter?: number;  // Seconds to wait before retrying (Telegram 429)
 }
 
 interface BatchResult {
   processed: number;
   sent: number;
   failed: number;
+  dead: number;
+}
+
+interface DigestResult extends BatchResult {
+  digests: number;
 }
 
 interface UpdateData {
   status: string;
   updated_at: string;
   processed_at?: string;
+  attempt_count?: number;
+  next_attempt_at?: string | null;
+  last_error?: string | null;
+  last_error_code?: number | null;
+  lease_expires_at?: string | null;
 }
 
-console.log('Function "process-expiring-queue" ready to process notification queue');
+const logger = initLogger('process-expiring-queue');
+logger.info('Function ready to process notification queue');
 
 // Initialize Supabase client
 const supabaseUrl = Deno.env.get('SUPABASE_URL');
 const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
 if (!supabaseUrl || !supabaseKey) {
-  console.error('Missing Supabase environment variables');
+  logger.error('Missing Supabase environment variables');
   Deno.exit(1);
 }
 
@@ -54,36 +85,77 @@ const supabase = createClient(supabaseUrl, supabaseKey);
 const BATCH_SIZE = 50; // Process items in batches
 const MAX_RETRIES = 3; // Maximum retry attempts for failed notifications
 const RATE_LIMIT_DELAY = 100; // Delay between individual notifications (ms)
+const RETRY_BASE_DELAY = 60 * 1000; // First retry after ~1 minute, doubling each attempt
+const RETRY_MAX_DELAY = 6 * 60 * 60 * 1000; // Never wait more than 6 hours between attempts
+const CLAIM_LIMIT = 1000; // Maximum rows a single worker claims per run
+const LEASE_SECONDS = 600; // Claimed rows are reclaimed if not finished within 10 minutes
+const IN_PROGRESS_DELAY = 60 * 1000; // Recheck rows another entry point is still delivering after 1 minute
+
+const PRIORITY_ORDER: QueueItem['notification_priority'][] = ['urgent', 'high', 'medium', 'low'];
+
+const PRIORITY_HEADINGS: Record<QueueItem['notification_priority'], string> = {
+  urgent: '🚨 <b>Urgent</b>',
+  high: '⚠️ <b>Use soon</b>',
+  medium: '📅 <b>Coming up</b>',
+  low: '🗓️ <b>Later</b>',
+};
+
+// Entries about a row carry the correlation ID it was queued with and the claiming worker
+function logFor(item: QueueItem): Logger {
+  return logger.child({ correlation_id: item.correlation_id ?? undefined, queue_id: item.id, worker_id: item.locked_by });
+}
 
-// Function to create notification message
-function createNotificationMessage(item: QueueItem): string {
-  const { item_name, quantity, unit, category, days_until_expiry } = item;
+// Function to create one digest message for all of a chat's pending items,
+// grouped by notification priority and then by category
+function createDigestMessage(items: QueueItem[]): string {
+  const sections: string[] = [];
 
-  let message = '';
+  for (const priority of PRIORITY_ORDER) {
+    const priorityItems = items.filter(item => item.notification_priority === priority);
+    if (priorityItems.length === 0) continue;
 
-  if (days_until_expiry === 0) {
-    message = `🚨 ALERT: Your ${quantity} ${unit} of ${item_name} expires TODAY!`;
-  } else if (days_until_expiry === 1) {
-    message = `⚠️ WARNING: Your ${quantity} ${unit} of ${item_name} expires TOMORROW!`;
-  } else {
-    message = `📅 REMINDER: Your ${quantity} ${unit} of ${item_name} expires in ${days_until_expiry} days.`;
-  }
+    const byCategory = new Map<string, QueueItem[]>();
+    for (const item of priorityItems) {
+      byCategory.set(item.category, [...(byCategory.get(item.category) || []), item]);
+    }
 
-  message += `\n📂 Category: ${category}`;
+    const lines = [PRIORITY_HEADINGS[priority]];
+    for (const [category, categoryItems] of [...byCategory.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+      lines.push(`📂 <i>${escapeHtml(category)}</i>`);
+      for (const item of categoryItems.sort((a, b) => a.days_until_expiry - b.days_until_expiry)) {
+        const itemType = resolveQueueItem(item)?.definition;
+        const due = itemType ? describeDue(itemType, item.days_until_expiry).toLowerCase() : `in ${item.days_until_expiry} days`;
+        const amount = itemType && !itemType.quantityColumn ? '' : ` — ${item.quantity} ${escapeHtml(item.unit)}`;
+        const estimated = item.expiration_estimated ? ', estimated' : '';
+        const location = item.location ? `, in ${escapeHtml(item.location)}` : '';
+        lines.push(`  • ${itemType?.emoji || '📦'} ${escapeHtml(item.item_name)}${amount} (${due}${estimated}${location})`);
+      }
+    }
+    sections.push(lines.join('\n'));
+  }
 
-  return message;
+  return `📋 <b>Expiry digest</b> — ${items.length} item${items.length === 1 ? '' : 's'}\n\n` +
+    sections.join('\n\n') +
+    `\n\nUse /expiring to act on these items.`;
 }
 
-// Function to send notification via telegram-send Edge Function
-async function sendTelegramNotification(chatId: string, message: string, itemId: string): Promise<NotificationResult> {
+// Function to send a digest via telegram-send Edge Function. Per-item notifications go
+// through the shared dispatcher instead.
+async function sendTelegramNotification(
+  chatId: string,
+  message: string,
+  log: Logger,
+  correlationId: string
+): Promise<NotificationResult> {
   try {
     const edgeFunctionUrl = `${supabaseUrl}/functions/v1/telegram-send`;
 
-    const response = await fetch(edgeFunctionUrl, {
+    const response = await timeTelegramRequest('telegram-send', () => fetch(edgeFunctionUrl, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
         'Authorization': `Bearer ${supabaseKey}`,
+        'X-Correlation-ID': correlationId,
       },
       body: JSON.stringify({
         chat_id: chatId,
@@ -91,28 +163,35 @@ async function sendTelegramNotification(chatId: string, message: string, itemId:
         parse_mode: 'HTML',
         source: 'queue_processor'
       }),
-    });
+    }));
 
     const result = await response.json();
 
     if (result.ok) {
-      console.log(`Successfully sent notification to chat ${chatId} for item ${itemId}`);
-      return { success: true };
+      log.info('Digest sent', { message_id: result.result?.message_id });
+      return { success: true, messageId: result.result?.message_id };
     } else {
-      console.error(`Failed to send notification to chat ${chatId}: ${result.error}`);
-      return { success: false, error: result.error };
+      log.error('Failed to send digest', { error: result.error, error_code: result.error_code });
+      return {
+        success: false,
+        error: result.error,
+        errorCode: result.error_code,
+        retryAfter: result.retry_after
+      };
     }
   } catch (error) {
-    console.error(`Error sending notification to chat ${chatId}:`, error);
+    log.error('Error sending digest', error);
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
   }
 }
 
-// Function to update queue item status
-async function updateQueueItemStatus(itemId: string, status: string, processedAt?: string) {
+// Function to update queue item status. Updates only apply while this worker still
+// holds the row's lease, so a reclaimed row is never overwritten by a late worker.
+async function updateQueueItemStatus(item: QueueItem, status: string, processedAt?: string) {
   const updateData: UpdateData = {
     status,
-    updated_at: new Date().toISOString()
+    updated_at: new Date().toISOString(),
+    lease_expires_at: null
   };
 
   if (processedAt) {
@@ -122,11 +201,80 @@ async function updateQueueItemStatus(itemId: string, status: string, processedAt
   const { error } = await supabase
     .from('expiring_items_queue')
     .update(updateData)
-    .eq('id', itemId);
+    .eq('id', item.id)
+    .eq('locked_by', item.locked_by);
+
+  if (error) {
+    logFor(item).error('Error updating queue item', error);
+  }
+}
+
+// Function to hand a row back to the queue without counting an attempt, used while the
+// webhook is still delivering the same row
+async function deferQueueItem(item: QueueItem) {
+  const { error } = await supabase
+    .from('expiring_items_queue')
+    .update({
+      status: 'pending',
+      updated_at: new Date().toISOString(),
+      lease_expires_at: null,
+      next_attempt_at: new Date(Date.now() + IN_PROGRESS_DELAY).toISOString()
+    })
+    .eq('id', item.id)
+    .eq('locked_by', item.locked_by);
+
+  if (error) {
+    logFor(item).error('Error deferring queue item', error);
+  }
+}
+
+// Telegram errors that retrying cannot fix: 403 (bot blocked, user deactivated) and
+// 400 (chat not found, malformed message)
+function isPermanentFailure(result: NotificationResult): boolean {
+  return result.errorCode === 403 || result.errorCode === 400;
+}
+
+// Exponential backoff with jitter; Telegram's retry_after wins when it asks for longer
+function getRetryDelay(attempt: number, retryAfter?: number): number {
+  const backoff = Math.min(RETRY_BASE_DELAY * 2 ** (attempt - 1), RETRY_MAX_DELAY);
+  const jittered = backoff / 2 + Math.random() * (backoff / 2);
+  return retryAfter ? Math.max(retryAfter * 1000, jittered) : jittered;
+}
+
+// Function to record a failed delivery: schedules a retry, or moves the row to 'dead'
+async function recordDeliveryFailure(item: QueueItem, result: NotificationResult): Promise<'failed' | 'dead'> {
+  const attemptCount = (item.attempt_count || 0) + 1;
+  const status = isPermanentFailure(result) || attemptCount > MAX_RETRIES ? 'dead' : 'failed';
+  const now = new Date();
+
+  const updateData: UpdateData = {
+    status,
+    updated_at: now.toISOString(),
+    attempt_count: attemptCount,
+    last_error: result.error || 'Unknown error',
+    last_error_code: result.errorCode ?? null,
+    lease_expires_at: null,
+    next_attempt_at: status === 'failed'
+      ? new Date(now.getTime() + getRetryDelay(attemptCount, result.retryAfter)).toISOString()
+      : null
+  };
+
+  if (status === 'dead') {
+    updateData.processed_at = now.toISOString();
+    logFor(item).error(`Queue item is dead after ${attemptCount} attempt(s)`, { error: updateData.last_error });
+  }
+
+  const { error } = await supabase
+    .from('expiring_items_queue')
+    .update(updateData)
+    .eq('id', item.id)
+    .eq('locked_by', item.locked_by);
 
   if (error) {
-    console.error(`Error updating queue item ${itemId}:`, error);
+    logFor(item).error('Error recording failure for queue item', error);
   }
+
+  return status;
 }
 
 // Function to process a batch of queue items
@@ -134,29 +282,28 @@ async function processQueueBatch(items: QueueItem[]): Promise<BatchResult> {
   let processed = 0;
   let sent = 0;
   let failed = 0;
+  let dead = 0;
 
   for (const item of items) {
     try {
-      // Mark as processing
-      await updateQueueItemStatus(item.id, 'processing');
-
-      // Create notification message
-      const message = createNotificationMessage(item);
-
-      // Send notification
-      const notificationResult = await sendTelegramNotification(
-        item.chat_id.toString(),
-        message,
-        item.food_item_id
-      );
+      // Send through the shared dispatcher; rows the webhook already delivered are not resent
+      const notificationResult = await dispatchQueueNotification(supabase, item, 'queue_processor');
 
       if (notificationResult.success) {
-        await updateQueueItemStatus(item.id, 'sent', new Date().toISOString());
-        sent++;
+        await updateQueueItemStatus(item, 'sent', new Date().toISOString());
+        if (!notificationResult.duplicate) sent++;
+      } else if (notificationResult.inProgress) {
+        await deferQueueItem(item);
       } else {
-        console.error(`Failed to send notification for item ${item.id}: ${notificationResult.error}`);
-        await updateQueueItemStatus(item.id, 'failed');
-        failed++;
+        logFor(item).warn('Failed to send notification', {
+          error: notificationResult.error,
+          error_code: notificationResult.errorCode
+        });
+        if (await recordDeliveryFailure(item, notificationResult) === 'dead') {
+          dead++;
+        } else {
+          failed++;
+        }
       }
 
       processed++;
@@ -167,14 +314,93 @@ async function processQueueBatch(items: QueueItem[]): Promise<BatchResult> {
       }
 
     } catch (error) {
-      console.error(`Error processing queue item ${item.id}:`, error);
-      await updateQueueItemStatus(item.id, 'failed');
-      failed++;
+      logFor(item).error('Error processing queue item', error);
+      const status = await recordDeliveryFailure(item, {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      if (status === 'dead') {
+        dead++;
+      } else {
+        failed++;
+      }
       processed++;
     }
   }
 
-  return { processed, sent, failed };
+  return { processed, sent, failed, dead };
+}
+
+// Function to send one digest per chat and mark all covered rows as sent together
+async function processDigests(items: QueueItem[], log: Logger, correlationId: string): Promise<DigestResult> {
+  const result: DigestResult = { processed: 0, sent: 0, failed: 0, dead: 0, digests: 0 };
+
+  const byChat = new Map<number, QueueItem[]>();
+  for (const item of items) {
+    byChat.set(item.chat_id, [...(byChat.get(item.chat_id) || []), item]);
+  }
+
+  for (const [chatId, chatItems] of byChat) {
+    const ids = chatItems.map(item => item.id);
+    const digestLog = log.child({ chat_id: chatId, queue_ids: ids });
+    result.processed += chatItems.length;
+    let notificationResult: NotificationResult;
+
+    try {
+      notificationResult = await sendTelegramNotification(
+        chatId.toString(),
+        createDigestMessage(chatItems),
+        digestLog,
+        correlationId
+      );
+    } catch (error) {
+      notificationResult = { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+    recordSendResult('digest', 'queue_processor', notificationResult);
+
+    if (notificationResult.success) {
+      const { data: digest, error: digestError } = await supabase
+        .from('notification_digests')
+        .insert({
+          user_id: chatItems[0].user_id,
+          chat_id: chatId,
+          message_id: notificationResult.messageId,
+          item_count: chatItems.length,
+        })
+        .select('id')
+        .single();
+
+      if (digestError) {
+        digestLog.error('Error recording digest', digestError);
+      }
+
+      const now = new Date().toISOString();
+      const { error: updateError } = await supabase
+        .from('expiring_items_queue')
+        .update({ status: 'sent', processed_at: now, updated_at: now, lease_expires_at: null, digest_id: digest?.id || null })
+        .in('id', ids)
+        .eq('locked_by', chatItems[0].locked_by);
+
+      if (updateError) {
+        digestLog.error('Error marking digest rows as sent', updateError);
+      }
+
+      result.sent += chatItems.length;
+      result.digests++;
+    } else {
+      for (const item of chatItems) {
+        if (await recordDeliveryFailure(item, notificationResult) === 'dead') {
+          result.dead++;
+        } else {
+          result.failed++;
+        }
+      }
+    }
+
+    await new Promise(resolve => setTimeout(resolve, RATE_LIMIT_DELAY));
+  }
+
+  return result;
 }
 
 // Main function handler
@@ -188,20 +414,44 @@ Deno.serve(async (req) => {
     });
   }
 
+  // Each run gets its own worker ID; rows it claims are leased to it
+  const workerId = `worker-${crypto.randomUUID()}`;
+  const startedAt = new Date();
+  const correlationId = correlationIdFrom(req);
+  const log = logger.child({ correlation_id: correlationId, worker_id: workerId });
+
   try {
-    console.log('Starting queue processing');
+    log.info('Starting queue processing');
 
-    // Get pending queue items ordered by priority and scheduled time
+    // Return rows whose lease lapsed (crashed or timed-out workers) to the retry path
+    const { data: reclaimed, error: reclaimError } = await supabase
+      .rpc('reclaim_expired_queue_leases', { p_max_retries: MAX_RETRIES });
+
+    if (reclaimError) {
+      log.error('Error reclaiming expired queue leases', reclaimError);
+    } else if (reclaimed > 0) {
+      log.info(`Reclaimed ${reclaimed} queue items with expired leases`);
+    }
+
+    // Atomically claim due pending/failed items (urgent first, then by scheduled time);
+    // overlapping runs skip rows another worker has already claimed
     const { data: queueItems, error: fetchError } = await supabase
-      .from('expiring_items_queue')
-      .select('*')
-      .eq('status', 'pending')
-      .order('notification_priority', { ascending: false }) // urgent first
-      .order('scheduled_at', { ascending: true }) // then by scheduled time
-      .limit(1000); // Process up to 1000 items at a time
+      .rpc('claim_expiring_queue_items', {
+        p_worker_id: workerId,
+        p_limit: CLAIM_LIMIT,
+        p_lease_seconds: LEASE_SECONDS
+      });
 
     if (fetchError) {
-      console.error('Error fetching queue items:', fetchError);
+      log.error('Error claiming queue items', fetchError);
+      await recordWorkerRun(supabase, {
+        worker: 'process-expiring-queue',
+        runId: workerId,
+        startedAt,
+        success: false,
+        stats: { reclaimed: reclaimed || 0 },
+        error: fetchError.message
+      });
       return new Response(JSON.stringify({
         success: false,
         error: fetchError.message
@@ -212,53 +462,132 @@ Deno.serve(async (req) => {
     }
 
     if (!queueItems || queueItems.length === 0) {
-      console.log('No pending queue items to process');
+      log.info('No pending queue items to process');
+      await recordWorkerRun(supabase, {
+        worker: 'process-expiring-queue',
+        runId: workerId,
+        startedAt,
+        success: true,
+        stats: { claimed: 0, reclaimed: reclaimed || 0 }
+      });
       return new Response(JSON.stringify({
         success: true,
         message: 'No pending items to process',
-        processed: 0,
-        sent: 0,
-        failed: 0
+        worker: {
+          id: workerId,
+          claimed: 0,
+          reclaimed: reclaimed || 0,
+          processed: 0,
+          sent: 0,
+          failed: 0,
+          dead: 0,
+          digests: 0
+        }
       }), {
         headers: { 'Content-Type': 'application/json' },
       });
     }
 
-    console.log(`Found ${queueItems.length} pending queue items to process`);
+    log.info(`Claimed ${queueItems.length} queue items to process`);
+
+    // Split items by the user's delivery mode: digest users get one message per chat
+    const preferences = await loadNotificationPreferences(
+      supabase,
+      [...new Set((queueItems as QueueItem[]).map(item => item.user_id))]
+    );
+    const immediateItems: QueueItem[] = [];
+    const digestItems: QueueItem[] = [];
+    for (const item of queueItems as QueueItem[]) {
+      const userPreferences = preferences.get(item.user_id);
+      if (!userPreferences || shouldSendImmediately(userPreferences, item.notification_priority)) {
+        immediateItems.push(item);
+      } else {
+        digestItems.push(item);
+      }
+    }
 
     // Process items in batches
     let totalProcessed = 0;
     let totalSent = 0;
     let totalFailed = 0;
+    let totalDead = 0;
 
-    for (let i = 0; i < queueItems.length; i += BATCH_SIZE) {
-      const batch = queueItems.slice(i, i + BATCH_SIZE);
-      console.log(`Processing batch ${i / BATCH_SIZE + 1}/${Math.ceil(queueItems.length / BATCH_SIZE)}`);
+    for (let i = 0; i < immediateItems.length; i += BATCH_SIZE) {
+      const batch = immediateItems.slice(i, i + BATCH_SIZE);
+      log.debug(`Processing batch ${i / BATCH_SIZE + 1}/${Math.ceil(immediateItems.length / BATCH_SIZE)}`);
 
       const batchResult = await processQueueBatch(batch);
 
       totalProcessed += batchResult.processed;
       totalSent += batchResult.sent;
       totalFailed += batchResult.failed;
+      totalDead += batchResult.dead;
+
+      log.info(`Batch ${i / BATCH_SIZE + 1} results: ${batchResult.processed} processed, ${batchResult.sent} sent, ${batchResult.failed} failed, ${batchResult.dead} dead`);
+    }
 
-      console.log(`Batch ${i / BATCH_SIZE + 1} results: ${batchResult.processed} processed, ${batchResult.sent} sent, ${batchResult.failed} failed`);
+    const digestResult = await processDigests(digestItems, log, correlationId);
+    totalProcessed += digestResult.processed;
+    totalSent += digestResult.sent;
+    totalFailed += digestResult.failed;
+    totalDead += digestResult.dead;
+
+    if (digestItems.length > 0) {
+      log.info(`Digest results: ${digestResult.digests} digests covering ${digestResult.sent} items, ${digestResult.failed} failed`);
     }
 
-    console.log(`Queue processing completed. Total: ${totalProcessed} processed, ${totalSent} sent, ${totalFailed} failed`);
+    log.info(`Queue processing completed. Total: ${totalProcessed} processed, ${totalSent} sent, ${totalFailed} failed, ${totalDead} dead`);
+
+    await recordWorkerRun(supabase, {
+      worker: 'process-expiring-queue',
+      runId: workerId,
+      startedAt,
+      success: true,
+      stats: {
+        claimed: queueItems.length,
+        reclaimed: reclaimed || 0,
+        processed: totalProcessed,
+        sent: totalSent,
+        failed: totalFailed,
+        dead: totalDead,
+        digests: digestResult.digests
+      }
+    });
 
     return new Response(JSON.stringify({
       success: true,
       total_processed: totalProcessed,
       total_sent: totalSent,
       total_failed: totalFailed,
+      total_dead: totalDead,
+      total_digests: digestResult.digests,
+      worker: {
+        id: workerId,
+        claimed: queueItems.length,
+        reclaimed: reclaimed || 0,
+        processed: totalProcessed,
+        sent: totalSent,
+        failed: totalFailed,
+        dead: totalDead,
+        digests: digestResult.digests,
+        lease_seconds: LEASE_SECONDS
+      },
       timestamp: new Date().toISOString()
     }), {
       headers: { 'Content-Type': 'application/json' },
     });
 
   } catch (err) {
-    console.error('Unhandled error in process-expiring-queue:', err);
+    log.error('Unhandled error in process-expiring-queue', err);
     const message = err instanceof Error ? err.message : 'Internal Server Error';
+    await recordWorkerRun(supabase, {
+      worker: 'process-expiring-queue',
+      runId: workerId,
+      startedAt,
+      success: false,
+      stats: {},
+      error: message
+    });
     return new Response(JSON.stringify({
       success: false,
       error: message,
@@ -0,0 +1,167 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { loadUserLists, resolveCategory } from '../_shared/item-normalizer.ts';
+import { correlationIdFrom, initLogger } from '../_shared/logger.ts';
+import {
+  deleteShelfLifeOverride,
+  estimateShelfLife,
+  loadShelfLifeOverrides,
+  resolveOverrideOwner,
+  saveShelfLifeOverride,
+  STORAGE_KINDS,
+  StorageKind,
+  validateShelfLifeOverride,
+} from '../_shared/shelf-life.ts';
+import { authenticateUser } from '../_shared/user-auth.ts';
+
+// CORS helper
+function corsHeaders(origin: string | null) {
+  return {
+    'Access-Control-Allow-Origin': origin ?? '*',
+    'Access-Control-Allow-Methods': 'GET, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type, apikey',
+  } as Record<string, string>;
+}
+
+const logger = initLogger('shelf-life');
+
+// Initialize Supabase client
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+if (!supabaseUrl || !supabaseKey) {
+  logger.error('Missing Supabase environment variables');
+  Deno.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+function jsonResponse(body: unknown, status: number, origin: string | null): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders(origin) },
+  });
+}
+
+// HTTP server handler
+Deno.serve(async (req) => {
+  const { method, headers } = req;
+  const origin = headers.get('Origin');
+  const log = logger.child({ correlation_id: correlationIdFrom(req) });
+
+  // Handle CORS preflight requests
+  if (method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders(origin) });
+  }
+
+  if (method !== 'GET' && method !== 'PUT' && method !== 'DELETE') {
+    return jsonResponse({ error: 'Method not allowed' }, 405, origin);
+  }
+
+  try {
+    const scope = await authenticateUser(supabase, req);
+    if (!scope) {
+      return jsonResponse({ error: 'Unauthorized: a signed-in user access token is required' }, 401, origin);
+    }
+
+    const url = new URL(req.url);
+
+    // The household's overrides, plus the estimate for ?name= (and optional category, storage)
+    if (method === 'GET') {
+      const overrides = await loadShelfLifeOverrides(supabase, scope);
+      const name = url.searchParams.get('name')?.trim();
+      const storage = url.searchParams.get('storage');
+      if (storage && !STORAGE_KINDS.includes(storage as StorageKind)) {
+        return jsonResponse({ error: `storage must be one of: ${STORAGE_KINDS.join(', ')}` }, 400, origin);
+      }
+
+      let estimate = null;
+      if (name) {
+        const category = url.searchParams.get('category') ||
+          resolveCategory(name, (await loadUserLists(supabase, scope.userId)).categories);
+        estimate = estimateShelfLife({ name, category, storage: storage as StorageKind | null }, overrides);
+      }
+
+      return jsonResponse({ overrides, estimate }, 200, origin);
+    }
+
+    if (method === 'DELETE') {
+      const id = url.searchParams.get('id');
+      if (!id) {
+        return jsonResponse({ error: 'id is required' }, 400, origin);
+      }
+      const deleted = await deleteShelfLifeOverride(supabase, scope, id);
+      if (!deleted) {
+        return jsonResponse({ error: 'Override not found' }, 404, origin);
+      }
+      log.info('Shelf-life override deleted', { user_id: scope.userId, override_id: id });
+      return jsonResponse({ success: true }, 200, origin);
+    }
+
+    // PUT creates or replaces the household's override for a product or category
+    let body: Record<string, unknown>;
+    try {
+      body = await req.json();
+    } catch (_) {
+      return jsonResponse({ error: 'Invalid JSON body' }, 400, origin);
+    }
+
+    const owner = resolveOverrideOwner(scope, typeof body?.group_id === 'string' ? body.group_id : null);
+    if (typeof owner === 'string') {
+      return jsonResponse({ error: owner }, 400, origin);
+    }
+
+    const override = validateShelfLifeOverride({
+      product: typeof body.product === 'string' ? body.product : null,
+      category: typeof body.category === 'string' ? body.category : null,
+      storage: typeof body.storage === 'string' ? body.storage as StorageKind : null,
+      days: body.days as number,
+    });
+    if (typeof override === 'string') {
+      return jsonResponse({ error: override }, 400, origin);
+    }
+
+    const saved = await saveShelfLifeOverride(supabase, owner, override, scope.userId);
+    log.info('Shelf-life override saved', { user_id: scope.userId, override_id: saved.id, group_id: saved.group_id });
+    return jsonResponse({ success: true, override: saved }, 200, origin);
+  } catch (err) {
+    log.error('Unhandled error in shelf-life', err);
+    const message = err instanceof Error ? err.message : 'Internal Server Error';
+
+    return new Response(JSON.stringify({
+      error: message,
+      timestamp: new Date().toISOString()
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json', ...corsHeaders(origin) },
+    });
+  }
+});
+
+/* To invoke locally:
+
+  1. Run `supabase start` (see: https://supabase.com/docs/reference/cli/supabase-start)
+  2. Make an HTTP request:
+
+  // Household overrides and the estimate for an item
+  curl -i --location --request GET 'http://127.0.0.1:54321/functions/v1/shelf-life?name=chicken&storage=fridge' \
+    --header 'Authorization: Bearer <user access token>'
+
+  // Chicken keeps 4 days in this household's fridge (group_id is needed only in several groups)
+  curl -i --location --request PUT 'http://127.0.0.1:54321/functions/v1/shelf-life' \
+    --header 'Authorization: Bearer <user access token>' \
+    --header 'Content-Type: application/json' \
+    --data '{"product": "chicken", "storage": "fridge", "days": 4}'
+
+  // Back to the built-in rule
+  curl -i --location --request DELETE 'http://127.0.0.1:54321/functions/v1/shelf-life?id=<override id>' \
+    --header 'Authorization: Bearer <user access token>'
+
+  // Response example for GET:
+  // {
+  //   "overrides": [
+  //     { "id": "…", "group_id": "…", "user_id": null, "product": "chicken", "category": null, "storage": "fridge", "days": 4 }
+  //   ],
+  //   "estimate": { "days": 4, "storage": "fridge", "source": "household", "matched": "chicken" }
+  // }
+
+*/
@@ -0,0 +1,204 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { addDays, daysBetween, makeDate, todayInTimezone } from '../_shared/dates.ts';
+import { correlationIdFrom, initLogger } from '../_shared/logger.ts';
+import {
+  generateShoppingList,
+  loadShoppingList,
+  MAX_PLAN_DAYS,
+  setShoppingItemCompleted,
+} from '../_shared/shopping-list.ts';
+import { authenticateUser } from '../_shared/user-auth.ts';
+import { loadUserTimezones } from '../_shared/user-preferences.ts';
+
+// CORS helper
+function corsHeaders(origin: string | null) {
+  return {
+    'Access-Control-Allow-Origin': origin ?? '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PATCH, OPTIONS',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type, apikey',
+  } as Record<string, string>;
+}
+
+const logger = initLogger('shopping-list');
+
+// Initialize Supabase client
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+if (!supabaseUrl || !supabaseKey) {
+  logger.error('Missing Supabase environment variables');
+  Deno.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+// The week ahead when no end date is given
+const DEFAULT_PLAN_DAYS = 7;
+
+interface GenerateRequest {
+  start: string | null;          // Defaults to today in the caller's time zone
+  end: string | null;            // Defaults to the week from start
+}
+
+interface CompleteRequest {
+  item_id: string;
+  completed: boolean;
+}
+
+function jsonResponse(body: unknown, status: number, origin: string | null): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders(origin) },
+  });
+}
+
+function parseDate(value: unknown): string | null {
+  const match = typeof value === 'string' ? /^(\d{4})-(\d{2})-(\d{2})$/.exec(value) : null;
+  return match ? makeDate(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+}
+
+// Validates the JSON body of POST; returns an error message when it is invalid
+function parseGenerateRequest(body: Record<string, unknown>): GenerateRequest | string {
+  const start = body.start ? parseDate(body.start) : null;
+  if (body.start && !start) return 'start must be a date in yyyy-mm-dd format';
+
+  const end = body.end ? parseDate(body.end) : null;
+  if (body.end && !end) return 'end must be a date in yyyy-mm-dd format';
+
+  return { start, end };
+}
+
+// Validates the JSON body of PATCH; returns an error message when it is invalid
+function parseCompleteRequest(body: Record<string, unknown>): CompleteRequest | string {
+  if (typeof body.item_id !== 'string' || !body.item_id) return 'item_id is required';
+  if (typeof body.completed !== 'boolean') return 'completed must be true or false';
+  return { item_id: body.item_id, completed: body.completed };
+}
+
+// HTTP server handler
+Deno.serve(async (req) => {
+  const { method, headers } = req;
+  const origin = headers.get('Origin');
+  const log = logger.child({ correlation_id: correlationIdFrom(req) });
+
+  // Handle CORS preflight requests
+  if (method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders(origin) });
+  }
+
+  if (method !== 'GET' && method !== 'POST' && method !== 'PATCH') {
+    return jsonResponse({ error: 'Method not allowed' }, 405, origin);
+  }
+
+  try {
+    const scope = await authenticateUser(supabase, req);
+    if (!scope) {
+      return jsonResponse({ error: 'Unauthorized: a signed-in user access token is required' }, 401, origin);
+    }
+
+    // The list is shared by the caller's household, as the is_same_group policies allow
+    if (method === 'GET') {
+      return jsonResponse({ items: await loadShoppingList(supabase, scope.userIds) }, 200, origin);
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = await req.json();
+    } catch (_) {
+      return jsonResponse({ error: 'Invalid JSON body' }, 400, origin);
+    }
+
+    // PATCH ticks an item off or puts it back
+    if (method === 'PATCH') {
+      const request = parseCompleteRequest(body || {});
+      if (typeof request === 'string') {
+        return jsonResponse({ error: request }, 400, origin);
+      }
+
+      const item = await setShoppingItemCompleted(supabase, request.item_id, scope.userIds, request.completed);
+      if (!item) {
+        return jsonResponse({ error: 'Item not found' }, 404, origin);
+      }
+      return jsonResponse({ success: true, item }, 200, origin);
+    }
+
+    // POST generates the list from the meal plans of a date range
+    const request = parseGenerateRequest(body || {});
+    if (typeof request === 'string') {
+      return jsonResponse({ error: request }, 400, origin);
+    }
+
+    const timezone = (await loadUserTimezones(supabase, [scope.userId])).get(scope.userId)!;
+    const start = request.start || todayInTimezone(timezone);
+    const end = request.end || addDays(start, DEFAULT_PLAN_DAYS - 1);
+    if (end < start) {
+      return jsonResponse({ error: 'end must not be before start' }, 400, origin);
+    }
+    if (daysBetween(start, end) >= MAX_PLAN_DAYS) {
+      return jsonResponse({ error: `The range can cover at most ${MAX_PLAN_DAYS} days` }, 400, origin);
+    }
+
+    const list = await generateShoppingList(supabase, scope, { start, end });
+
+    log.info('Shopping list generated', {
+      user_id: scope.userId,
+      start,
+      end,
+      meals: list.meals,
+      created: list.created,
+      updated: list.updated,
+    });
+    return jsonResponse({ success: true, start, end, ...list }, 200, origin);
+  } catch (err) {
+    log.error('Unhandled error in shopping-list', err);
+    const message = err instanceof Error ? err.message : 'Internal Server Error';
+
+    return new Response(JSON.stringify({
+      error: message,
+      timestamp: new Date().toISOString()
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json', ...corsHeaders(origin) },
+    });
+  }
+});
+
+/* To invoke locally:
+
+  1. Run `supabase start` (see: https://supabase.com/docs/reference/cli/supabase-start)
+  2. Make an HTTP request:
+
+  // The household's shopping list
+  curl -i --location --request GET 'http://127.0.0.1:54321/functions/v1/shopping-list' \
+    --header 'Authorization: Bearer <user access token>'
+
+  // Add what the meals planned for a week need and the inventory does not cover
+  curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/shopping-list' \
+    --header 'Authorization: Bearer <user access token>' \
+    --header 'Content-Type: application/json' \
+    --data '{"start": "2026-06-08", "end": "2026-06-14"}'
+
+  // Tick an item off
+  curl -i --location --request PATCH 'http://127.0.0.1:54321/functions/v1/shopping-list' \
+    --header 'Authorization: Bearer <user access token>' \
+    --header 'Content-Type: application/json' \
+    --data '{"item_id": "<shopping item id>", "completed": true}'
+
+  // Response example for POST:
+  // {
+  //   "success": true,
+  //   "start": "2026-06-08",
+  //   "end": "2026-06-14",
+  //   "meals": 5,
+  //   "needs": [
+  //     { "name": "chicken breast", "unit": "g", "needed": 900, "missing": 400, "meal_plan_ids": ["…", "…"] },
+  //     { "name": "eggs", "unit": "pieces", "needed": 6, "missing": 0, "meal_plan_ids": ["…"] }
+  //   ],
+  //   "items": [
+  //     { "id": "…", "name": "chicken breast", "quantity": 400, "unit": "g", "category": "meat", "completed": false, "source": "meal-plan", "meal_plan_ids": ["…"] }
+  //   ],
+  //   "created": 1,
+  //   "updated": 0
+  // }
+
+*/
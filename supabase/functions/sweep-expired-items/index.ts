@@ -0,0 +1,291 @@
+import { Api, GrammyError } from "https://deno.land/x/grammy@v1.36.3/mod.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { addDays, daysUntil, widestDateRangeBounds } from '../_shared/dates.ts';
+import { escapeHtml, formatDate } from '../_shared/format.ts';
+import { fetchTrackedItems, getItemType, listItemTypes, TrackedItem } from '../_shared/item-types.ts';
+import { correlationIdFrom, initLogger, Logger } from '../_shared/logger.ts';
+import { buildExpiredItemKeyboard } from '../_shared/notification-actions.ts';
+import { isDeliveryWindowOpen } from '../_shared/notification-schedule.ts';
+import { loadNotificationPreferences } from '../_shared/user-preferences.ts';
+import { recordWasteOutcome } from '../_shared/waste-log.ts';
+
+const logger = initLogger('sweep-expired-items');
+logger.info('Function ready to sweep expired items');
+
+// Initialize Supabase client
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+const botToken = Deno.env.get('TELEGRAM_BOT_TOKEN');
+
+if (!supabaseUrl || !supabaseKey || !botToken) {
+  logger.error('Missing Supabase or Telegram environment variables');
+  Deno.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+const api = new Api(botToken);
+
+// Configuration
+const SWEEP_LIMIT = 500; // Maximum expired-item messages per run
+const RATE_LIMIT_DELAY = 100; // Delay between individual messages (ms)
+const ANSWER_DAYS = 7; // Unanswered messages are closed as no_response after a week
+
+interface ExpiredItem extends TrackedItem {
+  chat_id: number;
+  days_expired: number;
+}
+
+interface SweepResult {
+  expired: number;
+  notified: number;
+  deferred: number;
+  failed: number;
+}
+
+function renderExpiredMessage(item: ExpiredItem): string {
+  const itemType = getItemType(item.type);
+  const ago = item.days_expired === 1 ? 'yesterday' : `${item.days_expired} days ago`;
+  const lines = [
+    `⌛ <b>${escapeHtml(item.name)} ${itemType?.wording.expired || 'has expired'}</b>`,
+    '',
+    `📅 <b>${itemType?.wording.dateLabel || 'Expires'}:</b> ${formatDate(item.expiration_date)} (${ago}` +
+      (item.details.expiration_estimated ? ', estimated)' : ')'),
+  ];
+  if (!itemType || itemType.quantityColumn) {
+    lines.push(`📊 <b>Quantity:</b> ${item.quantity} ${escapeHtml(item.unit)}`);
+  }
+  if (item.location) {
+    lines.push(`📍 <b>Location:</b> ${escapeHtml(item.location)}`);
+  }
+  lines.push('', 'What happened to it? Your answer takes it off your inventory.');
+  return lines.join('\n');
+}
+
+// Owners and item IDs are sent to PostgREST in groups of this size, keeping URLs short
+const ID_CHUNK_SIZE = 100;
+const PAGE_SIZE = 1000;
+
+function chunks<T>(values: T[], size: number): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < values.length; i += size) result.push(values.slice(i, i + size));
+  return result;
+}
+
+// Users who can be messaged, by ID
+async function loadChatIds(): Promise<Map<string, number>> {
+  const chatIds = new Map<string, number>();
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('users')
+      .select('id, chat_id')
+      .not('chat_id', 'is', null)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    const page = (data || []) as { id: string; chat_id: number }[];
+    for (const user of page) chatIds.set(user.id, user.chat_id);
+    if (page.length < PAGE_SIZE) return chatIds;
+  }
+}
+
+// Keys (`type:id`) of the items that already have a waste log row
+async function loadLoggedItems(items: TrackedItem[]): Promise<Set<string>> {
+  const logged = new Set<string>();
+  for (const chunk of chunks(items, ID_CHUNK_SIZE)) {
+    const { data, error } = await supabase
+      .from('waste_log')
+      .select('item_type, item_id')
+      .in('item_id', chunk.map(item => item.id));
+
+    if (error) throw error;
+
+    for (const row of (data || []) as { item_type: string; item_id: string }[]) {
+      logged.add(`${row.item_type}:${row.item_id}`);
+    }
+  }
+  return logged;
+}
+
+// Finds expired items nobody has been asked about yet, whose owners have Telegram and are
+// past their delivery time and outside quiet hours; the rest are left for a later run. Only
+// owners with a chat are queried: their items leave the inventory once answered or closed,
+// so the set stays small, while items of owners without one would pile up forever.
+async function findExpiredItems(now: Date): Promise<{ due: ExpiredItem[]; expired: number }> {
+  // An item has expired once its date is before its owner's today; no owner's yesterday is
+  // later than the day before the latest "today" anywhere
+  const end = addDays(widestDateRangeBounds(0, now).end, -1);
+
+  const chatIds = await loadChatIds();
+  if (chatIds.size === 0) return { due: [], expired: 0 };
+
+  const items: TrackedItem[] = [];
+  for (const userIds of chunks([...chatIds.keys()], ID_CHUNK_SIZE)) {
+    for (const itemType of listItemTypes()) {
+      items.push(...await fetchTrackedItems(supabase, itemType, { end, userIds }));
+    }
+  }
+
+  if (items.length === 0) return { due: [], expired: 0 };
+
+  const alreadyAsked = await loadLoggedItems(items);
+  const unasked = items.filter(item => !alreadyAsked.has(`${item.type}:${item.id}`));
+  const userIds = [...new Set(unasked.map(item => item.user_id))];
+
+  if (userIds.length === 0) return { due: [], expired: 0 };
+
+  const preferences = await loadNotificationPreferences(supabase, userIds);
+
+  const expired = unasked
+    .map(item => ({
+      ...item,
+      chat_id: chatIds.get(item.user_id)!,
+      days_expired: -daysUntil(item.expiration_date, preferences.get(item.user_id)?.timezone, now),
+    }))
+    .filter(item => item.days_expired > 0);
+
+  const due = expired.filter(item => {
+    const ownerPreferences = preferences.get(item.user_id);
+    return !ownerPreferences || isDeliveryWindowOpen(ownerPreferences, now);
+  });
+
+  return { due, expired: expired.length };
+}
+
+// Opens the waste log row first so the item is never asked about twice, then sends the
+// message; a failed send drops the row again so the next run retries
+async function notifyExpiredItem(item: ExpiredItem, log: Logger): Promise<boolean> {
+  const itemLog = log.child({ item_type: item.type, item_id: item.id });
+
+  const { data: row, error: insertError } = await supabase
+    .from('waste_log')
+    .insert({
+      user_id: item.user_id,
+      item_type: item.type,
+      item_id: item.id,
+      item_name: item.name,
+      quantity: item.quantity,
+      unit: item.unit,
+      category: item.category,
+      expiration_date: item.expiration_date,
+      chat_id: item.chat_id,
+    })
+    .select('id')
+    .single();
+
+  if (insertError) {
+    // 23505 = unique_violation: a concurrent run already asked about this item
+    if (insertError.code !== '23505') {
+      itemLog.error('Error opening waste log', insertError);
+    }
+    return false;
+  }
+
+  try {
+    const itemType = getItemType(item.type)!;
+    const sent = await api.sendMessage(item.chat_id, renderExpiredMessage(item), {
+      parse_mode: 'HTML',
+      reply_markup: await buildExpiredItemKeyboard(row.id, item.chat_id, itemType),
+    });
+
+    const { error: updateError } = await supabase
+      .from('waste_log')
+      .update({ message_id: sent.message_id, notified_at: new Date().toISOString() })
+      .eq('id', row.id);
+
+    if (updateError) {
+      itemLog.error(`Error recording message for waste log ${row.id}`, updateError);
+    }
+    return true;
+  } catch (error) {
+    itemLog.error('Error sending expired-item message', error);
+    await supabase.from('waste_log').delete().eq('id', row.id);
+    return false;
+  }
+}
+
+// Closes rows nobody answered within ANSWER_DAYS; the item is removed either way
+async function closeUnanswered(now: Date): Promise<number> {
+  const cutoff = new Date(now.getTime() - ANSWER_DAYS * 24 * 60 * 60 * 1000);
+
+  const { data: stale, error } = await supabase
+    .from('waste_log')
+    .select('id')
+    .is('outcome', null)
+    .lt('notified_at', cutoff.toISOString());
+
+  if (error) throw error;
+
+  let closed = 0;
+  for (const { id } of (stale || []) as { id: string }[]) {
+    const row = await recordWasteOutcome(supabase, id, 'no_response');
+    if (!row) continue;
+    closed++;
+
+    if (row.message_id) {
+      try {
+        await api.editMessageReplyMarkup(row.chat_id, row.message_id);
+      } catch (editError) {
+        // The message may have been deleted by the user; the outcome is recorded regardless
+        if (!(editError instanceof GrammyError)) throw editError;
+      }
+    }
+  }
+
+  return closed;
+}
+
+// Main function handler
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+      status: 405,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const log = logger.child({ correlation_id: correlationIdFrom(req) });
+
+  try {
+    log.info('Starting expired-items sweep');
+    const now = new Date();
+
+    const { due, expired } = await findExpiredItems(now);
+    const result: SweepResult = { expired, notified: 0, deferred: expired - due.length, failed: 0 };
+
+    for (const item of due.slice(0, SWEEP_LIMIT)) {
+      if (await notifyExpiredItem(item, log)) {
+        result.notified++;
+      } else {
+        result.failed++;
+      }
+      await new Promise(resolve => setTimeout(resolve, RATE_LIMIT_DELAY));
+    }
+    result.deferred += Math.max(due.length - SWEEP_LIMIT, 0);
+
+    const closed = await closeUnanswered(now);
+
+    log.info(`Expired-items sweep completed: ${result.notified} notified, ${closed} closed without answer`);
+
+    return new Response(JSON.stringify({
+      success: true,
+      ...result,
+      closed_without_answer: closed,
+      timestamp: new Date().toISOString()
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (err) {
+    log.error('Unhandled error in sweep-expired-items', err);
+    const message = err instanceof Error ? err.message : 'Internal Server Error';
+    return new Response(JSON.stringify({
+      success: false,
+      error: message,
+      timestamp: new Date().toISOString()
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,271 @@
+import { Bot, Context, InlineKeyboard } from "https://deno.land/x/grammy@v1.36.3/mod.ts";
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { todayInTimezone } from '../_shared/dates.ts';
+import { escapeHtml, formatDate } from '../_shared/format.ts';
+import { displayName, loadUserLists, NamedRow, resolveCategory, resolveUnit } from '../_shared/item-normalizer.ts';
+import { logger } from '../_shared/logger.ts';
+import { estimateExpirationDate, loadShelfLifeOverrides } from '../_shared/shelf-life.ts';
+import { loadUserScope } from '../_shared/user-auth.ts';
+import { loadUserTimezones } from '../_shared/user-preferences.ts';
+import { parseItemText } from './item-parser.ts';
+import { findUserIdByTelegramId } from './users.ts';
+
+interface ItemDraft {
+  id: string;
+  user_id: string;
+  chat_id: number;
+  message_id: number | null;
+  raw_text: string;
+  name: string;
+  quantity: number;
+  unit: string;
+  category: string;
+  expiration_date: string;
+  expiration_estimated: boolean;
+}
+
+const USAGE_TEXT = `📝 <b>Add an item</b>
+
+Send <code>/add</code> followed by the item, or just type it:
+• <code>2 kg chicken meat exp 25/10</code>
+• <code>sữa tươi 1 hộp 3 ngày</code>
+• <code>yogurt 4 cups next friday</code>
+
+Dates can be dd/mm, dd/mm/yyyy, "in 3 days", "tomorrow", "next friday", "ngày mai", "thứ sáu tuần sau"…
+Without a date I estimate one from how long the item usually keeps (see /shelflife).`;
+
+function renderDraftCard(draft: ItemDraft, units: NamedRow[], categories: NamedRow[]): string {
+  return `🧾 <b>New item</b>
+
+🏷️ <b>Item:</b> ${escapeHtml(draft.name)}
+📊 <b>Quantity:</b> ${draft.quantity} ${escapeHtml(displayName(units, draft.unit))}
+🗂️ <b>Category:</b> ${escapeHtml(displayName(categories, draft.category))}
+📅 <b>Expires:</b> ${formatDate(draft.expiration_date)}${draft.expiration_estimated ? ' <i>(estimated)</i>' : ''}
+
+Save this item?`;
+}
+
+function draftKeyboard(draftId: string): InlineKeyboard {
+  return new InlineKeyboard()
+    .text('✅ Save', `add:s:${draftId}`)
+    .text('❌ Cancel', `add:x:${draftId}`)
+    .row()
+    .text('📏 Change unit', `add:u:${draftId}`)
+    .text('🗂️ Change category', `add:c:${draftId}`);
+}
+
+function choiceKeyboard(draftId: string, op: 'su' | 'sc', rows: NamedRow[]): InlineKeyboard {
+  const keyboard = new InlineKeyboard();
+  rows.forEach((row, index) => {
+    keyboard.text(row.display_name, `add:${op}:${draftId}:${index}`);
+    if (index % 3 === 2) keyboard.row();
+  });
+  return keyboard.row().text('↩️ Back', `add:b:${draftId}`);
+}
+
+export function registerAddItemHandlers(bot: Bot, supabase: SupabaseClient) {
+  async function startDraft(ctx: Context, text: string): Promise<void> {
+    const telegramId = ctx.from?.id;
+    const chatId = ctx.chat?.id;
+    if (!telegramId || !chatId) return;
+
+    const userId = await findUserIdByTelegramId(supabase, telegramId);
+    if (!userId) {
+      await ctx.reply("❌ You are not registered yet. Please use /login first.");
+      return;
+    }
+
+    const [{ units, categories }, timezones] = await Promise.all([
+      loadUserLists(supabase, userId),
+      loadUserTimezones(supabase, [userId]),
+    ]);
+    // Relative dates ("tomorrow", "in 3 days") count from today in the user's time zone
+    const today = todayInTimezone(timezones.get(userId));
+    const parsed = parseItemText(text, units.flatMap(u => [u.name, u.display_name]), today);
+
+    if (!parsed.name) {
+      await ctx.reply(USAGE_TEXT, { parse_mode: 'HTML' });
+      return;
+    }
+
+    const category = resolveCategory(parsed.name, categories);
+    let expirationDate = parsed.expiration_date;
+
+    // No date typed: suggest one from the household's shelf-life rules
+    if (!expirationDate) {
+      const overrides = await loadShelfLifeOverrides(supabase, await loadUserScope(supabase, userId));
+      expirationDate = estimateExpirationDate({ name: parsed.name, category }, today, overrides).expiration_date;
+    }
+
+    // Drop this chat's stale drafts before creating a new one
+    await supabase
+      .from('telegram_item_drafts')
+      .delete()
+      .eq('chat_id', chatId)
+      .lt('expires_at', new Date().toISOString());
+
+    const { data: draft, error } = await supabase
+      .from('telegram_item_drafts')
+      .insert({
+        user_id: userId,
+        chat_id: chatId,
+        raw_text: text,
+        name: parsed.name,
+        quantity: parsed.quantity,
+        unit: resolveUnit(parsed.unit, units),
+        category,
+        expiration_date: expirationDate,
+        expiration_estimated: !parsed.expiration_date,
+      })
+      .select('*')
+      .single();
+
+    if (error) throw error;
+
+    const message = await ctx.reply(renderDraftCard(draft as ItemDraft, units, categories), {
+      parse_mode: 'HTML',
+      reply_markup: draftKeyboard(draft.id),
+    });
+
+    await supabase
+      .from('telegram_item_drafts')
+      .update({ message_id: message.message_id })
+      .eq('id', draft.id);
+  }
+
+  bot.command("add", async (ctx) => {
+    const text = ctx.match?.trim();
+    if (!text) {
+      await ctx.reply(USAGE_TEXT, { parse_mode: 'HTML' });
+      return;
+    }
+
+    try {
+      await startDraft(ctx, text);
+    } catch (error) {
+      logger.error('Error creating item draft', error);
+      await ctx.reply("❌ Could not add the item. Please try again later.");
+    }
+  });
+
+  bot.callbackQuery(/^add:(s|x|u|c|b|su|sc):([0-9a-f-]{36})(?::(\d+))?$/, async (ctx) => {
+    const [, op, draftId, index] = ctx.match;
+
+    const { data: draft, error } = await supabase
+      .from('telegram_item_drafts')
+      .select('*')
+      .eq('id', draftId)
+      .eq('chat_id', ctx.chat?.id)
+      .gt('expires_at', new Date().toISOString())
+      .single();
+
+    if (error || !draft) {
+      await ctx.answerCallbackQuery({ text: 'This draft has expired. Please add the item again.' });
+      await ctx.editMessageReplyMarkup();
+      return;
+    }
+
+    const itemDraft = draft as ItemDraft;
+    const { units, categories } = await loadUserLists(supabase, itemDraft.user_id);
+
+    if (op === 's') {
+      const { error: insertError } = await supabase
+        .from('food_items')
+        .insert({
+          user_id: itemDraft.user_id,
+          name: itemDraft.name,
+          quantity: itemDraft.quantity,
+          unit: itemDraft.unit,
+          category: itemDraft.category,
+          expiration_date: itemDraft.expiration_date,
+          expiration_estimated: itemDraft.expiration_estimated,
+        });
+
+      if (insertError) {
+        logger.error('Error saving food item from draft', insertError);
+        await ctx.answerCallbackQuery({ text: '❌ Could not save the item. Please try again.' });
+        return;
+      }
+
+      await supabase.from('telegram_item_drafts').delete().eq('id', itemDraft.id);
+      await ctx.answerCallbackQuery({ text: 'Saved!' });
+      await ctx.editMessageText(
+        renderDraftCard(itemDraft, units, categories).replace('Save this item?', '✅ <b>Saved</b>'),
+        { parse_mode: 'HTML' }
+      );
+      return;
+    }
+
+    if (op === 'x') {
+      await supabase.from('telegram_item_drafts').delete().eq('id', itemDraft.id);
+      await ctx.answerCallbackQuery({ text: 'Cancelled' });
+      await ctx.editMessageText(`❌ Cancelled: ${escapeHtml(itemDraft.name)}`, { parse_mode: 'HTML' });
+      return;
+    }
+
+    if (op === 'u' || op === 'c') {
+      await ctx.answerCallbackQuery();
+      await ctx.editMessageReplyMarkup({
+        reply_markup: op === 'u'
+          ? choiceKeyboard(itemDraft.id, 'su', units)
+          : choiceKeyboard(itemDraft.id, 'sc', categories),
+      });
+      return;
+    }
+
+    if (op === 'su' || op === 'sc') {
+      const rows = op === 'su' ? units : categories;
+      const choice = rows[Number(index)];
+      if (!choice) {
+        await ctx.answerCallbackQuery({ text: 'That option is no longer available.' });
+        return;
+      }
+
+      const field = op === 'su' ? 'unit' : 'category';
+      const changes: Partial<ItemDraft> = { [field]: choice.name };
+
+      // An estimated date follows the new category
+      if (field === 'category' && itemDraft.expiration_estimated) {
+        const [timezones, scope] = await Promise.all([
+          loadUserTimezones(supabase, [itemDraft.user_id]),
+          loadUserScope(supabase, itemDraft.user_id),
+        ]);
+        changes.expiration_date = estimateExpirationDate(
+          { name: itemDraft.name, category: choice.name },
+          todayInTimezone(timezones.get(itemDraft.user_id)),
+          await loadShelfLifeOverrides(supabase, scope)
+        ).expiration_date;
+      }
+
+      const { error: updateError } = await supabase
+        .from('telegram_item_drafts')
+        .update(changes)
+        .eq('id', itemDraft.id);
+
+      if (updateError) throw updateError;
+      Object.assign(itemDraft, changes);
+    }
+
+    // 'b' (back) and successful unit/category changes re-render the card
+    await ctx.answerCallbackQuery();
+    await ctx.editMessageText(renderDraftCard(itemDraft, units, categories), {
+      parse_mode: 'HTML',
+      reply_markup: draftKeyboard(itemDraft.id),
+    });
+  });
+
+  // Plain-text fallback: in private chats, any non-command text is treated as an item
+  bot.on("message:text", async (ctx, next) => {
+    const text = ctx.message.text.trim();
+    if (text.startsWith('/') || ctx.chat.type !== 'private') {
+      return next();
+    }
+
+    try {
+      await startDraft(ctx, text);
+    } catch (error) {
+      logger.error('Error creating item draft from text', error);
+      await ctx.reply("❌ Could not add the item. Please try again later.");
+    }
+  });
+}
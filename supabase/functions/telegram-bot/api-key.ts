@@ -0,0 +1,110 @@
+import { Bot, Context } from "https://deno.land/x/grammy@v1.36.3/mod.ts";
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { ApiKeyStatus, deleteGeminiApiKey, getGeminiApiKeyStatus, saveGeminiApiKey } from '../_shared/api-keys.ts';
+import { escapeHtml } from '../_shared/format.ts';
+import { logger } from '../_shared/logger.ts';
+import { findUserIdByTelegramId } from './users.ts';
+
+// /setkey: stores the user's Gemini API key encrypted (see _shared/api-keys.ts). The key is
+// either given inline (`/setkey AIza...`) or as a reply to the bot's prompt, and the message
+// carrying it is deleted as soon as it has been read. Prompt replies are recognized by the
+// prompt text, so no state is kept between the two messages.
+
+const PROMPT_TEXT = '🔑 Reply to this message with your Gemini API key. I will delete your message right after reading it.';
+
+function renderStatus(status: ApiKeyStatus): string {
+  if (!status.configured) return '🔑 No Gemini API key is saved.';
+  return `🔑 Gemini API key: <code>${escapeHtml(status.masked!)}</code> ` +
+    (status.verified ? '✅ verified' : '⚠️ not verified yet');
+}
+
+export function registerApiKeyHandlers(bot: Bot, supabase: SupabaseClient) {
+  async function requireUser(ctx: Context): Promise<string | null> {
+    const userId = ctx.from ? await findUserIdByTelegramId(supabase, ctx.from.id) : null;
+    if (!userId) {
+      await ctx.reply("❌ You are not registered yet. Please use /login first.");
+    }
+    return userId;
+  }
+
+  // Deletes the message holding the key; returns false when Telegram would not let us
+  async function deleteKeyMessage(ctx: Context): Promise<boolean> {
+    try {
+      await ctx.deleteMessage();
+      return true;
+    } catch (error) {
+      logger.warn('Could not delete a message containing an API key', error);
+      return false;
+    }
+  }
+
+  async function storeKey(ctx: Context, apiKey: string) {
+    const deleted = await deleteKeyMessage(ctx);
+    const warning = deleted ? '' : '\n\n⚠️ I could not delete your message. Please delete it yourself.';
+
+    if (ctx.chat?.type !== 'private') {
+      await ctx.reply(`❌ Send your API key in a private chat with me, not in a group.${warning}`);
+      return;
+    }
+
+    const userId = await requireUser(ctx);
+    if (!userId) return;
+
+    const result = await saveGeminiApiKey(supabase, userId, apiKey);
+    if (typeof result === 'string') {
+      await ctx.reply(`❌ ${escapeHtml(result)} Nothing was saved.${warning}`, { parse_mode: 'HTML' });
+      return;
+    }
+
+    await ctx.reply(
+      `${result.rotated ? '🔄 Your Gemini API key was replaced.' : '✅ Your Gemini API key was saved.'}\n` +
+      `${renderStatus(result)}${warning}`,
+      { parse_mode: 'HTML' }
+    );
+  }
+
+  bot.command("setkey", async (ctx) => {
+    try {
+      const argument = ctx.match?.trim() || '';
+
+      if (argument && argument !== 'remove') {
+        await storeKey(ctx, argument);
+        return;
+      }
+
+      const userId = await requireUser(ctx);
+      if (!userId) return;
+
+      if (argument === 'remove') {
+        const deleted = await deleteGeminiApiKey(supabase, userId);
+        await ctx.reply(deleted ? '🗑️ Your Gemini API key was deleted.' : '🔑 No Gemini API key is saved.');
+        return;
+      }
+
+      const status = await getGeminiApiKeyStatus(supabase, userId);
+      await ctx.reply(`${renderStatus(status)}\nUse <code>/setkey remove</code> to delete it.`, { parse_mode: 'HTML' });
+      await ctx.reply(PROMPT_TEXT, {
+        reply_markup: { force_reply: true, input_field_placeholder: 'AIza…' },
+      });
+    } catch (error) {
+      logger.error('Error handling /setkey', error);
+      await ctx.reply("❌ Could not update your API key. Please try again later.");
+    }
+  });
+
+  // Replies to the prompt; registered before the plain-text item fallback so the key is
+  // never read as an item
+  bot.on("message:text", async (ctx, next) => {
+    const prompt = ctx.message.reply_to_message;
+    if (!prompt || prompt.from?.id !== ctx.me.id || prompt.text !== PROMPT_TEXT) {
+      return next();
+    }
+
+    try {
+      await storeKey(ctx, ctx.message.text);
+    } catch (error) {
+      logger.error('Error saving API key from reply', error);
+      await ctx.reply("❌ Could not save your API key. Please try again later.");
+    }
+  });
+}
@@ -0,0 +1,49 @@
+import { Bot, Context } from "https://deno.land/x/grammy@v1.36.3/mod.ts";
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { getItemType } from '../_shared/item-types.ts';
+import { logger } from '../_shared/logger.ts';
+import { verifyExpiredItemCallbackData } from '../_shared/notification-actions.ts';
+import { recordWasteOutcome } from '../_shared/waste-log.ts';
+
+// Answers to the "this has expired" messages sent by sweep-expired-items
+
+async function appendOutcome(ctx: Context, outcome: string) {
+  const message = ctx.callbackQuery?.message;
+  if (!message?.text) return;
+
+  await ctx.editMessageText(`${message.text}\n\n${outcome}`, { entities: message.entities });
+}
+
+export function registerExpiredItemHandlers(bot: Bot, supabase: SupabaseClient) {
+  bot.callbackQuery(/^x:/, async (ctx) => {
+    const chatId = ctx.chat?.id;
+    const verified = chatId ? await verifyExpiredItemCallbackData(ctx.callbackQuery.data, chatId) : null;
+
+    if (!verified) {
+      logger.warn('Rejected expired-item answer with invalid signature', { chat_id: chatId });
+      await ctx.answerCallbackQuery({ text: '❌ This action is not valid.' });
+      return;
+    }
+
+    try {
+      const row = await recordWasteOutcome(supabase, verified.wasteLogId, verified.outcome);
+
+      if (!row) {
+        await ctx.answerCallbackQuery({ text: 'This item was already taken care of.' });
+        await ctx.editMessageReplyMarkup();
+        return;
+      }
+
+      const wording = getItemType(row.item_type)?.wording;
+      const outcome = verified.outcome === 'used'
+        ? wording?.consumedOutcome || '✅ Marked as used up'
+        : wording?.discardedOutcome || '🗑️ Marked as thrown away';
+
+      await ctx.answerCallbackQuery({ text: 'Removed from your inventory' });
+      await appendOutcome(ctx, outcome);
+    } catch (error) {
+      logger.error(`Error recording outcome for waste log ${verified.wasteLogId}`, error);
+      await ctx.answerCallbackQuery({ text: '❌ Could not update the item. Please try again later.' });
+    }
+  });
+}
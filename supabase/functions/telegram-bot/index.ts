@@ -1,12 +1,30 @@
 import { Bot, webhookCallback } from "https://deno.land/x/grammy@v1.36.3/mod.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { initLogger } from '../_shared/logger.ts';
+import { flushMetrics, recordRejectedWebhook } from '../_shared/metrics.ts';
+import { verifyTelegramUpdate } from '../_shared/webhook-auth.ts';
+import { registerAddItemHandlers } from './add-item.ts';
+import { registerApiKeyHandlers } from './api-key.ts';
+import { registerExpiredItemHandlers } from './expired-items.ts';
+import { registerInventoryHandlers } from './inventory.ts';
+import { registerLocationHandlers } from './locations.ts';
+import { registerNotificationActionHandlers } from './notification-actions.ts';
+import { registerReceiptImportHandlers } from './receipt-import.ts';
+import { registerSettingsHandlers } from './settings.ts';
+import { registerShelfLifeHandlers } from './shelf-life.ts';
+import { registerShoppingHandlers } from './shopping.ts';
+import { registerStatsHandlers } from './stats.ts';
+import { registerUnitHandlers } from './units.ts';
+import { handleWebhookSetup } from './webhook-setup.ts';
+
+const logger = initLogger('telegram-bot');
 
 // Initialize Supabase client
 const supabaseUrl = Deno.env.get('SUPABASE_URL');
 const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
 if (!supabaseUrl || !supabaseKey) {
-  console.error('Missing Supabase environment variables');
+  logger.error('Missing Supabase environment variables');
   Deno.exit(1);
 }
 
@@ -15,7 +33,7 @@ const supabase = createClient(supabaseUrl, supabaseKey);
 // Initialize bot with error handling
 const botToken = Deno.env.get('TELEGRAM_BOT_TOKEN');
 if (!botToken) {
-  console.error("TELEGRAM_BOT_TOKEN environment variable is not set");
+  logger.error("TELEGRAM_BOT_TOKEN environment variable is not set");
   Deno.exit(1);
 }
 
@@ -24,14 +42,22 @@ const bot = new Bot(botToken);
 // Middleware for error handling
 bot.catch((err) => {
   const ctx = err.ctx;
-  console.error(`Error while handling update ${ctx.update.update_id}:`);
-  console.error(err.error);
+  logger.error(`Error while handling update ${ctx.update.update_id}`, err.error);
   ctx.reply("❌ An error occurred. Please try again later.");
 });
 
 // Command handlers
 bot.command("start", async (ctx) => {
-  const welcomeText = `🍽️ *Welcome to Bot!*\n\n`;
+  const welcomeText = `🍽️ *Welcome to Bot!*\n\n` +
+    `Use /add to record an item, e.g. \`/add 2 kg chicken exp 25/10\`, or just type it.\n` +
+    `Use /expiring to see what expires soon and /list to browse your inventory.\n` +
+    `Use /settings to pick your time zone, delivery time and quiet hours.\n` +
+    `Use /stats to see how much you used up and how much went to waste.\n` +
+    `Items without a date get one estimated from /shelflife, which you can adjust for your household.\n` +
+    `Set up where you keep things with /locations, then move items from their reminders.\n` +
+    `Use /use to take some of an item, e.g. \`/use 200 g chicken\`, and /units to size boxes and jars.\n` +
+    `Use /shop to see your shopping list and /shop plan to add what your planned meals need.\n` +
+    `Use /setkey to save your Gemini API key, then send a photo of a receipt to add everything on it.`;
 
   await ctx.reply(welcomeText, { parse_mode: "Markdown" });
 });
@@ -57,7 +83,7 @@ bot.command("login", async (ctx) => {
       .single();
 
     if (checkTelegramError && checkTelegramError.code !== 'PGRST116') { // PGRST116 = no rows found
-      console.error('Error checking existing user by telegram_id:', checkTelegramError);
+      logger.error('Error checking existing user by telegram_id', checkTelegramError);
       throw checkTelegramError;
     }
 
@@ -74,12 +100,15 @@ bot.command("login", async (ctx) => {
       .single();
 
     if (checkEmailError && checkEmailError.code !== 'PGRST116') { // PGRST116 = no rows found
-      console.error('Error checking existing user by email:', checkEmailError);
+      logger.error('Error checking existing user by email', checkEmailError);
       throw checkEmailError;
     }
 
     if (existingUserByEmail) {
-      console.warn(`User with email ${email} already exists but with different telegram_id: ${existingUserByEmail.telegram_id}`);
+      logger.warn('User with this email already exists but with a different telegram_id', {
+        email,
+        telegram_id: existingUserByEmail.telegram_id
+      });
       await ctx.reply("❌ This Telegram ID is already associated with an account. Please contact support if you believe this is an error.");
       return;
     }
@@ -103,7 +132,7 @@ bot.command("login", async (ctx) => {
     if (authError) {
       type AuthErrorShape = Error & { name?: string; status?: number };
       const e = authError as AuthErrorShape;
-      console.error('Auth admin createUser error:', {
+      logger.error('Auth admin createUser error', {
         message: authError.message,
         name: e.name,
         status: e.status,
@@ -133,7 +162,7 @@ bot.command("login", async (ctx) => {
 
     await ctx.reply("✅ Registration successful! You can now use all bot features.");
   } catch (error) {
-    console.error("Registration error:", error);
+    logger.error("Registration error", error);
    
     await ctx.reply("❌ An error occurred during registration. Please try again later.");
   }
@@ -170,11 +199,11 @@ bot.use(async (ctx, next) => {
         });
 
       if (error) {
-        console.error('Error upserting user chat info:', error);
+        logger.error('Error upserting user chat info', error);
         // Don't throw error to avoid breaking message handling
       }
     } catch (error) {
-      console.error('Error in chat info middleware:', error);
+      logger.error('Error in chat info middleware', error);
       // Continue with message processing even if chat info saving fails
     }
   }
@@ -183,6 +212,43 @@ bot.use(async (ctx, next) => {
   return next();
 });
 
+// Gemini API key: /setkey; before item entry so replies carrying the key are not read as items
+registerApiKeyHandlers(bot, supabase);
+
+// Receipt photos: checklist of the items read off the receipt; before item entry so
+// corrections replying to the checklist are not read as new items
+registerReceiptImportHandlers(bot, supabase);
+
+// Item entry: /add command, draft confirmation buttons and plain-text fallback
+registerAddItemHandlers(bot, supabase);
+
+// Inventory browsing: /expiring [days] and /list [category]
+registerInventoryHandlers(bot, supabase);
+
+// Inline buttons on expiry notifications (ate it / threw it away / snooze / used half)
+registerNotificationActionHandlers(bot, supabase);
+
+// Answers to "this has expired" messages from sweep-expired-items (used it / threw it away)
+registerExpiredItemHandlers(bot, supabase);
+
+// Notification settings: /settings (time zone, delivery time, quiet hours, delivery mode)
+registerSettingsHandlers(bot, supabase);
+
+// Consumption and waste summary: /stats [days]
+registerStatsHandlers(bot, supabase);
+
+// Shelf-life estimates and household overrides: /shelflife
+registerShelfLifeHandlers(bot, supabase);
+
+// Household storage locations: /locations
+registerLocationHandlers(bot, supabase);
+
+// Partial use and unit conversions: /use, /units
+registerUnitHandlers(bot, supabase);
+
+// Shopping list from meal plans, minus the inventory: /shop
+registerShoppingHandlers(bot, supabase);
+
 // Handle unknown commands
 bot.on("message", async (ctx) => {
   if (ctx.message?.text?.startsWith("/")) {
@@ -199,12 +265,23 @@ const handleUpdate = webhookCallback(bot, "std/http");
 // HTTP server
 Deno.serve(async (req) => {
   try {
+    if (req.method === "POST" && new URL(req.url).pathname.endsWith("/setup")) {
+      return await handleWebhookSetup(bot, supabase, req, supabaseKey);
+    }
     if (req.method === "POST") {
+      // Only Telegram knows the secret token registered by /setup
+      const authFailure = verifyTelegramUpdate(req);
+      if (authFailure) {
+        logger.warn('Rejected unauthenticated update', { reason: authFailure });
+        recordRejectedWebhook('telegram-bot', authFailure);
+        await flushMetrics(supabase);
+        return new Response("Unauthorized", { status: 401 });
+      }
       return await handleUpdate(req);
     }
     return new Response("OK");
   } catch (err) {
-    console.error("Error handling request:", err);
+    logger.error("Error handling request", err);
     return new Response("Internal Server Error", { status: 500 });
   }
 });
\ No newline at end of file
@@ -0,0 +1,316 @@
+import { Bot, Context, GrammyError, InlineKeyboard } from "https://deno.land/x/grammy@v1.36.3/mod.ts";
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import {
+  calculateDaysUntilExpiry,
+  checkExpiringItems,
+  CheckExpiringItemsOptions,
+  getPriority,
+} from '../_shared/check-expiring-items.ts';
+import { escapeHtml, formatDate } from '../_shared/format.ts';
+import { fetchTrackedItems, listItemTypes } from '../_shared/item-types.ts';
+import { logger } from '../_shared/logger.ts';
+import { resolveThresholds } from '../_shared/priority-thresholds.ts';
+import { loadNotificationPreferences } from '../_shared/user-preferences.ts';
+import { findUserIdByTelegramId } from './users.ts';
+
+type SortBy = NonNullable<CheckExpiringItemsOptions['sortBy']>;
+type ViewKind = 'e' | 'l'; // e = /expiring, l = /list
+
+// View state is carried in callback data: `<kind>:<days>:<sort>:<category index>:<page>`
+interface ViewState {
+  kind: ViewKind;
+  days: number;
+  sort: SortBy;
+  categoryIndex: number; // -1 = all categories
+  page: number;
+}
+
+interface InventoryEntry {
+  name: string;
+  quantity: number;
+  unit: string;
+  category: string;
+  expiration_date: string | null;
+  days_until_expiry: number | null;
+  priority: 'urgent' | 'high' | 'medium' | 'low' | null;
+}
+
+const PAGE_SIZE = 10;
+const DEFAULT_DAYS = 7;
+const MAX_DAYS = 365;
+
+const SORT_CODES: Record<string, SortBy> = {
+  d: 'expiration_date',
+  n: 'name',
+  c: 'category',
+  p: 'priority',
+};
+
+const SORT_LABELS: Record<SortBy, string> = {
+  expiration_date: '📅 Date',
+  name: '🔤 Name',
+  category: '🗂️ Category',
+  priority: '🚦 Priority',
+};
+
+const PRIORITY_EMOJI: Record<string, string> = {
+  urgent: '🚨',
+  high: '⚠️',
+  medium: '📅',
+  low: '🗓️',
+};
+
+function sortCode(sort: SortBy): string {
+  return Object.keys(SORT_CODES).find(code => SORT_CODES[code] === sort) || 'd';
+}
+
+function encodeView(view: ViewState): string {
+  return `${view.kind}:${view.days}:${sortCode(view.sort)}:${view.categoryIndex}:${view.page}`;
+}
+
+function describeExpiry(days: number | null, date: string | null): string {
+  if (date === null || days === null) return 'no expiry date';
+  if (days < 0) return `${formatDate(date)} (expired)`;
+  if (days === 0) return `${formatDate(date)} (today)`;
+  if (days === 1) return `${formatDate(date)} (tomorrow)`;
+  return `${formatDate(date)} (in ${days} days)`;
+}
+
+function renderEntries(entries: InventoryEntry[], page: number): string {
+  return entries
+    .slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE)
+    .map((entry, index) => {
+      const emoji = entry.priority ? PRIORITY_EMOJI[entry.priority] : '📦';
+      return `${page * PAGE_SIZE + index + 1}. ${emoji} <b>${escapeHtml(entry.name)}</b> — ${entry.quantity} ${escapeHtml(entry.unit)}\n` +
+        `    ${describeExpiry(entry.days_until_expiry, entry.expiration_date)} · ${escapeHtml(entry.category)}`;
+    })
+    .join('\n');
+}
+
+function viewKeyboard(view: ViewState, total: number, sorts: SortBy[]): InlineKeyboard {
+  const keyboard = new InlineKeyboard();
+  const pages = Math.max(Math.ceil(total / PAGE_SIZE), 1);
+
+  if (view.page > 0) keyboard.text('◀️ Prev', encodeView({ ...view, page: view.page - 1 }));
+  if (pages > 1) keyboard.text(`${view.page + 1}/${pages}`, encodeView(view));
+  if (view.page < pages - 1) keyboard.text('Next ▶️', encodeView({ ...view, page: view.page + 1 }));
+  keyboard.row();
+
+  for (const sort of sorts) {
+    const label = sort === view.sort ? `✓ ${SORT_LABELS[sort]}` : SORT_LABELS[sort];
+    keyboard.text(label, encodeView({ ...view, sort, page: 0 }));
+  }
+
+  return keyboard.row().text('🔎 Filter by category', `${view.kind}f:${view.days}:${sortCode(view.sort)}`);
+}
+
+function categoryKeyboard(kind: ViewKind, days: number, sort: SortBy, categories: string[]): InlineKeyboard {
+  const keyboard = new InlineKeyboard().text('All categories', encodeView({ kind, days, sort, categoryIndex: -1, page: 0 })).row();
+  categories.forEach((category, index) => {
+    keyboard.text(category, encodeView({ kind, days, sort, categoryIndex: index, page: 0 }));
+    if (index % 3 === 2) keyboard.row();
+  });
+  return keyboard;
+}
+
+function compareEntries(sort: SortBy) {
+  return (a: InventoryEntry, b: InventoryEntry): number => {
+    if (sort === 'name') return a.name.localeCompare(b.name);
+    if (sort === 'category') return a.category.localeCompare(b.category) || a.name.localeCompare(b.name);
+    // expiration_date / priority: soonest first, undated items last
+    return (a.days_until_expiry ?? Number.MAX_SAFE_INTEGER) - (b.days_until_expiry ?? Number.MAX_SAFE_INTEGER);
+  };
+}
+
+// Edits the message in place, ignoring "message is not modified" when the same button is pressed twice
+async function editView(ctx: Context, text: string, keyboard: InlineKeyboard) {
+  try {
+    await ctx.editMessageText(text, { parse_mode: 'HTML', reply_markup: keyboard });
+  } catch (error) {
+    if (error instanceof GrammyError && error.description.includes('message is not modified')) return;
+    throw error;
+  }
+}
+
+export function registerInventoryHandlers(bot: Bot, supabase: SupabaseClient) {
+  // The user's food categories plus the fixed category of every other item type
+  async function loadCategories(userId: string): Promise<string[]> {
+    const { data, error } = await supabase
+      .from('categories')
+      .select('name')
+      .eq('user_id', userId)
+      .order('name');
+
+    if (error) throw error;
+
+    const categories = (data || []).map((row: { name: string }) => row.name);
+    const typeCategories = listItemTypes()
+      .filter(itemType => !itemType.categoryColumn)
+      .map(itemType => itemType.category);
+    return [...categories, ...typeCategories];
+  }
+
+  async function loadInventory(userId: string): Promise<InventoryEntry[]> {
+    const [items, preferences] = await Promise.all([
+      Promise.all(listItemTypes().map(itemType => fetchTrackedItems(supabase, itemType, { userId, includeUndated: true }))),
+      loadNotificationPreferences(supabase, [userId]),
+    ]);
+
+    const { timezone, thresholds } = preferences.get(userId)!;
+
+    return items.flat().map(item => {
+      const days = item.expiration_date ? calculateDaysUntilExpiry(item.expiration_date, timezone) : null;
+      return {
+        name: item.name,
+        quantity: item.quantity,
+        unit: item.unit,
+        category: item.category,
+        expiration_date: item.expiration_date,
+        days_until_expiry: days,
+        priority: days === null ? null : getPriority(days, resolveThresholds(thresholds, item.category)),
+      };
+    });
+  }
+
+  async function renderExpiring(userId: string, view: ViewState): Promise<{ text: string; keyboard: InlineKeyboard }> {
+    const categories = await loadCategories(userId);
+    const category = categories[view.categoryIndex];
+
+    const result = await checkExpiringItems(supabase, {
+      daysAhead: view.days,
+      userId,
+      category,
+      sortBy: view.sort,
+      sortOrder: 'asc',
+    });
+
+    const { summary } = result;
+    const header = `⏳ <b>Expiring within ${view.days} days</b>` + (category ? ` · ${escapeHtml(category)}` : '') +
+      `\n🚨 ${summary.urgent} · ⚠️ ${summary.high} · 📅 ${summary.medium} · 🗓️ ${summary.low} — ${summary.total} total`;
+
+    const body = result.items.length > 0
+      ? renderEntries(result.items, view.page)
+      : '✅ Nothing is expiring in this period.';
+
+    return {
+      text: `${header}\n\n${body}`,
+      keyboard: viewKeyboard(view, result.total_count, ['expiration_date', 'priority', 'name', 'category']),
+    };
+  }
+
+  async function renderList(userId: string, view: ViewState): Promise<{ text: string; keyboard: InlineKeyboard }> {
+    const [categories, inventory] = await Promise.all([
+      loadCategories(userId),
+      loadInventory(userId),
+    ]);
+    const category = categories[view.categoryIndex];
+
+    const entries = inventory
+      .filter(entry => !category || entry.category === category)
+      .sort(compareEntries(view.sort));
+
+    const header = `📦 <b>Inventory</b>` + (category ? ` · ${escapeHtml(category)}` : '') + ` — ${entries.length} items`;
+    const body = entries.length > 0 ? renderEntries(entries, view.page) : 'Nothing here yet. Use /add to record an item.';
+
+    return {
+      text: `${header}\n\n${body}`,
+      keyboard: viewKeyboard(view, entries.length, ['expiration_date', 'name', 'category']),
+    };
+  }
+
+  function render(userId: string, view: ViewState) {
+    return view.kind === 'e' ? renderExpiring(userId, view) : renderList(userId, view);
+  }
+
+  async function requireUser(ctx: Context): Promise<string | null> {
+    const userId = ctx.from ? await findUserIdByTelegramId(supabase, ctx.from.id) : null;
+    if (!userId) {
+      if (ctx.callbackQuery) {
+        await ctx.answerCallbackQuery({ text: 'Please use /login first.' });
+      } else {
+        await ctx.reply("❌ You are not registered yet. Please use /login first.");
+      }
+    }
+    return userId;
+  }
+
+  bot.command("expiring", async (ctx) => {
+    try {
+      const userId = await requireUser(ctx);
+      if (!userId) return;
+
+      const days = Number.parseInt(ctx.match?.trim() || '', 10);
+      const view: ViewState = {
+        kind: 'e',
+        days: Number.isFinite(days) && days >= 0 ? Math.min(days, MAX_DAYS) : DEFAULT_DAYS,
+        sort: 'expiration_date',
+        categoryIndex: -1,
+        page: 0,
+      };
+
+      const { text, keyboard } = await render(userId, view);
+      await ctx.reply(text, { parse_mode: 'HTML', reply_markup: keyboard });
+    } catch (error) {
+      logger.error('Error handling /expiring', error);
+      await ctx.reply("❌ Could not load expiring items. Please try again later.");
+    }
+  });
+
+  bot.command("list", async (ctx) => {
+    try {
+      const userId = await requireUser(ctx);
+      if (!userId) return;
+
+      const requested = ctx.match?.trim().toLowerCase();
+      const categories = await loadCategories(userId);
+      const categoryIndex = requested ? categories.findIndex(category => category.toLowerCase() === requested) : -1;
+
+      if (requested && categoryIndex === -1) {
+        await ctx.reply(`❓ Unknown category "${escapeHtml(requested)}". Pick one below:`, {
+          parse_mode: 'HTML',
+          reply_markup: categoryKeyboard('l', 0, 'expiration_date', categories),
+        });
+        return;
+      }
+
+      const { text, keyboard } = await render(userId, { kind: 'l', days: 0, sort: 'expiration_date', categoryIndex, page: 0 });
+      await ctx.reply(text, { parse_mode: 'HTML', reply_markup: keyboard });
+    } catch (error) {
+      logger.error('Error handling /list', error);
+      await ctx.reply("❌ Could not load your inventory. Please try again later.");
+    }
+  });
+
+  // Paging and sorting
+  bot.callbackQuery(/^(e|l):(\d+):([dncp]):(-?\d+):(\d+)$/, async (ctx) => {
+    const userId = await requireUser(ctx);
+    if (!userId) return;
+
+    const [, kind, days, sort, categoryIndex, page] = ctx.match;
+    const view: ViewState = {
+      kind: kind as ViewKind,
+      days: Math.min(Number(days), MAX_DAYS),
+      sort: SORT_CODES[sort],
+      categoryIndex: Number(categoryIndex),
+      page: Number(page),
+    };
+
+    const { text, keyboard } = await render(userId, view);
+    await ctx.answerCallbackQuery();
+    await editView(ctx, text, keyboard);
+  });
+
+  // Category picker
+  bot.callbackQuery(/^(e|l)f:(\d+):([dncp])$/, async (ctx) => {
+    const userId = await requireUser(ctx);
+    if (!userId) return;
+
+    const [, kind, days, sort] = ctx.match;
+    const categories = await loadCategories(userId);
+
+    await ctx.answerCallbackQuery();
+    await ctx.editMessageReplyMarkup({
+      reply_markup: categoryKeyboard(kind as ViewKind, Number(days), SORT_CODES[sort], categories),
+    });
+  });
+}
@@ -0,0 +1,217 @@
+import { addDays, addMonths, dayOfWeek, makeDate, todayInTimezone } from '../_shared/dates.ts';
+import { UNIT_ALIASES } from '../_shared/item-normalizer.ts';
+
+// Natural-language parser for item entry, e.g.
+//   "2 kg chicken meat exp 25/10"
+//   "sữa tươi 1 hộp 3 ngày"
+//   "eggs 10 pieces next friday"
+
+export interface ParsedItemInput {
+  name: string;
+  quantity: number;
+  unit: string | null;           // Raw unit token as typed by the user (resolved later)
+  expiration_date: string | null; // yyyy-mm-dd
+  date_text: string | null;       // The phrase the date was parsed from
+}
+
+const WEEKDAYS: Record<string, number> = {
+  'sunday': 0, 'sun': 0, 'chủ nhật': 0, 'cn': 0,
+  'monday': 1, 'mon': 1, 'thứ hai': 1, 'thứ 2': 1,
+  'tuesday': 2, 'tue': 2, 'tues': 2, 'thứ ba': 2, 'thứ 3': 2,
+  'wednesday': 3, 'wed': 3, 'thứ tư': 3, 'thứ 4': 3,
+  'thursday': 4, 'thu': 4, 'thurs': 4, 'thứ năm': 4, 'thứ 5': 4,
+  'friday': 5, 'fri': 5, 'thứ sáu': 5, 'thứ 6': 5,
+  'saturday': 6, 'sat': 6, 'thứ bảy': 6, 'thứ 7': 6,
+};
+
+// Short weekday names are also ordinary words ("sun dried tomatoes"), so they only count as a
+// date after a date keyword or next/this/tuần sau ("exp sun", "next thu")
+const WEEKDAY_ABBREVIATIONS = new Set(['sun', 'cn', 'mon', 'tue', 'tues', 'wed', 'thu', 'thurs', 'fri', 'sat']);
+
+// Word boundaries that also work for Vietnamese letters (\b is ASCII-only)
+const B = '(?<![\\p{L}\\d])';
+const E = '(?![\\p{L}\\d])';
+
+// Optional keywords that introduce an expiry date ("exp 25/10", "hsd: 25/10", "hết hạn ngày 25/10")
+const DATE_PREFIX = `(?:${B}(?:exp(?:ires?|iry)?|hsd|hết hạn|het han|hạn sử dụng|hạn dùng|hạn|best before|bb|until|đến)\\s*:?\\s*)?(?:${B}(?:on|ngày|vào)\\s+)?`;
+
+const WEEKDAY_NAMES = Object.keys(WEEKDAYS).sort((a, b) => b.length - a.length).join('|');
+
+const ABSOLUTE_ISO = new RegExp(`${DATE_PREFIX}${B}(\\d{4})-(\\d{1,2})-(\\d{1,2})${E}`, 'iu');
+// Global: a "1.5" that turns out to be a quantity is skipped for a later date (see matchDate)
+const ABSOLUTE_DMY = new RegExp(`${DATE_PREFIX}${B}(\\d{1,2})([/.-])(\\d{1,2})(?:[/.-](\\d{2}|\\d{4}))?${E}`, 'giu');
+const RELATIVE = new RegExp(`${DATE_PREFIX}${B}(?:in|sau|còn)?\\s*(\\d+)\\s*(days?|weeks?|months?|ngày|tuần|tháng)(?:\\s+nữa)?${E}`, 'iu');
+const NAMED_DAY = new RegExp(`${DATE_PREFIX}${B}(today|hôm nay|tomorrow|tmr|ngày mai|day after tomorrow|ngày kia|ngày mốt|mốt)${E}`, 'iu');
+// Global: a short weekday name without a keyword is skipped for a later date (see matchDate)
+const WEEKDAY_EN = new RegExp(`${DATE_PREFIX}${B}(?:(next|this)\\s+)?(${WEEKDAY_NAMES})${E}`, 'giu');
+const WEEKDAY_VI = new RegExp(`${DATE_PREFIX}${B}(${WEEKDAY_NAMES})(?:\\s+(tuần sau|tuần tới|tuần này))?${E}`, 'giu');
+
+const QUANTITY = new RegExp(`${B}(\\d+(?:[.,]\\d+)?)\\s*(\\p{L}+)?${E}`, 'u');
+
+interface DateMatch {
+  date: string;
+  index: number;
+  length: number;
+}
+
+// The given weekday (0 = Sunday) in the Monday-based week `weeksAhead` weeks from this one
+function weekdayInWeek(today: string, weekday: number, weeksAhead: number): string {
+  const thisMonday = addDays(today, -((dayOfWeek(today) + 6) % 7));
+  return addDays(thisMonday, weeksAhead * 7 + (weekday + 6) % 7);
+}
+
+// A day.month without a year and without a date keyword in front, followed by a unit word, is a
+// decimal quantity: "1.5 kg" is one and a half kilograms, not the 1st of May
+function isDecimalQuantity(text: string, m: RegExpMatchArray, knownUnits: Set<string>): boolean {
+  if (m[2] !== '.' || m[4] || !/^\d/.test(m[0])) return false;
+  const nextWord = /^\s*(\p{L}+)/u.exec(text.slice(m.index! + m[0].length))?.[1]?.toLowerCase();
+  return !!nextWord && knownUnits.has(nextWord);
+}
+
+// Whether a weekday match is a date: full names always are, short ones only with a keyword
+// in front or a next/this/tuần sau qualifier
+function isWeekdayDate(m: RegExpMatchArray, weekday: string, qualified: boolean): boolean {
+  const word = weekday.toLowerCase();
+  return qualified || !WEEKDAY_ABBREVIATIONS.has(word) || !m[0].toLowerCase().startsWith(word);
+}
+
+function matchDate(text: string, today: string, knownUnits: Set<string>): DateMatch | null {
+  const currentYear = Number(today.slice(0, 4));
+
+  let m = ABSOLUTE_ISO.exec(text);
+  if (m) {
+    const date = makeDate(Number(m[1]), Number(m[2]), Number(m[3]));
+    if (date) return { date, index: m.index, length: m[0].length };
+  }
+
+  // A date after a keyword ("exp 25/10") wins over one without
+  let dmy: DateMatch | null = null;
+  for (const match of text.matchAll(ABSOLUTE_DMY)) {
+    if (isDecimalQuantity(text, match, knownUnits)) continue;
+
+    const day = Number(match[1]);
+    const month = Number(match[3]);
+    let date: string | null;
+    if (match[4]) {
+      const year = match[4].length === 2 ? 2000 + Number(match[4]) : Number(match[4]);
+      date = makeDate(year, month, day);
+    } else {
+      // No year: take the next occurrence of that day/month
+      date = makeDate(currentYear, month, day);
+      if (!date || date < today) date = makeDate(currentYear + 1, month, day) ?? date;
+    }
+    if (!date) continue;
+
+    const hasPrefix = !/^\d/.test(match[0]);
+    if (hasPrefix || !dmy) dmy = { date, index: match.index!, length: match[0].length };
+    if (hasPrefix) break;
+  }
+  if (dmy) return dmy;
+
+  m = RELATIVE.exec(text);
+  if (m) {
+    const amount = Number(m[1]);
+    const unit = m[2].toLowerCase();
+    let date: string;
+    if (unit.startsWith('week') || unit === 'tuần') {
+      date = addDays(today, amount * 7);
+    } else if (unit.startsWith('month') || unit === 'tháng') {
+      date = addMonths(today, amount);
+    } else {
+      date = addDays(today, amount);
+    }
+    return { date, index: m.index, length: m[0].length };
+  }
+
+  m = NAMED_DAY.exec(text);
+  if (m) {
+    const word = m[1].toLowerCase();
+    const offset = word === 'today' || word === 'hôm nay'
+      ? 0
+      : word === 'tomorrow' || word === 'tmr' || word === 'ngày mai' ? 1 : 2;
+    return { date: addDays(today, offset), index: m.index, length: m[0].length };
+  }
+
+  for (const match of text.matchAll(WEEKDAY_VI)) {
+    if (!match[2]) continue;
+
+    // "thứ sáu tuần sau": the given weekday in next Monday-based week
+    const target = WEEKDAYS[match[1].toLowerCase()];
+    const weeksAhead = match[2].toLowerCase() === 'tuần này' ? 0 : 1;
+    return { date: weekdayInWeek(today, target, weeksAhead), index: match.index!, length: match[0].length };
+  }
+
+  for (const match of text.matchAll(WEEKDAY_EN)) {
+    if (!isWeekdayDate(match, match[2], !!match[1])) continue;
+
+    // "next friday": the Friday of next Monday-based week, like "thứ sáu tuần sau";
+    // "friday" / "this friday": the upcoming occurrence, never today
+    const target = WEEKDAYS[match[2].toLowerCase()];
+    if (match[1]?.toLowerCase() === 'next') {
+      return { date: weekdayInWeek(today, target, 1), index: match.index!, length: match[0].length };
+    }
+    const delta = ((target - dayOfWeek(today) + 7) % 7) || 7;
+    return { date: addDays(today, delta), index: match.index!, length: match[0].length };
+  }
+
+  return null;
+}
+
+function cleanName(text: string): string {
+  return text
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s,.;:\-–]+|[\s,.;:\-–]+$/g, '')
+    .trim();
+}
+
+/**
+ * Parses a free-form item line into name, quantity, unit and expiration date.
+ * `extraUnits` are additional unit words (e.g. the user's own `units` rows) that
+ * should be recognised after a quantity. Relative dates count from `today`
+ * (`yyyy-mm-dd`, in the user's time zone).
+ */
+export function parseItemText(input: string, extraUnits: string[] = [], today: string = todayInTimezone()): ParsedItemInput {
+  let text = input.replace(/\s+/g, ' ').trim();
+
+  let expirationDate: string | null = null;
+  let dateText: string | null = null;
+
+  const knownUnits = new Set([
+    ...Object.keys(UNIT_ALIASES),
+    ...extraUnits.map(unit => unit.toLowerCase()),
+  ]);
+
+  const dateMatch = matchDate(text, today, knownUnits);
+  if (dateMatch) {
+    expirationDate = dateMatch.date;
+    dateText = text.slice(dateMatch.index, dateMatch.index + dateMatch.length).trim();
+    text = text.slice(0, dateMatch.index) + ' ' + text.slice(dateMatch.index + dateMatch.length);
+  }
+
+  let quantity = 1;
+  let unit: string | null = null;
+
+  const quantityMatch = QUANTITY.exec(text);
+  if (quantityMatch) {
+    quantity = Number(quantityMatch[1].replace(',', '.'));
+    const word = quantityMatch[2]?.toLowerCase();
+    let consumed = quantityMatch[0].length;
+
+    if (word && knownUnits.has(word)) {
+      unit = word;
+    } else if (word) {
+      // The word after the number is part of the name ("2 chicken breasts")
+      consumed = quantityMatch[0].length - quantityMatch[2].length;
+    }
+
+    text = text.slice(0, quantityMatch.index) + ' ' + text.slice(quantityMatch.index + consumed);
+  }
+
+  return {
+    name: cleanName(text),
+    quantity: Number.isFinite(quantity) && quantity > 0 ? quantity : 1,
+    unit,
+    expiration_date: expirationDate,
+    date_text: dateText,
+  };
+}
@@ -0,0 +1,64 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { parseItemText } from './item-parser.ts';
+
+// Wednesday, 15 October 2025
+const TODAY = '2025-10-15';
+
+Deno.test('parseItemText reads a decimal quantity before a unit, not as a date', () => {
+  const parsed = parseItemText('1.5 kg chicken exp 25/10', [], TODAY);
+  assertEquals(parsed.quantity, 1.5);
+  assertEquals(parsed.unit, 'kg');
+  assertEquals(parsed.name, 'chicken');
+  assertEquals(parsed.expiration_date, '2025-10-25');
+  assertEquals(parsed.date_text, 'exp 25/10');
+});
+
+Deno.test('parseItemText prefers a date after a keyword over a bare day.month', () => {
+  const parsed = parseItemText('1.5 chicken exp 25/10', [], TODAY);
+  assertEquals(parsed.quantity, 1.5);
+  assertEquals(parsed.expiration_date, '2025-10-25');
+});
+
+Deno.test('parseItemText still reads dotted dates', () => {
+  assertEquals(parseItemText('milk 2 liters 25.10', [], TODAY).expiration_date, '2025-10-25');
+  assertEquals(parseItemText('milk 2 liters hsd 1.5', [], TODAY).expiration_date, '2026-05-01');
+  assertEquals(parseItemText('milk 25.10.2025', [], TODAY).expiration_date, '2025-10-25');
+});
+
+Deno.test('parseItemText takes the upcoming weekday, never today', () => {
+  assertEquals(parseItemText('eggs friday', [], TODAY).expiration_date, '2025-10-17');
+  assertEquals(parseItemText('eggs this friday', [], TODAY).expiration_date, '2025-10-17');
+  assertEquals(parseItemText('eggs wednesday', [], TODAY).expiration_date, '2025-10-22');
+});
+
+Deno.test('parseItemText reads "next <weekday>" as that day of next week', () => {
+  const parsed = parseItemText('eggs 10 pieces next friday', [], TODAY);
+  assertEquals(parsed.expiration_date, '2025-10-24');
+  assertEquals(parsed.quantity, 10);
+  assertEquals(parsed.name, 'eggs');
+  assertEquals(parseItemText('eggs next monday', [], TODAY).expiration_date, '2025-10-20');
+  assertEquals(parseItemText('eggs thứ sáu tuần sau', [], TODAY).expiration_date, '2025-10-24');
+});
+
+Deno.test('parseItemText does not read a short weekday name without a keyword as a date', () => {
+  const tomatoes = parseItemText('sun dried tomatoes 1 jar', [], TODAY);
+  assertEquals(tomatoes.name, 'sun dried tomatoes');
+  assertEquals(tomatoes.expiration_date, null);
+
+  const chicken = parseItemText('chicken 2 kg thu', [], TODAY);
+  assertEquals(chicken.name, 'chicken thu');
+  assertEquals(chicken.expiration_date, null);
+
+  const mon = parseItemText('mon 1 kg', [], TODAY);
+  assertEquals(mon.name, 'mon');
+  assertEquals(mon.quantity, 1);
+  assertEquals(mon.expiration_date, null);
+});
+
+Deno.test('parseItemText reads a short weekday name after a keyword or next/this', () => {
+  assertEquals(parseItemText('chicken 2 kg exp thu', [], TODAY).expiration_date, '2025-10-16');
+  assertEquals(parseItemText('eggs next fri', [], TODAY).expiration_date, '2025-10-24');
+  assertEquals(parseItemText('eggs this sat', [], TODAY).expiration_date, '2025-10-18');
+  assertEquals(parseItemText('sun dried tomatoes hsd sun', [], TODAY).name, 'sun dried tomatoes');
+  assertEquals(parseItemText('sun dried tomatoes hsd sun', [], TODAY).expiration_date, '2025-10-19');
+});
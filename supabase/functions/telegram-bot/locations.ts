@@ -0,0 +1,99 @@
+import { Bot, Context } from "https://deno.land/x/grammy@v1.36.3/mod.ts";
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { escapeHtml } from '../_shared/format.ts';
+import { logger } from '../_shared/logger.ts';
+import { STORAGE_KINDS, StorageKind } from '../_shared/shelf-life.ts';
+import {
+  createStorageLocation,
+  deleteStorageLocation,
+  ensureStorageLocations,
+  findStorageLocations,
+  resolveLocationOwner,
+  StorageLocation,
+  validateStorageLocation,
+} from '../_shared/storage-locations.ts';
+import { loadUserScope } from '../_shared/user-auth.ts';
+import { findUserIdByTelegramId } from './users.ts';
+
+// /locations: the household's storage locations (_shared/storage-locations.ts). Items are
+// moved between them with the "Move to…" button of their expiry notifications.
+
+const USAGE_TEXT = `📍 <b>Storage locations</b>
+
+• <code>/locations add Garage freezer freezer</code>: add a location of a kind
+• <code>/locations remove Garage freezer</code>: its items keep no location
+
+Kinds are ${STORAGE_KINDS.join(', ')}; moving an item to another kind re-estimates its expiry.`;
+
+const KIND_EMOJI: Record<StorageKind, string> = {
+  pantry: '🥫',
+  fridge: '🧊',
+  freezer: '❄️',
+};
+
+function describeLocation(location: StorageLocation): string {
+  return `${KIND_EMOJI[location.kind]} ${escapeHtml(location.name)} (${location.kind})`;
+}
+
+export function registerLocationHandlers(bot: Bot, supabase: SupabaseClient) {
+  async function requireUser(ctx: Context): Promise<string | null> {
+    const userId = ctx.from ? await findUserIdByTelegramId(supabase, ctx.from.id) : null;
+    if (!userId) {
+      await ctx.reply("❌ You are not registered yet. Please use /login first.");
+    }
+    return userId;
+  }
+
+  bot.command("locations", async (ctx) => {
+    try {
+      const userId = await requireUser(ctx);
+      if (!userId) return;
+
+      const scope = await loadUserScope(supabase, userId);
+      const locations = await ensureStorageLocations(supabase, scope);
+      const argument = ctx.match?.trim() || '';
+      const [verb, ...rest] = argument.split(/\s+/);
+
+      if (verb?.toLowerCase() === 'add') {
+        const words = [...rest];
+        const kind = words.pop()?.toLowerCase() as StorageKind;
+        const location = validateStorageLocation({ name: words.join(' '), kind });
+        if (typeof location === 'string') {
+          await ctx.reply(`❌ ${location}\n\n${USAGE_TEXT}`, { parse_mode: 'HTML' });
+          return;
+        }
+
+        const owner = resolveLocationOwner(scope);
+        if (typeof owner === 'string') {
+          await ctx.reply(`❌ ${owner}`);
+          return;
+        }
+
+        const created = await createStorageLocation(supabase, owner, location, userId);
+        await ctx.reply(typeof created === 'string' ? `❌ ${escapeHtml(created)}` : `✅ Added ${describeLocation(created)}`, {
+          parse_mode: 'HTML',
+        });
+        return;
+      }
+
+      if (verb?.toLowerCase() === 'remove') {
+        const matching = findStorageLocations(locations, rest.join(' '));
+        for (const location of matching) {
+          await deleteStorageLocation(supabase, scope, location.id);
+        }
+        await ctx.reply(matching.length > 0
+          ? `🗑️ Removed ${matching.map(describeLocation).join(', ')}.`
+          : '📍 Your household has no such location.', { parse_mode: 'HTML' });
+        return;
+      }
+
+      const list = locations.length > 0
+        ? `<b>Your household's locations</b>\n${locations.map(location => `• ${describeLocation(location)}`).join('\n')}`
+        : 'You have no storage locations yet.';
+      await ctx.reply(`${list}\n\n${USAGE_TEXT}`, { parse_mode: 'HTML' });
+    } catch (error) {
+      logger.error('Error handling /locations', error);
+      await ctx.reply("❌ Could not update storage locations. Please try again later.");
+    }
+  });
+}
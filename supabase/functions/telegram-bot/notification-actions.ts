@@ -0,0 +1,344 @@
+import { Bot, Context } from "https://deno.land/x/grammy@v1.36.3/mod.ts";
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { todayInTimezone } from '../_shared/dates.ts';
+import { formatDate } from '../_shared/format.ts';
+import { ItemTypeDefinition, resolveQueueItem } from '../_shared/item-types.ts';
+import { logger } from '../_shared/logger.ts';
+import {
+  buildLocationKeyboard,
+  buildNotificationKeyboard,
+  InlineKeyboardMarkup,
+  NotificationAction,
+  verifyActionCallbackData,
+  verifyLocationCallbackData,
+} from '../_shared/notification-actions.ts';
+import { releaseQueueDeliveries } from '../_shared/notification-dispatcher.ts';
+import { ensureStorageLocations, moveItemToLocation } from '../_shared/storage-locations.ts';
+import { loadUserScope } from '../_shared/user-auth.ts';
+import { loadUserTimezones } from '../_shared/user-preferences.ts';
+import { logRemovedItem } from '../_shared/waste-log.ts';
+
+interface QueueRow {
+  id: string;
+  chat_id: number;
+  user_id: string;
+  item_type: string;
+  item_id: string;
+  food_item_id: string | null;
+  cosmetic_id: string | null;
+  item_name: string;
+  quantity: number;
+  unit: string;
+  category: string;
+  expiration_date: string;
+  days_until_expiry: number;
+}
+
+const SNOOZE_HOURS = 24;
+
+const QUEUE_ROW_COLUMNS = 'id, chat_id, user_id, item_type, item_id, food_item_id, cosmetic_id, item_name, quantity, unit, category, expiration_date, days_until_expiry';
+
+// Appends an outcome line to the notification, keeping its original formatting. `keyboard`
+// keeps the current buttons (true), removes them (false) or replaces them.
+async function appendOutcome(ctx: Context, outcome: string, keyboard: boolean | InlineKeyboardMarkup) {
+  const message = ctx.callbackQuery?.message;
+  if (!message) return;
+
+  const replyMarkup = keyboard === true ? message.reply_markup : keyboard || undefined;
+
+  if (message.caption !== undefined) {
+    await ctx.editMessageCaption({
+      caption: `${message.caption}\n\n${outcome}`,
+      caption_entities: message.caption_entities,
+      reply_markup: replyMarkup,
+    });
+  } else if (message.text !== undefined) {
+    await ctx.editMessageText(`${message.text}\n\n${outcome}`, {
+      entities: message.entities,
+      reply_markup: replyMarkup,
+    });
+  }
+}
+
+export function registerNotificationActionHandlers(bot: Bot, supabase: SupabaseClient) {
+  // Removes the item from the inventory together with its outstanding notifications, and
+  // records the outcome for analytics
+  async function removeItem(
+    row: QueueRow,
+    itemType: ItemTypeDefinition,
+    itemId: string,
+    outcome: 'used' | 'wasted'
+  ): Promise<void> {
+    const { error: queueError } = await supabase
+      .from('expiring_items_queue')
+      .delete()
+      .eq('item_type', itemType.type)
+      .eq('item_id', itemId)
+      .eq('status', 'pending');
+
+    if (queueError) throw queueError;
+
+    const { error } = await supabase
+      .from(itemType.table)
+      .delete()
+      .eq('id', itemId)
+      .eq('user_id', row.user_id);
+
+    if (error) throw error;
+
+    await logRemovedItem(supabase, {
+      user_id: row.user_id,
+      item_type: itemType.type,
+      item_id: itemId,
+      item_name: row.item_name,
+      quantity: row.quantity,
+      unit: row.unit,
+      category: row.category,
+      expiration_date: row.expiration_date,
+      chat_id: row.chat_id,
+    }, outcome);
+  }
+
+  // Sends the notification again after SNOOZE_HOURS as a fresh delivery: its delivery record is
+  // released and the row gets a new retry budget, without the lease of the worker that sent it.
+  // An item due today has expired by then, so there is no reminder to send: sweep-expired-items
+  // asks about it instead. Returns whether the reminder was rescheduled.
+  async function snooze(row: QueueRow): Promise<boolean> {
+    if (row.days_until_expiry <= 0) return false;
+
+    await releaseQueueDeliveries(supabase, row.id);
+
+    const { error } = await supabase
+      .from('expiring_items_queue')
+      .update({
+        status: 'pending',
+        processed_at: null,
+        attempt_count: 0,
+        next_attempt_at: null,
+        last_error: null,
+        last_error_code: null,
+        locked_by: null,
+        locked_at: null,
+        lease_expires_at: null,
+        scheduled_at: new Date(Date.now() + SNOOZE_HOURS * 60 * 60 * 1000).toISOString(),
+        days_until_expiry: row.days_until_expiry - 1,
+      })
+      .eq('id', row.id);
+
+    if (error) throw error;
+    return true;
+  }
+
+  // Halves the remaining quantity; returns the new quantity
+  async function useHalf(row: QueueRow, itemType: ItemTypeDefinition, itemId: string): Promise<number> {
+    const quantityColumn = itemType.quantityColumn!;
+
+    const { data: item, error: fetchError } = await supabase
+      .from(itemType.table)
+      .select(quantityColumn)
+      .eq('id', itemId)
+      .eq('user_id', row.user_id)
+      .single();
+
+    if (fetchError) throw fetchError;
+
+    const current = Number((item as unknown as Record<string, unknown>)[quantityColumn]);
+    const quantity = Math.round((current / 2) * 100) / 100;
+
+    const { error: itemError } = await supabase
+      .from(itemType.table)
+      .update({ [quantityColumn]: quantity })
+      .eq('id', itemId)
+      .eq('user_id', row.user_id);
+
+    if (itemError) throw itemError;
+
+    const { error: queueError } = await supabase
+      .from('expiring_items_queue')
+      .update({ quantity })
+      .eq('item_type', itemType.type)
+      .eq('item_id', itemId);
+
+    if (queueError) throw queueError;
+
+    return quantity;
+  }
+
+  // Records that a cosmetic was opened today (in the owner's time zone); returns the new
+  // effective expiry and PAO. Pending reminders for the old date are dropped so the next
+  // queue population schedules them for the new one.
+  async function markOpened(row: QueueRow, itemType: ItemTypeDefinition, itemId: string): Promise<{ effectiveExpiryDate: string | null; paoMonths: number | null }> {
+    const timezones = await loadUserTimezones(supabase, [row.user_id]);
+    const today = todayInTimezone(timezones.get(row.user_id));
+
+    const { data: cosmetic, error } = await supabase
+      .from(itemType.table)
+      .update({ opened_at: today })
+      .eq('id', itemId)
+      .eq('user_id', row.user_id)
+      .select('effective_expiry_date, pao_months')
+      .single();
+
+    if (error) throw error;
+
+    const { error: queueError } = await supabase
+      .from('expiring_items_queue')
+      .delete()
+      .eq('item_type', itemType.type)
+      .eq('item_id', itemId)
+      .eq('status', 'pending')
+      .neq('id', row.id);
+
+    if (queueError) throw queueError;
+
+    return { effectiveExpiryDate: cosmetic.effective_expiry_date, paoMonths: cosmetic.pao_months };
+  }
+
+  bot.callbackQuery(/^n:/, async (ctx) => {
+    const chatId = ctx.chat?.id;
+    const verified = chatId ? await verifyActionCallbackData(ctx.callbackQuery.data, chatId) : null;
+
+    if (!verified) {
+      logger.warn('Rejected notification action with invalid signature', { chat_id: chatId });
+      await ctx.answerCallbackQuery({ text: '❌ This action is not valid.' });
+      return;
+    }
+
+    const { data: row, error } = await supabase
+      .from('expiring_items_queue')
+      .select(QUEUE_ROW_COLUMNS)
+      .eq('id', verified.queueId)
+      .eq('chat_id', chatId)
+      .single();
+
+    if (error || !row) {
+      await ctx.answerCallbackQuery({ text: 'This item is no longer tracked.' });
+      await ctx.editMessageReplyMarkup();
+      return;
+    }
+
+    const queueRow = row as QueueRow;
+    const action: NotificationAction = verified.action;
+    const resolved = resolveQueueItem(queueRow);
+
+    if (!resolved) {
+      await ctx.answerCallbackQuery({ text: 'This item is no longer tracked.' });
+      return;
+    }
+
+    const { definition: itemType, itemId } = resolved;
+
+    try {
+      if (action === 'consumed' || action === 'discarded') {
+        await removeItem(queueRow, itemType, itemId, action === 'consumed' ? 'used' : 'wasted');
+        await ctx.answerCallbackQuery({ text: 'Removed from your inventory' });
+        await appendOutcome(
+          ctx,
+          action === 'consumed' ? itemType.wording.consumedOutcome : itemType.wording.discardedOutcome,
+          false
+        );
+      } else if (action === 'snooze') {
+        if (await snooze(queueRow)) {
+          await ctx.answerCallbackQuery({ text: "I'll remind you tomorrow" });
+          await appendOutcome(ctx, '⏰ Snoozed for 1 day', false);
+        } else {
+          await ctx.answerCallbackQuery({ text: "It's due today, so I'll ask you tomorrow what happened to it" });
+          await appendOutcome(ctx, "⏰ Due today — tomorrow I'll ask what happened to it", false);
+        }
+      } else if (action === 'half') {
+        if (itemType.secondaryAction !== 'half' || !itemType.quantityColumn) {
+          await ctx.answerCallbackQuery({ text: 'Not available for this item.' });
+          return;
+        }
+        const quantity = await useHalf(queueRow, itemType, itemId);
+        await ctx.answerCallbackQuery({ text: `${quantity} ${queueRow.unit} left` });
+        await appendOutcome(ctx, `🌓 Used half — ${quantity} ${queueRow.unit} left`, true);
+      } else if (action === 'opened') {
+        if (itemType.secondaryAction !== 'opened') {
+          await ctx.answerCallbackQuery({ text: 'Not available for this item.' });
+          return;
+        }
+        const { effectiveExpiryDate, paoMonths } = await markOpened(queueRow, itemType, itemId);
+        const expiry = effectiveExpiryDate ? `now expires ${formatDate(effectiveExpiryDate)}` : 'no expiry date known';
+        await ctx.answerCallbackQuery({ text: `Opened today — ${expiry}` });
+        await appendOutcome(
+          ctx,
+          paoMonths ? `🧴 Opened today (PAO ${paoMonths}M) — ${expiry}` : `🧴 Opened today — no PAO set, ${expiry}`,
+          false
+        );
+      } else if (action === 'move') {
+        if (!itemType.locationColumn) {
+          await ctx.answerCallbackQuery({ text: 'Not available for this item.' });
+          return;
+        }
+        const locations = await ensureStorageLocations(supabase, await loadUserScope(supabase, queueRow.user_id));
+        if (locations.length === 0) {
+          await ctx.answerCallbackQuery({ text: 'Add a storage location with /locations first.' });
+          return;
+        }
+        await ctx.editMessageReplyMarkup({ reply_markup: await buildLocationKeyboard(queueRow.id, chatId!, locations) });
+        await ctx.answerCallbackQuery({ text: 'Where is it now?' });
+      }
+    } catch (err) {
+      logger.error(`Error applying notification action ${action} to queue item ${queueRow.id}`, err);
+      await ctx.answerCallbackQuery({ text: '❌ Could not update the item. Please try again later.' });
+    }
+  });
+
+  // A location picked after "Move", or Back to the notification's own buttons
+  bot.callbackQuery(/^l:/, async (ctx) => {
+    const chatId = ctx.chat?.id;
+    const verified = chatId ? await verifyLocationCallbackData(ctx.callbackQuery.data, chatId) : null;
+
+    if (!verified) {
+      logger.warn('Rejected location choice with invalid signature', { chat_id: chatId });
+      await ctx.answerCallbackQuery({ text: '❌ This action is not valid.' });
+      return;
+    }
+
+    const { data: row, error } = await supabase
+      .from('expiring_items_queue')
+      .select(QUEUE_ROW_COLUMNS)
+      .eq('id', verified.queueId)
+      .eq('chat_id', chatId)
+      .single();
+
+    const resolved = row ? resolveQueueItem(row) : null;
+    if (error || !row || !resolved) {
+      await ctx.answerCallbackQuery({ text: 'This item is no longer tracked.' });
+      await ctx.editMessageReplyMarkup();
+      return;
+    }
+
+    const queueRow = row as QueueRow;
+    const { definition: itemType, itemId } = resolved;
+    const keyboard = await buildNotificationKeyboard(queueRow.id, chatId!, itemType);
+
+    try {
+      if (verified.locationIndex === null) {
+        await ctx.editMessageReplyMarkup({ reply_markup: keyboard });
+        await ctx.answerCallbackQuery();
+        return;
+      }
+
+      // Same list, in the same order, as the picker was built from
+      const locations = await ensureStorageLocations(supabase, await loadUserScope(supabase, queueRow.user_id));
+      const location = locations[verified.locationIndex];
+      if (!location) {
+        await ctx.answerCallbackQuery({ text: 'This location no longer exists.' });
+        await ctx.editMessageReplyMarkup({ reply_markup: await buildLocationKeyboard(queueRow.id, chatId!, locations) });
+        return;
+      }
+
+      const moved = await moveItemToLocation(supabase, itemId, location, queueRow.id);
+      const expiry = moved.expiration_date === moved.previous_expiration_date
+        ? `still expires ${formatDate(moved.expiration_date)}`
+        : `now expires ${formatDate(moved.expiration_date)} (estimated)`;
+      await ctx.answerCallbackQuery({ text: `Moved to ${location.name}` });
+      await appendOutcome(ctx, `📍 Moved to ${location.name} — ${expiry}`, keyboard);
+    } catch (err) {
+      logger.error(`Error moving queue item ${queueRow.id}`, err);
+      await ctx.answerCallbackQuery({ text: '❌ Could not move the item. Please try again later.' });
+    }
+  });
+}
@@ -0,0 +1,399 @@
+import { Bot, Context, InlineKeyboard } from "https://deno.land/x/grammy@v1.36.3/mod.ts";
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { addDays, todayInTimezone } from '../_shared/dates.ts';
+import { escapeHtml, formatDate } from '../_shared/format.ts';
+import { displayName, loadUserLists, mentions, resolveCategory, resolveUnit, UserLists } from '../_shared/item-normalizer.ts';
+import { logger } from '../_shared/logger.ts';
+import { ReceiptLine, visionProviderFor } from '../_shared/receipt-vision.ts';
+import { estimateExpirationDate, loadShelfLifeOverrides, ShelfLifeOverride } from '../_shared/shelf-life.ts';
+import { loadUserScope } from '../_shared/user-auth.ts';
+import { loadUserTimezones } from '../_shared/user-preferences.ts';
+import { parseItemText } from './item-parser.ts';
+import { findUserIdByTelegramId } from './users.ts';
+
+// Receipt import: a photo of a grocery receipt is read by the configured vision provider
+// (_shared/receipt-vision.ts), its lines are matched to the user's units and categories and
+// given an expiry date estimated from shelf life (_shared/shelf-life.ts), and the result is
+// shown as a checklist. Lines can be left out or corrected by replying to a prompt; "Save"
+// inserts the checked lines into food_items.
+
+export interface ReceiptItem {
+  name: string;
+  quantity: number;
+  unit: string;
+  category: string;
+  expiration_date: string;
+  estimated: boolean;        // expiration_date is a shelf-life estimate, not typed by the user
+  selected: boolean;
+}
+
+export interface ReceiptDraft {
+  id: string;
+  user_id: string;
+  chat_id: number;
+  message_id: number | null;
+  provider: string;
+  items: ReceiptItem[];
+  edit_index: number | null;
+  edit_prompt_message_id: number | null;
+}
+
+// Two buttons per line plus Save/Cancel stay well inside Telegram's keyboard limits
+const MAX_RECEIPT_ITEMS = 30;
+const BUTTON_NAME_LENGTH = 24;
+
+// Receipt lines that are not products, in case the provider returns them anyway
+const NON_GROCERY_PHRASES = [
+  'total', 'subtotal', 'sub total', 'tax', 'vat', 'gst', 'discount', 'voucher', 'coupon', 'rounding',
+  'change', 'cash', 'card', 'visa', 'mastercard', 'payment', 'deposit', 'bag fee', 'plastic bag', 'carrier bag',
+  'tổng', 'tổng cộng', 'thành tiền', 'thuế', 'giảm giá', 'khuyến mãi', 'tiền mặt', 'tiền thừa', 'thanh toán', 'túi nilon',
+];
+
+function isGroceryLine(line: ReceiptLine): boolean {
+  const name = line.name.toLowerCase();
+  return /\p{L}/u.test(name) && !NON_GROCERY_PHRASES.some(phrase => mentions(name, phrase));
+}
+
+/**
+ * Turns the provider's lines into checklist items for the user, all checked. Totals, taxes,
+ * payments and bag fees are left out, and the same product printed on several lines becomes
+ * one item with the quantities added up. Household overrides and known products beat the
+ * provider's own shelf-life guess, which in turn beats the generic category lifetimes.
+ */
+export function normalizeReceiptLines(
+  lines: ReceiptLine[],
+  lists: UserLists,
+  today: string,
+  overrides: ShelfLifeOverride[] = []
+): ReceiptItem[] {
+  const items: ReceiptItem[] = [];
+
+  for (const line of lines.filter(isGroceryLine)) {
+    const category = resolveCategory(line.name, lists.categories);
+    const { expiration_date, estimate } = estimateExpirationDate({ name: line.name, category }, today, overrides);
+    const generic = estimate.source === 'category' || estimate.source === 'default';
+    const item: ReceiptItem = {
+      name: line.name.replace(/\s+/g, ' ').trim(),
+      quantity: line.quantity ?? 1,
+      unit: resolveUnit(line.unit, lists.units),
+      category,
+      expiration_date: generic && line.shelf_life_days ? addDays(today, line.shelf_life_days) : expiration_date,
+      estimated: true,
+      selected: true,
+    };
+
+    // The same product in the same unit again: add it up, keeping the earlier expiry
+    const same = items.find(other => other.name.toLowerCase() === item.name.toLowerCase() && other.unit === item.unit);
+    if (same) {
+      same.quantity = Math.round((same.quantity + item.quantity) * 1000) / 1000;
+      if (item.expiration_date < same.expiration_date) same.expiration_date = item.expiration_date;
+    } else {
+      items.push(item);
+    }
+  }
+
+  return items.slice(0, MAX_RECEIPT_ITEMS);
+}
+
+/** The checklist message for a draft, in HTML. */
+export function renderChecklist(draft: ReceiptDraft, lists: UserLists): string {
+  const selected = draft.items.filter(item => item.selected).length;
+  const lines = draft.items.map((item, index) =>
+    `${item.selected ? '✅' : '⬜'} ${index + 1}. <b>${escapeHtml(item.name)}</b>: ` +
+    `${item.quantity} ${escapeHtml(displayName(lists.units, item.unit))} · ` +
+    `${escapeHtml(displayName(lists.categories, item.category))} · 📅 ${formatDate(item.expiration_date)}` +
+    (item.estimated ? ' (est.)' : '')
+  );
+
+  return `🧾 <b>Receipt</b>: ${selected} of ${draft.items.length} items selected
+
+${lines.join('\n')}
+
+Tap an item to leave it out or put it back, ✏️ to correct it.`;
+}
+
+/** A toggle and an edit button per line, then Save and Cancel. */
+export function checklistKeyboard(draft: ReceiptDraft): InlineKeyboard {
+  const keyboard = new InlineKeyboard();
+  draft.items.forEach((item, index) => {
+    const name = item.name.length > BUTTON_NAME_LENGTH ? `${item.name.slice(0, BUTTON_NAME_LENGTH - 1)}…` : item.name;
+    keyboard
+      .text(`${item.selected ? '✅' : '⬜'} ${index + 1}. ${name}`, `rcpt:t:${draft.id}:${index}`)
+      .text('✏️', `rcpt:e:${draft.id}:${index}`)
+      .row();
+  });
+
+  const selected = draft.items.filter(item => item.selected).length;
+  return keyboard
+    .text(`💾 Save ${selected}`, `rcpt:s:${draft.id}`)
+    .text('❌ Cancel', `rcpt:x:${draft.id}`);
+}
+
+export function registerReceiptImportHandlers(bot: Bot, supabase: SupabaseClient) {
+  async function requireUser(ctx: Context): Promise<string | null> {
+    const userId = ctx.from ? await findUserIdByTelegramId(supabase, ctx.from.id) : null;
+    if (!userId) {
+      await ctx.reply("❌ You are not registered yet. Please use /login first.");
+    }
+    return userId;
+  }
+
+  async function userToday(userId: string): Promise<string> {
+    const timezones = await loadUserTimezones(supabase, [userId]);
+    return todayInTimezone(timezones.get(userId));
+  }
+
+  async function userOverrides(userId: string): Promise<ShelfLifeOverride[]> {
+    return await loadShelfLifeOverrides(supabase, await loadUserScope(supabase, userId));
+  }
+
+  async function downloadPhoto(ctx: Context): Promise<Uint8Array> {
+    const file = await ctx.getFile();
+    const response = await fetch(`https://api.telegram.org/file/bot${bot.token}/${file.file_path}`);
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new Error(`Could not download the receipt photo (status ${response.status})`);
+    }
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  async function saveItems(draftId: string, items: ReceiptItem[]): Promise<void> {
+    const { error } = await supabase
+      .from('telegram_receipt_drafts')
+      .update({ items })
+      .eq('id', draftId);
+
+    if (error) throw error;
+  }
+
+  async function importReceipt(ctx: Context, mimeType: string): Promise<void> {
+    const chatId = ctx.chat!.id;
+    const userId = await requireUser(ctx);
+    if (!userId) return;
+
+    const provider = await visionProviderFor(supabase, userId);
+    if (typeof provider === 'string') {
+      await ctx.reply(`🔑 ${provider}`);
+      return;
+    }
+
+    const status = await ctx.reply('🔎 Reading your receipt…');
+    const lines = await provider.extractReceiptLines({ data: await downloadPhoto(ctx), mimeType });
+    logger.info('Receipt read', { user_id: userId, provider: provider.name, lines: lines.length });
+
+    if (lines.length === 0) {
+      await ctx.api.editMessageText(chatId, status.message_id,
+        "🧾 I couldn't find any items on this receipt. Try a sharper photo, or add items with /add.");
+      return;
+    }
+
+    const [lists, today, overrides] = await Promise.all([
+      loadUserLists(supabase, userId),
+      userToday(userId),
+      userOverrides(userId),
+    ]);
+
+    // Drop this chat's stale drafts before creating a new one
+    await supabase
+      .from('telegram_receipt_drafts')
+      .delete()
+      .eq('chat_id', chatId)
+      .lt('expires_at', new Date().toISOString());
+
+    const { data: draft, error } = await supabase
+      .from('telegram_receipt_drafts')
+      .insert({
+        user_id: userId,
+        chat_id: chatId,
+        message_id: status.message_id,
+        provider: provider.name,
+        items: normalizeReceiptLines(lines, lists, today, overrides),
+      })
+      .select('*')
+      .single();
+
+    if (error) throw error;
+
+    const receiptDraft = draft as ReceiptDraft;
+    await ctx.api.editMessageText(chatId, status.message_id, renderChecklist(receiptDraft, lists), {
+      parse_mode: 'HTML',
+      reply_markup: checklistKeyboard(receiptDraft),
+    });
+  }
+
+  // Receipts are read in private chats only, as photos or as image files
+  bot.on(["message:photo", "message:document"], async (ctx, next) => {
+    const document = ctx.message.document;
+    if (ctx.chat.type !== 'private' || (document && !document.mime_type?.startsWith('image/'))) {
+      return next();
+    }
+
+    try {
+      await importReceipt(ctx, document?.mime_type || 'image/jpeg');
+    } catch (error) {
+      logger.error('Error importing receipt', error);
+      await ctx.reply("❌ Could not read the receipt. Please try again later.");
+    }
+  });
+
+  bot.callbackQuery(/^rcpt:(t|e|s|x):([0-9a-f-]{36})(?::(\d+))?$/, async (ctx) => {
+    const [, op, draftId, index] = ctx.match;
+
+    const { data: draft, error } = await supabase
+      .from('telegram_receipt_drafts')
+      .select('*')
+      .eq('id', draftId)
+      .eq('chat_id', ctx.chat?.id)
+      .gt('expires_at', new Date().toISOString())
+      .single();
+
+    if (error || !draft) {
+      await ctx.answerCallbackQuery({ text: 'This receipt has expired. Please send the photo again.' });
+      await ctx.editMessageReplyMarkup();
+      return;
+    }
+
+    const receiptDraft = draft as ReceiptDraft;
+    const item = index === undefined ? null : receiptDraft.items[Number(index)];
+    if ((op === 't' || op === 'e') && !item) {
+      await ctx.answerCallbackQuery({ text: 'That line is no longer available.' });
+      return;
+    }
+
+    if (op === 'x') {
+      await supabase.from('telegram_receipt_drafts').delete().eq('id', receiptDraft.id);
+      await ctx.answerCallbackQuery({ text: 'Cancelled' });
+      await ctx.editMessageText('❌ Receipt import cancelled.');
+      return;
+    }
+
+    if (op === 'e') {
+      await ctx.answerCallbackQuery();
+      const prompt = await ctx.reply(
+        `✏️ Reply with the corrected line ${Number(index) + 1} (<b>${escapeHtml(item!.name)}</b>), ` +
+        `e.g. <code>2 kg chicken exp 25/10</code>. Without a date I keep estimating it.`,
+        { parse_mode: 'HTML', reply_markup: { force_reply: true } }
+      );
+
+      const { error: updateError } = await supabase
+        .from('telegram_receipt_drafts')
+        .update({ edit_index: Number(index), edit_prompt_message_id: prompt.message_id })
+        .eq('id', receiptDraft.id);
+
+      if (updateError) throw updateError;
+      return;
+    }
+
+    const lists = await loadUserLists(supabase, receiptDraft.user_id);
+
+    if (op === 's') {
+      const selected = receiptDraft.items.filter(line => line.selected);
+      if (selected.length === 0) {
+        await ctx.answerCallbackQuery({ text: 'No items are selected.' });
+        return;
+      }
+
+      const { error: insertError } = await supabase
+        .from('food_items')
+        .insert(selected.map(line => ({
+          user_id: receiptDraft.user_id,
+          name: line.name,
+          quantity: line.quantity,
+          unit: line.unit,
+          category: line.category,
+          expiration_date: line.expiration_date,
+          expiration_estimated: line.estimated,
+        })));
+
+      if (insertError) {
+        logger.error('Error saving food items from receipt', insertError);
+        await ctx.answerCallbackQuery({ text: '❌ Could not save the items. Please try again.' });
+        return;
+      }
+
+      await supabase.from('telegram_receipt_drafts').delete().eq('id', receiptDraft.id);
+      logger.info('Receipt items saved', { user_id: receiptDraft.user_id, items: selected.length });
+      await ctx.answerCallbackQuery({ text: 'Saved!' });
+      await ctx.editMessageText(
+        `✅ <b>Saved ${selected.length} items</b> from your receipt:\n` +
+        selected.map(line => `• ${escapeHtml(line.name)} (📅 ${formatDate(line.expiration_date)})`).join('\n'),
+        { parse_mode: 'HTML' }
+      );
+      return;
+    }
+
+    // 't' toggles whether the line is saved
+    item!.selected = !item!.selected;
+    await saveItems(receiptDraft.id, receiptDraft.items);
+    await ctx.answerCallbackQuery();
+    await ctx.editMessageText(renderChecklist(receiptDraft, lists), {
+      parse_mode: 'HTML',
+      reply_markup: checklistKeyboard(receiptDraft),
+    });
+  });
+
+  // Corrections replying to the ✏️ prompt; registered before the plain-text item fallback so
+  // they are not read as new items
+  bot.on("message:text", async (ctx, next) => {
+    const prompt = ctx.message.reply_to_message;
+    if (!prompt || prompt.from?.id !== ctx.me.id) {
+      return next();
+    }
+
+    const { data: draft, error } = await supabase
+      .from('telegram_receipt_drafts')
+      .select('*')
+      .eq('chat_id', ctx.chat.id)
+      .eq('edit_prompt_message_id', prompt.message_id)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle();
+
+    if (error || !draft) {
+      return next();
+    }
+
+    try {
+      const receiptDraft = draft as ReceiptDraft;
+      const item = receiptDraft.edit_index === null ? null : receiptDraft.items[receiptDraft.edit_index];
+      if (!item) return;
+
+      const [lists, today, overrides] = await Promise.all([
+        loadUserLists(supabase, receiptDraft.user_id),
+        userToday(receiptDraft.user_id),
+        userOverrides(receiptDraft.user_id),
+      ]);
+      const parsed = parseItemText(ctx.message.text, lists.units.flatMap(u => [u.name, u.display_name]), today);
+      if (!parsed.name) {
+        await ctx.reply('✏️ Please reply with at least the item name, e.g. <code>2 kg chicken exp 25/10</code>.', { parse_mode: 'HTML' });
+        return;
+      }
+
+      item.name = parsed.name;
+      item.quantity = parsed.quantity;
+      if (parsed.unit) item.unit = resolveUnit(parsed.unit, lists.units);
+      item.category = resolveCategory(parsed.name, lists.categories);
+      item.expiration_date = parsed.expiration_date ||
+        estimateExpirationDate({ name: item.name, category: item.category }, today, overrides).expiration_date;
+      item.estimated = !parsed.expiration_date;
+      item.selected = true;
+
+      const { error: updateError } = await supabase
+        .from('telegram_receipt_drafts')
+        .update({ items: receiptDraft.items, edit_index: null, edit_prompt_message_id: null })
+        .eq('id', receiptDraft.id);
+
+      if (updateError) throw updateError;
+
+      if (receiptDraft.message_id) {
+        await ctx.api.editMessageText(receiptDraft.chat_id, receiptDraft.message_id, renderChecklist(receiptDraft, lists), {
+          parse_mode: 'HTML',
+          reply_markup: checklistKeyboard(receiptDraft),
+        });
+      }
+      await ctx.reply(`✏️ Line ${receiptDraft.edit_index! + 1} updated: ${escapeHtml(item.name)}`, { parse_mode: 'HTML' });
+    } catch (error) {
+      logger.error('Error correcting receipt line', error);
+      await ctx.reply("❌ Could not update the line. Please try again later.");
+    }
+  });
+}
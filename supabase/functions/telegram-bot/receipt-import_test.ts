@@ -0,0 +1,71 @@
+import { assert, assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { UserLists } from '../_shared/item-normalizer.ts';
+import { fakeVisionProvider } from '../_shared/receipt-vision.ts';
+import { checklistKeyboard, normalizeReceiptLines, ReceiptDraft, renderChecklist } from './receipt-import.ts';
+
+const TODAY = '2025-10-15';
+
+// The lists seed_default_categories_units() gives a new user
+const LISTS: UserLists = {
+  units: ['pieces', 'lbs', 'oz', 'kg', 'g', 'cups', 'liters', 'ml', 'cans', 'bottles', 'packages']
+    .map(name => ({ name, display_name: name[0].toUpperCase() + name.slice(1) })),
+  categories: ['fruits', 'vegetables', 'dairy', 'meat', 'grains', 'pantry', 'frozen', 'beverages', 'snacks', 'other']
+    .map(name => ({ name, display_name: name[0].toUpperCase() + name.slice(1) })),
+};
+
+async function fakeReceiptItems() {
+  const provider = fakeVisionProvider();
+  const lines = await provider.extractReceiptLines({ data: new Uint8Array(), mimeType: 'image/jpeg' });
+  return normalizeReceiptLines(lines, LISTS, TODAY);
+}
+
+Deno.test('normalizeReceiptLines leaves out totals, taxes and bag fees', async () => {
+  const names = (await fakeReceiptItems()).map(item => item.name);
+  assertEquals(names, ['Fresh milk', 'Chicken breast', 'Bananas', 'Greek yogurt', 'Jasmine rice', 'Soy sauce']);
+});
+
+Deno.test('normalizeReceiptLines adds up a product printed on two lines', async () => {
+  const bananas = (await fakeReceiptItems()).filter(item => item.name === 'Bananas');
+  assertEquals(bananas.length, 1);
+  assertEquals(bananas[0].quantity, 10);
+  assertEquals(bananas[0].unit, 'pieces');
+});
+
+Deno.test('normalizeReceiptLines resolves units and categories', async () => {
+  const items = await fakeReceiptItems();
+  assertEquals(
+    items.map(item => [item.name, item.quantity, item.unit, item.category]),
+    [
+      ['Fresh milk', 2, 'liters', 'dairy'],
+      ['Chicken breast', 0.5, 'kg', 'meat'],
+      ['Bananas', 10, 'pieces', 'fruits'],
+      ['Greek yogurt', 4, 'cups', 'dairy'],
+      ['Jasmine rice', 5, 'kg', 'grains'],
+      ['Soy sauce', 1, 'bottles', 'pantry'],
+    ],
+  );
+  assert(items.every(item => item.estimated && item.selected && item.expiration_date > TODAY));
+});
+
+Deno.test('the checklist lists every item with a button each and saves them all', async () => {
+  const draft: ReceiptDraft = {
+    id: '00000000-0000-0000-0000-000000000001',
+    user_id: 'user',
+    chat_id: 1,
+    message_id: 2,
+    provider: 'fake',
+    items: await fakeReceiptItems(),
+    edit_index: null,
+    edit_prompt_message_id: null,
+  };
+
+  const text = renderChecklist(draft, LISTS);
+  assert(text.includes('6 of 6 items selected'));
+  assert(text.includes('3. <b>Bananas</b>: 10 Pieces · Fruits'));
+  assert(!text.includes('TOTAL') && !text.includes('VAT') && !text.includes('Plastic bag'));
+
+  const rows = checklistKeyboard(draft).inline_keyboard;
+  assertEquals(rows.length, 7);
+  assertEquals(rows[2].map(button => button.text), ['✅ 3. Bananas', '✏️']);
+  assertEquals(rows[6].map(button => button.text), ['💾 Save 6', '❌ Cancel']);
+});
@@ -0,0 +1,269 @@
+import { Bot, Context, GrammyError, InlineKeyboard } from "https://deno.land/x/grammy@v1.36.3/mod.ts";
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { escapeHtml } from '../_shared/format.ts';
+import { logger } from '../_shared/logger.ts';
+import {
+  DEFAULT_PRIORITY_THRESHOLDS,
+  mergeThresholds,
+  PriorityThresholds,
+  ThresholdSettings,
+} from '../_shared/priority-thresholds.ts';
+import {
+  isValidTimeOfDay,
+  isValidTimezone,
+  loadNotificationPreferences,
+  NotificationPreferences,
+  QuietHours,
+  saveNotificationPreferences,
+} from '../_shared/user-preferences.ts';
+import { findUserIdByTelegramId } from './users.ts';
+
+type SettingField = 'tz' | 'time' | 'quiet' | 'mode';
+
+// Picker options; callback data carries the option index: `set:<field>:<index>`
+const TIMEZONE_OPTIONS = [
+  'UTC',
+  'Asia/Ho_Chi_Minh',
+  'Asia/Bangkok',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Europe/London',
+  'Europe/Berlin',
+  'America/New_York',
+  'America/Chicago',
+  'America/Los_Angeles',
+];
+
+const DELIVERY_TIME_OPTIONS = ['06:00', '07:00', '08:00', '09:00', '12:00', '18:00', '20:00'];
+
+const QUIET_HOURS_OPTIONS: (QuietHours | null)[] = [
+  null,
+  { start: '21:00', end: '06:00' },
+  { start: '22:00', end: '07:00' },
+  { start: '23:00', end: '08:00' },
+];
+
+const MODE_OPTIONS: NotificationPreferences['delivery_mode'][] = ['immediate', 'digest'];
+
+const USAGE_TEXT = `You can also type a setting directly:
+• <code>/settings timezone Europe/Paris</code>
+• <code>/settings time 07:30</code>
+• <code>/settings quiet 22:00-07:00</code> or <code>/settings quiet off</code>
+• <code>/settings mode digest</code> or <code>/settings mode immediate</code>
+• <code>/settings thresholds dairy 0 2 4 7</code> (urgent, high, medium, reminder horizon in days; category or <code>default</code>)
+• <code>/settings thresholds dairy reset</code>`;
+
+function formatQuietHours(quietHours: QuietHours | null): string {
+  return quietHours ? `${quietHours.start}–${quietHours.end}` : 'off';
+}
+
+function formatMode(mode: NotificationPreferences['delivery_mode']): string {
+  return mode === 'digest' ? 'daily digest' : 'one message per item';
+}
+
+function formatThresholds(thresholds: PriorityThresholds): string {
+  return `🚨 ≤${thresholds.urgent} · ⚠️ ≤${thresholds.high} · 📅 ≤${thresholds.medium} · remind ≤${thresholds.horizon} days`;
+}
+
+function localTime(timezone: string): string {
+  return new Intl.DateTimeFormat('en-GB', { timeZone: timezone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' })
+    .format(new Date());
+}
+
+function renderSettings(preferences: NotificationPreferences): string {
+  const overrides = Object.entries(preferences.thresholds.categories)
+    .map(([category, thresholds]) => `\n   • ${escapeHtml(category)}: ${formatThresholds(thresholds)}`)
+    .join('');
+
+  return `⚙️ <b>Notification settings</b>
+
+🌍 <b>Time zone:</b> ${escapeHtml(preferences.timezone)} (now ${localTime(preferences.timezone)})
+⏰ <b>Delivery time:</b> ${preferences.delivery_time}
+🌙 <b>Quiet hours:</b> ${formatQuietHours(preferences.quiet_hours)}
+📬 <b>Delivery:</b> ${formatMode(preferences.delivery_mode)}
+🚦 <b>Priorities:</b> ${formatThresholds(preferences.thresholds.default)}${overrides}
+
+${USAGE_TEXT}`;
+}
+
+function settingsKeyboard(): InlineKeyboard {
+  return new InlineKeyboard()
+    .text('🌍 Time zone', 'set:tz')
+    .text('⏰ Delivery time', 'set:time')
+    .row()
+    .text('🌙 Quiet hours', 'set:quiet')
+    .text('📬 Delivery mode', 'set:mode');
+}
+
+function optionLabels(field: SettingField): string[] {
+  switch (field) {
+    case 'tz': return TIMEZONE_OPTIONS;
+    case 'time': return DELIVERY_TIME_OPTIONS;
+    case 'quiet': return QUIET_HOURS_OPTIONS.map(formatQuietHours);
+    case 'mode': return MODE_OPTIONS.map(formatMode);
+  }
+}
+
+function optionKeyboard(field: SettingField): InlineKeyboard {
+  const keyboard = new InlineKeyboard();
+  optionLabels(field).forEach((label, index) => {
+    keyboard.text(label, `set:${field}:${index}`);
+    if (index % 2 === 1) keyboard.row();
+  });
+  return keyboard.row().text('↩️ Back', 'set:back');
+}
+
+function optionChange(field: SettingField, index: number): Partial<NotificationPreferences> | null {
+  switch (field) {
+    case 'tz': return TIMEZONE_OPTIONS[index] ? { timezone: TIMEZONE_OPTIONS[index] } : null;
+    case 'time': return DELIVERY_TIME_OPTIONS[index] ? { delivery_time: DELIVERY_TIME_OPTIONS[index] } : null;
+    case 'quiet': return index < QUIET_HOURS_OPTIONS.length ? { quiet_hours: QUIET_HOURS_OPTIONS[index] } : null;
+    case 'mode': return MODE_OPTIONS[index] ? { delivery_mode: MODE_OPTIONS[index] } : null;
+  }
+}
+
+// Parses `/settings thresholds <category|default> <urgent> <high> <medium> <horizon>` (or `reset`)
+// against the current settings; returns the new threshold settings or an error message
+function parseThresholdsCommand(args: string[], current: ThresholdSettings): ThresholdSettings | string {
+  const [target, ...values] = args;
+  if (!target) return 'Tell me which category to change, or "default".';
+
+  const category = target.toLowerCase();
+  const categories = { ...current.categories };
+
+  if (values.length === 1 && values[0].toLowerCase() === 'reset') {
+    if (category === 'default') return { default: DEFAULT_PRIORITY_THRESHOLDS, categories };
+    delete categories[category];
+    return { default: current.default, categories };
+  }
+
+  const [urgent, high, medium, horizon] = values.map(Number);
+  const thresholds = values.length === 4
+    ? mergeThresholds({ urgent, high, medium, horizon }, current.default)
+    : null;
+
+  if (!thresholds) {
+    return 'Thresholds must be four whole numbers of days in increasing order (urgent, high, medium, horizon), with a horizon of at most 60.';
+  }
+
+  return category === 'default'
+    ? { default: thresholds, categories }
+    : { default: current.default, categories: { ...categories, [category]: thresholds } };
+}
+
+// Parses `/settings <setting> <value>`; returns the change or an error message
+function parseSettingCommand(text: string, current: NotificationPreferences): Partial<NotificationPreferences> | string {
+  const [setting, ...rest] = text.split(/\s+/);
+  const value = rest.join(' ');
+
+  switch (setting.toLowerCase()) {
+    case 'timezone':
+    case 'tz':
+      return isValidTimezone(value) ? { timezone: value } : `Unknown time zone "${value}". Use a name like Asia/Ho_Chi_Minh.`;
+    case 'time':
+      return isValidTimeOfDay(value) ? { delivery_time: value } : 'Delivery time must look like 08:00.';
+    case 'quiet': {
+      if (value.toLowerCase() === 'off') return { quiet_hours: null };
+      const [start, end] = value.split('-').map(part => part.trim());
+      return isValidTimeOfDay(start) && isValidTimeOfDay(end) && start !== end
+        ? { quiet_hours: { start, end } }
+        : 'Quiet hours must look like 22:00-07:00, or "off".';
+    }
+    case 'mode': {
+      const mode = value.toLowerCase();
+      return mode === 'digest' || mode === 'immediate'
+        ? { delivery_mode: mode }
+        : 'Delivery mode must be "digest" or "immediate".';
+    }
+    case 'thresholds':
+    case 'threshold': {
+      const thresholds = parseThresholdsCommand(rest, current.thresholds);
+      return typeof thresholds === 'string' ? thresholds : { thresholds };
+    }
+    default:
+      return `Unknown setting "${setting}".`;
+  }
+}
+
+// Edits the settings message, ignoring "message is not modified" when nothing changed
+async function editSettings(ctx: Context, text: string, keyboard: InlineKeyboard) {
+  try {
+    await ctx.editMessageText(text, { parse_mode: 'HTML', reply_markup: keyboard });
+  } catch (error) {
+    if (error instanceof GrammyError && error.description.includes('message is not modified')) return;
+    throw error;
+  }
+}
+
+export function registerSettingsHandlers(bot: Bot, supabase: SupabaseClient) {
+  async function requireUser(ctx: Context): Promise<string | null> {
+    const userId = ctx.from ? await findUserIdByTelegramId(supabase, ctx.from.id) : null;
+    if (!userId) {
+      if (ctx.callbackQuery) {
+        await ctx.answerCallbackQuery({ text: 'Please use /login first.' });
+      } else {
+        await ctx.reply("❌ You are not registered yet. Please use /login first.");
+      }
+    }
+    return userId;
+  }
+
+  async function loadPreferences(userId: string): Promise<NotificationPreferences> {
+    const preferences = await loadNotificationPreferences(supabase, [userId]);
+    return preferences.get(userId)!;
+  }
+
+  bot.command("settings", async (ctx) => {
+    try {
+      const userId = await requireUser(ctx);
+      if (!userId) return;
+
+      const text = ctx.match?.trim();
+      let preferences = await loadPreferences(userId);
+
+      if (text) {
+        const change = parseSettingCommand(text, preferences);
+        if (typeof change === 'string') {
+          await ctx.reply(`❌ ${escapeHtml(change)}\n\n${USAGE_TEXT}`, { parse_mode: 'HTML' });
+          return;
+        }
+        preferences = await saveNotificationPreferences(supabase, userId, change);
+      }
+
+      await ctx.reply(renderSettings(preferences), { parse_mode: 'HTML', reply_markup: settingsKeyboard() });
+    } catch (error) {
+      logger.error('Error handling /settings', error);
+      await ctx.reply("❌ Could not update your settings. Please try again later.");
+    }
+  });
+
+  bot.callbackQuery(/^set:(tz|time|quiet|mode|back)(?::(\d+))?$/, async (ctx) => {
+    const userId = await requireUser(ctx);
+    if (!userId) return;
+
+    const [, field, index] = ctx.match;
+
+    if (field === 'back') {
+      await ctx.answerCallbackQuery();
+      await editSettings(ctx, renderSettings(await loadPreferences(userId)), settingsKeyboard());
+      return;
+    }
+
+    if (index === undefined) {
+      await ctx.answerCallbackQuery();
+      await ctx.editMessageReplyMarkup({ reply_markup: optionKeyboard(field as SettingField) });
+      return;
+    }
+
+    const change = optionChange(field as SettingField, Number(index));
+    if (!change) {
+      await ctx.answerCallbackQuery({ text: 'That option is no longer available.' });
+      return;
+    }
+
+    const preferences = await saveNotificationPreferences(supabase, userId, change);
+    await ctx.answerCallbackQuery({ text: 'Saved' });
+    await editSettings(ctx, renderSettings(preferences), settingsKeyboard());
+  });
+}
@@ -0,0 +1,166 @@
+import { Bot, Context } from "https://deno.land/x/grammy@v1.36.3/mod.ts";
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { escapeHtml } from '../_shared/format.ts';
+import { loadUserLists, resolveCategory } from '../_shared/item-normalizer.ts';
+import { logger } from '../_shared/logger.ts';
+import {
+  deleteShelfLifeOverride,
+  estimateShelfLife,
+  loadShelfLifeOverrides,
+  resolveOverrideOwner,
+  saveShelfLifeOverride,
+  ShelfLifeEstimate,
+  ShelfLifeOverride,
+  STORAGE_KINDS,
+  StorageKind,
+  validateShelfLifeOverride,
+} from '../_shared/shelf-life.ts';
+import { loadUserScope } from '../_shared/user-auth.ts';
+import { findUserIdByTelegramId } from './users.ts';
+
+// /shelflife: shows how long an item is expected to keep and manages the household's
+// overrides of the built-in shelf-life rules (_shared/shelf-life.ts).
+
+const USAGE_TEXT = `🗓️ <b>Shelf life</b>
+
+• <code>/shelflife chicken</code>: how long it usually keeps
+• <code>/shelflife chicken 4 fridge</code>: it keeps 4 days in your fridge
+• <code>/shelflife category dairy 10</code>: a whole category keeps 10 days
+• <code>/shelflife remove chicken</code>: back to the built-in rule
+
+Storage is one of ${STORAGE_KINDS.join(', ')}; leave it out to cover all of them.`;
+
+const STORAGE_EMOJI: Record<StorageKind, string> = {
+  pantry: '🥫',
+  fridge: '🧊',
+  freezer: '❄️',
+};
+
+interface OverrideArgs {
+  subject: string;
+  isCategory: boolean;
+  days: number | null;
+  storage: StorageKind | null;
+}
+
+// "[category] <name> [days] [storage]"
+function parseArgs(text: string): OverrideArgs {
+  const words = text.toLowerCase().split(/\s+/).filter(Boolean);
+  const storage = STORAGE_KINDS.includes(words[words.length - 1] as StorageKind) ? words.pop() as StorageKind : null;
+  const days = /^\d+$/.test(words[words.length - 1] || '') ? Number(words.pop()) : null;
+  const isCategory = words[0] === 'category' && words.length > 1;
+  if (isCategory) words.shift();
+  return { subject: words.join(' '), isCategory, days, storage };
+}
+
+function describeSource(estimate: ShelfLifeEstimate): string {
+  switch (estimate.source) {
+    case 'household': return `your household's rule for ${estimate.matched}`;
+    case 'product': return `typical for ${estimate.matched}`;
+    case 'category': return `typical for ${estimate.matched}`;
+    default: return 'general default';
+  }
+}
+
+function describeOverride(override: ShelfLifeOverride): string {
+  const subject = override.product ? escapeHtml(override.product) : `category ${escapeHtml(override.category!)}`;
+  const storage = override.storage ? ` (${override.storage})` : '';
+  return `• ${subject}${storage}: ${override.days} day${override.days === 1 ? '' : 's'}`;
+}
+
+export function registerShelfLifeHandlers(bot: Bot, supabase: SupabaseClient) {
+  async function requireUser(ctx: Context): Promise<string | null> {
+    const userId = ctx.from ? await findUserIdByTelegramId(supabase, ctx.from.id) : null;
+    if (!userId) {
+      await ctx.reply("❌ You are not registered yet. Please use /login first.");
+    }
+    return userId;
+  }
+
+  bot.command("shelflife", async (ctx) => {
+    try {
+      const userId = await requireUser(ctx);
+      if (!userId) return;
+
+      const scope = await loadUserScope(supabase, userId);
+      const overrides = await loadShelfLifeOverrides(supabase, scope);
+      const argument = ctx.match?.trim() || '';
+
+      if (!argument) {
+        const list = overrides.length > 0
+          ? `<b>Your household's rules</b>\n${overrides.map(describeOverride).join('\n')}`
+          : 'Your household uses the built-in rules.';
+        await ctx.reply(`${list}\n\n${USAGE_TEXT}`, { parse_mode: 'HTML' });
+        return;
+      }
+
+      const removing = argument.toLowerCase().startsWith('remove ');
+      const args = parseArgs(removing ? argument.slice('remove '.length) : argument);
+      if (!args.subject) {
+        await ctx.reply(USAGE_TEXT, { parse_mode: 'HTML' });
+        return;
+      }
+
+      const { categories } = await loadUserLists(supabase, userId);
+      let category: string | null = null;
+      if (args.isCategory) {
+        category = categories.find(c => c.name === args.subject || c.display_name.toLowerCase() === args.subject)?.name || null;
+        if (!category) {
+          await ctx.reply(`❌ Unknown category. Yours are: ${categories.map(c => escapeHtml(c.name)).join(', ')}`, { parse_mode: 'HTML' });
+          return;
+        }
+      }
+
+      if (removing) {
+        const matching = overrides.filter(override =>
+          (category ? override.category === category : override.product === args.subject) &&
+          (!args.storage || override.storage === args.storage)
+        );
+        for (const override of matching) {
+          await deleteShelfLifeOverride(supabase, scope, override.id);
+        }
+        await ctx.reply(matching.length > 0
+          ? `🗑️ Removed ${matching.length} rule${matching.length === 1 ? '' : 's'}; the built-in rules apply again.`
+          : '🗓️ Your household has no such rule.');
+        return;
+      }
+
+      // Without a number of days, show the current estimate
+      if (args.days === null) {
+        const estimate = estimateShelfLife(
+          { name: args.subject, category: category || resolveCategory(args.subject, categories), storage: args.storage },
+          overrides
+        );
+        await ctx.reply(
+          `${STORAGE_EMOJI[estimate.storage]} <b>${escapeHtml(args.subject)}</b> keeps about ${estimate.days} ` +
+          `day${estimate.days === 1 ? '' : 's'} in the ${estimate.storage} (${escapeHtml(describeSource(estimate))}).`,
+          { parse_mode: 'HTML' }
+        );
+        return;
+      }
+
+      const owner = resolveOverrideOwner(scope);
+      if (typeof owner === 'string') {
+        await ctx.reply(`❌ ${owner}`);
+        return;
+      }
+
+      const override = validateShelfLifeOverride({
+        product: category ? null : args.subject,
+        category,
+        storage: args.storage,
+        days: args.days,
+      });
+      if (typeof override === 'string') {
+        await ctx.reply(`❌ ${override}`);
+        return;
+      }
+
+      const saved = await saveShelfLifeOverride(supabase, owner, override, userId);
+      await ctx.reply(`✅ Saved for your household:\n${describeOverride(saved)}`, { parse_mode: 'HTML' });
+    } catch (error) {
+      logger.error('Error handling /shelflife', error);
+      await ctx.reply("❌ Could not update shelf-life rules. Please try again later.");
+    }
+  });
+}
@@ -0,0 +1,179 @@
+import { Bot, Context, InlineKeyboard } from "https://deno.land/x/grammy@v1.36.3/mod.ts";
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { addDays, todayInTimezone } from '../_shared/dates.ts';
+import { escapeHtml, formatDate } from '../_shared/format.ts';
+import { displayName, loadUserLists, UserLists } from '../_shared/item-normalizer.ts';
+import { logger } from '../_shared/logger.ts';
+import {
+  clearCompletedShoppingItems,
+  generateShoppingList,
+  loadShoppingList,
+  MAX_PLAN_DAYS,
+  setShoppingItemCompleted,
+  ShoppingItem,
+} from '../_shared/shopping-list.ts';
+import { loadUserScope } from '../_shared/user-auth.ts';
+import { loadUserTimezones } from '../_shared/user-preferences.ts';
+import { findUserIdByTelegramId } from './users.ts';
+
+// /shop shows the household's shopping list with a button per item to tick it off;
+// /shop plan adds what the planned meals need and the inventory does not cover
+// (_shared/shopping-list.ts).
+
+const SHOP_USAGE_TEXT = `🛒 <b>Shopping list</b>
+
+• <code>/shop</code>: your list; tap an item to tick it off
+• <code>/shop plan</code>: add what this week's meal plans need
+• <code>/shop plan 3</code>: only for the next 3 days
+• <code>/shop clear</code>: remove the ticked-off items`;
+
+const DEFAULT_PLAN_DAYS = 7;
+// Telegram allows 100 buttons per message; longer lists show the rest without buttons
+const MAX_BUTTONS = 40;
+const BUTTON_NAME_LENGTH = 28;
+
+function formatQuantity(item: ShoppingItem, lists: UserLists): string {
+  return `${Math.round(item.quantity * 100) / 100} ${displayName(lists.units, item.unit)}`;
+}
+
+function renderList(items: ShoppingItem[], lists: UserLists): string {
+  if (items.length === 0) {
+    return `🛒 Your shopping list is empty.\n\n${SHOP_USAGE_TEXT}`;
+  }
+
+  const open = items.filter(item => !item.completed).length;
+  const lines = items.map(item =>
+    `${item.completed ? '☑️' : '☐'} ${item.completed ? `<s>${escapeHtml(item.name)}</s>` : `<b>${escapeHtml(item.name)}</b>`}: ` +
+    `${escapeHtml(formatQuantity(item, lists))} · ${escapeHtml(displayName(lists.categories, item.category))}` +
+    (item.source === 'meal-plan' ? ' 🍽️' : '')
+  );
+
+  return `🛒 <b>Shopping list</b>: ${open} of ${items.length} left
+
+${lines.join('\n')}
+
+Tap an item to tick it off or put it back. 🍽️ marks items for your meal plans.`;
+}
+
+function listKeyboard(items: ShoppingItem[]): InlineKeyboard | undefined {
+  if (items.length === 0) return undefined;
+
+  const keyboard = new InlineKeyboard();
+  items.slice(0, MAX_BUTTONS).forEach(item => {
+    const name = item.name.length > BUTTON_NAME_LENGTH ? `${item.name.slice(0, BUTTON_NAME_LENGTH - 1)}…` : item.name;
+    keyboard.text(`${item.completed ? '☑️' : '☐'} ${name}`, `shop:t:${item.id}`).row();
+  });
+
+  if (items.some(item => item.completed)) {
+    keyboard.text('🧹 Remove ticked-off', 'shop:c');
+  }
+  return keyboard;
+}
+
+export function registerShoppingHandlers(bot: Bot, supabase: SupabaseClient) {
+  async function requireUser(ctx: Context): Promise<string | null> {
+    const userId = ctx.from ? await findUserIdByTelegramId(supabase, ctx.from.id) : null;
+    if (!userId) {
+      await ctx.reply("❌ You are not registered yet. Please use /login first.");
+    }
+    return userId;
+  }
+
+  // The list as the message and keyboard to show it with
+  async function listMessage(userId: string): Promise<{ text: string; keyboard: InlineKeyboard | undefined }> {
+    const scope = await loadUserScope(supabase, userId);
+    const [items, lists] = await Promise.all([
+      loadShoppingList(supabase, scope.userIds),
+      loadUserLists(supabase, userId),
+    ]);
+    return { text: renderList(items, lists), keyboard: listKeyboard(items) };
+  }
+
+  bot.command("shop", async (ctx) => {
+    try {
+      const userId = await requireUser(ctx);
+      if (!userId) return;
+
+      const [action, ...args] = (ctx.match?.trim() || '').split(/\s+/).filter(Boolean);
+
+      if (action === 'plan') {
+        const days = args[0] ? Number(args[0]) : DEFAULT_PLAN_DAYS;
+        if (!Number.isInteger(days) || days < 1 || days > MAX_PLAN_DAYS) {
+          await ctx.reply(`❌ Plan for 1 to ${MAX_PLAN_DAYS} days, e.g. /shop plan 3.`);
+          return;
+        }
+
+        const timezone = (await loadUserTimezones(supabase, [userId])).get(userId)!;
+        const start = todayInTimezone(timezone);
+        const end = addDays(start, days - 1);
+        const scope = await loadUserScope(supabase, userId);
+        const generated = await generateShoppingList(supabase, scope, { start, end });
+
+        const period = `${formatDate(start)} – ${formatDate(end)}`;
+        if (generated.meals === 0) {
+          await ctx.reply(`🍽️ No meals with a recipe are planned for ${period}.`);
+          return;
+        }
+
+        const summary = generated.items.length === 0
+          ? `✅ What the ${generated.meals} meals planned for ${period} need is in stock or already on your list.`
+          : `🍽️ ${generated.meals} meals planned for ${period}: ${generated.created} items added, ${generated.updated} updated.`;
+        const { text, keyboard } = await listMessage(userId);
+        await ctx.reply(`${summary}\n\n${text}`, { parse_mode: 'HTML', reply_markup: keyboard });
+        return;
+      }
+
+      if (action === 'clear') {
+        const scope = await loadUserScope(supabase, userId);
+        const removed = await clearCompletedShoppingItems(supabase, scope.userIds);
+        await ctx.reply(removed > 0
+          ? `🧹 Removed ${removed} ticked-off item${removed === 1 ? '' : 's'}.`
+          : '🛒 Nothing is ticked off yet.');
+        return;
+      }
+
+      if (action) {
+        await ctx.reply(SHOP_USAGE_TEXT, { parse_mode: 'HTML' });
+        return;
+      }
+
+      const { text, keyboard } = await listMessage(userId);
+      await ctx.reply(text, { parse_mode: 'HTML', reply_markup: keyboard });
+    } catch (error) {
+      logger.error('Error handling /shop', error);
+      await ctx.reply("❌ Could not load your shopping list. Please try again later.");
+    }
+  });
+
+  bot.callbackQuery(/^shop:(?:t:([0-9a-f-]{36})|(c))$/, async (ctx) => {
+    try {
+      const userId = ctx.from ? await findUserIdByTelegramId(supabase, ctx.from.id) : null;
+      if (!userId) {
+        await ctx.answerCallbackQuery({ text: 'Please use /login first.' });
+        return;
+      }
+
+      const [, itemId] = ctx.match;
+      const scope = await loadUserScope(supabase, userId);
+
+      if (itemId) {
+        // Only items of the household can be ticked off, whoever's list message it is
+        const item = await setShoppingItemCompleted(supabase, itemId, scope.userIds);
+        if (!item) {
+          await ctx.answerCallbackQuery({ text: 'This item is no longer on the list.' });
+        } else {
+          await ctx.answerCallbackQuery({ text: item.completed ? `☑️ ${item.name}` : `☐ ${item.name}` });
+        }
+      } else {
+        const removed = await clearCompletedShoppingItems(supabase, scope.userIds);
+        await ctx.answerCallbackQuery({ text: `🧹 Removed ${removed}` });
+      }
+
+      const { text, keyboard } = await listMessage(userId);
+      await ctx.editMessageText(text, { parse_mode: 'HTML', reply_markup: keyboard });
+    } catch (error) {
+      logger.error('Error handling a shopping list button', error);
+      await ctx.answerCallbackQuery({ text: 'Could not update the list. Please try again.' });
+    }
+  });
+}
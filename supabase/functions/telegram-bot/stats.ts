@@ -0,0 +1,87 @@
+import { Bot, Context } from "https://deno.land/x/grammy@v1.36.3/mod.ts";
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { buildOutcomeReport, OutcomeReport } from '../_shared/analytics.ts';
+import { addDays, todayInTimezone } from '../_shared/dates.ts';
+import { escapeHtml, formatDate } from '../_shared/format.ts';
+import { logger } from '../_shared/logger.ts';
+import { loadUserTimezones } from '../_shared/user-preferences.ts';
+import { findUserIdByTelegramId } from './users.ts';
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 365;
+
+function formatPercent(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+function formatChange(change: number | null): string {
+  if (change === null) return 'no data for the week before';
+  if (change === 0) return 'same as the week before';
+  return `${change > 0 ? '▲' : '▼'} ${Math.round(Math.abs(change) * 100)}% vs. the week before`;
+}
+
+function renderStats(report: OutcomeReport, days: number): string {
+  const { totals } = report;
+  const lines = [
+    `📊 <b>Your last ${days} days</b> (${formatDate(report.range.start)} – ${formatDate(report.range.end)})`,
+    '',
+  ];
+
+  if (totals.total === 0) {
+    lines.push('Nothing was used up or thrown away in this period yet.');
+  } else {
+    lines.push(
+      `😋 <b>Consumed:</b> ${totals.consumed}`,
+      `🗑️ <b>Discarded:</b> ${totals.discarded}`,
+      `⌛ <b>Expired:</b> ${totals.expired}`,
+      `♻️ <b>Wasted:</b> ${totals.wasted} of ${totals.total} (${formatPercent(totals.waste_rate)})`,
+    );
+  }
+
+  if (report.week_over_week) {
+    lines.push('', `📈 <b>This week's waste:</b> ${formatChange(report.week_over_week.wasted_change)}`);
+  }
+
+  if (report.most_wasted_categories.length > 0) {
+    lines.push('', '<b>Most wasted:</b>');
+    for (const { category, wasted } of report.most_wasted_categories.slice(0, 3)) {
+      lines.push(`• ${escapeHtml(category)}: ${wasted}`);
+    }
+  }
+
+  lines.push(
+    '',
+    `📦 ${report.inventory.tracked_food_items} food items tracked, ${report.inventory.expiring_within_7_days} expiring within 7 days`,
+  );
+
+  return lines.join('\n');
+}
+
+export function registerStatsHandlers(bot: Bot, supabase: SupabaseClient) {
+  async function requireUser(ctx: Context): Promise<string | null> {
+    const userId = ctx.from ? await findUserIdByTelegramId(supabase, ctx.from.id) : null;
+    if (!userId) {
+      await ctx.reply("❌ You are not registered yet. Please use /login first.");
+    }
+    return userId;
+  }
+
+  bot.command("stats", async (ctx) => {
+    try {
+      const userId = await requireUser(ctx);
+      if (!userId) return;
+
+      const requested = Number.parseInt(ctx.match?.trim() || '', 10);
+      const days = Number.isFinite(requested) && requested > 0 ? Math.min(requested, MAX_DAYS) : DEFAULT_DAYS;
+
+      const timezone = (await loadUserTimezones(supabase, [userId])).get(userId)!;
+      const end = todayInTimezone(timezone);
+      const report = await buildOutcomeReport(supabase, [userId], { start: addDays(end, -(days - 1)), end }, timezone);
+
+      await ctx.reply(renderStats(report, days), { parse_mode: 'HTML' });
+    } catch (error) {
+      logger.error('Error handling /stats', error);
+      await ctx.reply("❌ Could not load your stats. Please try again later.");
+    }
+  });
+}
@@ -0,0 +1,206 @@
+import { Bot, Context } from "https://deno.land/x/grammy@v1.36.3/mod.ts";
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { escapeHtml } from '../_shared/format.ts';
+import { useSomeOfItem } from '../_shared/item-usage.ts';
+import { logger } from '../_shared/logger.ts';
+import {
+  deleteUnitConversion,
+  isKnownUnit,
+  loadUnitContext,
+  normalizeUnitWord,
+  saveUnitConversion,
+  UnitConversion,
+  validateUnitConversion,
+} from '../_shared/units.ts';
+import { loadUserScope } from '../_shared/user-auth.ts';
+import { findUserIdByTelegramId } from './users.ts';
+
+// /use takes some of an item off the inventory in any unit (_shared/item-usage.ts);
+// /units sizes containers ("1 hộp = 180 ml") and sets item densities for it.
+
+const USE_USAGE_TEXT = `🥄 <b>Use some</b>
+
+• <code>/use 200 g chicken</code>: takes 200 g off your chicken
+• <code>/use 1 hộp sữa tươi</code>: in any unit /units can convert
+• <code>/use 2 eggs</code>: in the item's own unit
+
+The item expiring first is used; at zero it leaves your inventory.`;
+
+const UNITS_USAGE_TEXT = `📏 <b>Units</b>
+
+• <code>/units 1 hộp = 180 ml</code>: how big one of a container is
+• <code>/units remove hộp</code>: forget that size
+• <code>/units density olive oil 0.92</code>: grams per ml of an item, to convert g and ml`;
+
+const NUMBER = '(\\d+(?:[.,]\\d+)?)';
+const USE_PATTERN = new RegExp(`^${NUMBER}\\s*(.+)$`, 'u');
+const CONVERSION_PATTERN = new RegExp(`^(?:${NUMBER}\\s*)?(.+?)\\s*=\\s*${NUMBER}\\s*(.+)$`, 'u');
+const DENSITY_PATTERN = new RegExp(`^density\\s+(.+?)\\s+${NUMBER}$`, 'iu');
+
+function parseNumber(text: string): number {
+  return Number(text.replace(',', '.'));
+}
+
+function formatAmount(quantity: number, unit: string): string {
+  return `${Math.round(quantity * 1000) / 1000} ${unit}`;
+}
+
+function describeConversion(conversion: UnitConversion): string {
+  return `• 1 ${escapeHtml(conversion.unit)} = ${formatAmount(Number(conversion.quantity), escapeHtml(conversion.target_unit))}`;
+}
+
+function escapeLike(text: string): string {
+  return text.replace(/[\\%_]/g, '\\$&');
+}
+
+export function registerUnitHandlers(bot: Bot, supabase: SupabaseClient) {
+  async function requireUser(ctx: Context): Promise<string | null> {
+    const userId = ctx.from ? await findUserIdByTelegramId(supabase, ctx.from.id) : null;
+    if (!userId) {
+      await ctx.reply("❌ You are not registered yet. Please use /login first.");
+    }
+    return userId;
+  }
+
+  bot.command("use", async (ctx) => {
+    try {
+      const userId = await requireUser(ctx);
+      if (!userId) return;
+
+      const match = USE_PATTERN.exec(ctx.match?.trim() || '');
+      if (!match) {
+        await ctx.reply(USE_USAGE_TEXT, { parse_mode: 'HTML' });
+        return;
+      }
+
+      // The first word is a unit only when it is one we can size; "2 eggs" is two of the item's unit
+      const context = await loadUnitContext(supabase, [userId]);
+      const words = match[2].split(/\s+/);
+      const unit = words.length > 1 && isKnownUnit(words[0], context) ? words.shift()! : null;
+      const name = words.join(' ');
+
+      const scope = await loadUserScope(supabase, userId);
+      const { data: candidates, error } = await supabase
+        .from('food_items')
+        .select('id, name')
+        .in('user_id', scope.userIds)
+        .eq('status', 'active')
+        .ilike('name', `%${escapeLike(name)}%`)
+        .order('expiration_date', { ascending: true })
+        .limit(20);
+
+      if (error) throw error;
+
+      const items = (candidates || []) as { id: string; name: string }[];
+      const item = items.find(candidate => candidate.name.toLowerCase() === name.toLowerCase()) || items[0];
+      if (!item) {
+        await ctx.reply(`🔍 Nothing called "${escapeHtml(name)}" in your inventory.`, { parse_mode: 'HTML' });
+        return;
+      }
+
+      const used = await useSomeOfItem(supabase, item.id, { quantity: parseNumber(match[1]), unit }, {
+        userId,
+        ownerIds: scope.userIds,
+      });
+
+      if (used === null) {
+        await ctx.reply('🔍 This item is no longer tracked.');
+        return;
+      }
+      if (typeof used === 'string') {
+        await ctx.reply(`❌ ${escapeHtml(used)}`, { parse_mode: 'HTML' });
+        return;
+      }
+
+      const usedText = unit
+        ? `${formatAmount(parseNumber(match[1]), escapeHtml(unit))} (${formatAmount(used.used, escapeHtml(used.unit))})`
+        : formatAmount(used.used, escapeHtml(used.unit));
+      await ctx.reply(used.used_up
+        ? `✅ Used ${usedText} of <b>${escapeHtml(used.name)}</b>; that was the last of it, so it left your inventory.`
+        : `✅ Used ${usedText} of <b>${escapeHtml(used.name)}</b>; ${formatAmount(used.quantity, escapeHtml(used.unit))} left.`,
+        { parse_mode: 'HTML' });
+    } catch (error) {
+      logger.error('Error handling /use', error);
+      await ctx.reply("❌ Could not update the item. Please try again later.");
+    }
+  });
+
+  bot.command("units", async (ctx) => {
+    try {
+      const userId = await requireUser(ctx);
+      if (!userId) return;
+
+      const argument = ctx.match?.trim() || '';
+      const context = await loadUnitContext(supabase, [userId]);
+
+      if (!argument) {
+        const units = context.units
+          .map(unit => `${escapeHtml(unit.display_name)}${unit.dimension ? ` (${unit.dimension})` : ''}`)
+          .join(', ');
+        const conversions = context.conversions.length > 0
+          ? `<b>Your sizes</b>\n${context.conversions.map(describeConversion).join('\n')}`
+          : 'No container sizes yet.';
+        await ctx.reply(`<b>Your units</b>\n${units}\n\n${conversions}\n\n${UNITS_USAGE_TEXT}`, { parse_mode: 'HTML' });
+        return;
+      }
+
+      const density = DENSITY_PATTERN.exec(argument);
+      if (density) {
+        const value = parseNumber(density[2]);
+        if (!(value > 0)) {
+          await ctx.reply('❌ The density must be a positive number of grams per ml.');
+          return;
+        }
+
+        const scope = await loadUserScope(supabase, userId);
+        const { data, error } = await supabase
+          .from('food_items')
+          .update({ density: value })
+          .in('user_id', scope.userIds)
+          .eq('status', 'active')
+          .ilike('name', `%${escapeLike(density[1])}%`)
+          .select('id');
+
+        if (error) throw error;
+        const count = (data || []).length;
+        await ctx.reply(count > 0
+          ? `✅ ${count} item${count === 1 ? '' : 's'} now weigh ${value} g per ml.`
+          : `🔍 Nothing called "${escapeHtml(density[1])}" in your inventory.`, { parse_mode: 'HTML' });
+        return;
+      }
+
+      if (argument.toLowerCase().startsWith('remove ')) {
+        const unit = normalizeUnitWord(argument.slice('remove '.length), context.units);
+        const removed = await deleteUnitConversion(supabase, userId, unit);
+        await ctx.reply(removed ? `🗑️ Forgot the size of ${escapeHtml(unit)}.` : `📏 You have no size for ${escapeHtml(unit)}.`, {
+          parse_mode: 'HTML',
+        });
+        return;
+      }
+
+      const conversion = CONVERSION_PATTERN.exec(argument);
+      if (!conversion) {
+        await ctx.reply(UNITS_USAGE_TEXT, { parse_mode: 'HTML' });
+        return;
+      }
+
+      // "2 hộp = 360 ml" is stored per one hộp
+      const count = conversion[1] ? parseNumber(conversion[1]) : 1;
+      const validated = validateUnitConversion({
+        unit: conversion[2],
+        quantity: count > 0 ? parseNumber(conversion[3]) / count : NaN,
+        target_unit: conversion[4],
+      }, context.units);
+      if (typeof validated === 'string') {
+        await ctx.reply(`❌ ${escapeHtml(validated)}`, { parse_mode: 'HTML' });
+        return;
+      }
+
+      const saved = await saveUnitConversion(supabase, userId, validated);
+      await ctx.reply(`✅ Saved:\n${describeConversion(saved)}`, { parse_mode: 'HTML' });
+    } catch (error) {
+      logger.error('Error handling /units', error);
+      await ctx.reply("❌ Could not update your units. Please try again later.");
+    }
+  });
+}
@@ -0,0 +1,15 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+
+// Looks up the app user linked to a Telegram account (see /login)
+export async function findUserIdByTelegramId(supabase: SupabaseClient, telegramId: number): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('users')
+    .select('id')
+    .eq('telegram_id', telegramId)
+    .single();
+
+  if (error && error.code !== 'PGRST116') { // PGRST116 = no rows found
+    throw error;
+  }
+  return data?.id || null;
+}
@@ -0,0 +1,70 @@
+import { Bot } from "https://deno.land/x/grammy@v1.36.3/mod.ts";
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { authenticateAdmin } from '../_shared/admin-auth.ts';
+import { logger } from '../_shared/logger.ts';
+import { telegramWebhookSecret } from '../_shared/webhook-auth.ts';
+
+// POST /telegram-bot/setup registers this function as the bot's webhook together with
+// TELEGRAM_WEBHOOK_SECRET, which Telegram then sends with every update. Run it after
+// deploying and whenever the secret changes. Only the service role or an admin may call it.
+
+interface SetupRequest {
+  url?: string;                   // Defaults to <SUPABASE_URL>/functions/v1/telegram-bot
+  drop_pending_updates?: boolean;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+export async function handleWebhookSetup(
+  bot: Bot,
+  supabase: SupabaseClient,
+  req: Request,
+  serviceRoleKey: string
+): Promise<Response> {
+  const actor = await authenticateAdmin(supabase, req, serviceRoleKey);
+  if (!actor) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  let body: SetupRequest = {};
+  const text = await req.text();
+  if (text) {
+    try {
+      body = JSON.parse(text);
+    } catch (_) {
+      return json({ error: 'Invalid JSON body' }, 400);
+    }
+  }
+
+  const url = body.url || `${Deno.env.get('SUPABASE_URL')}/functions/v1/telegram-bot`;
+  if (!url.startsWith('https://')) {
+    return json({ error: 'Webhook url must be an https:// URL' }, 400);
+  }
+
+  let secret: string;
+  try {
+    secret = telegramWebhookSecret();
+  } catch (err) {
+    return json({ error: err instanceof Error ? err.message : 'Missing TELEGRAM_WEBHOOK_SECRET' }, 500);
+  }
+
+  await bot.api.setWebhook(url, {
+    secret_token: secret,
+    drop_pending_updates: body.drop_pending_updates === true,
+  });
+  const info = await bot.api.getWebhookInfo();
+
+  logger.info(`Telegram webhook registered by ${actor.actor}`, { url: info.url });
+
+  return json({
+    ok: true,
+    url: info.url,
+    pending_update_count: info.pending_update_count,
+    last_error_message: info.last_error_message ?? null,
+  });
+}
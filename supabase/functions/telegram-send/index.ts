@@ -1,6 +1,8 @@
-import { Bot } from "https://deno.land/x/grammy@v1.36.3/mod.ts";
+import { Bot, GrammyError } from "https://deno.land/x/grammy@v1.36.3/mod.ts";
+import { correlationIdFrom, initLogger } from '../_shared/logger.ts';
 
-console.log('Function "telegram-send" ready to send messages');
+const logger = initLogger('telegram-send');
+logger.info('Function ready to send messages');
 
 const token = Deno.env.get('TELEGRAM_BOT_TOKEN') || '';
 const bot = new Bot(token);
@@ -61,6 +63,9 @@ function checkRateLimit(clientIP: string): boolean {
 }
 
 Deno.serve(async (req) => {
+  // Callers pass X-Correlation-ID so their entries and ours can be matched up
+  const log = logger.child({ correlation_id: correlationIdFrom(req) });
+
   try {
     if (req.method !== 'POST') {
       return new Response('Method Not Allowed', {
@@ -91,7 +96,7 @@ Deno.serve(async (req) => {
       return json({ error: 'Invalid JSON body' }, 400);
     }
 
-    const { chat_id, text, parse_mode, disable_web_page_preview, disable_notification, reply_to_message_id, source } = payload ?? {};
+    const { chat_id, text, parse_mode, disable_web_page_preview, disable_notification, reply_to_message_id, reply_markup, source } = payload ?? {};
     if (!chat_id || !text) {
       return json({ error: 'Missing required fields: chat_id and text' }, 400);
     }
@@ -99,13 +104,19 @@ Deno.serve(async (req) => {
     // Rate limiting check
     const clientIP = req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip') || 'unknown';
     if (!checkRateLimit(clientIP)) {
-      console.warn(`Rate limit exceeded for IP: ${clientIP}`);
-      return json({ error: 'Rate limit exceeded. Please try again later.' }, 429);
+      log.warn('Rate limit exceeded', { client_ip: clientIP });
+      const resetTime = rateLimit.get(clientIP)?.resetTime ?? Date.now() + RATE_LIMIT_WINDOW;
+      return json({
+        ok: false,
+        error: 'Rate limit exceeded. Please try again later.',
+        error_code: 429,
+        retry_after: Math.max(Math.ceil((resetTime - Date.now()) / 1000), 1)
+      }, 429);
     }
 
     // Enhanced logging for debugging
     const sourceInfo = source || (req.headers.get('Authorization')?.includes('Bearer') ? 'internal' : 'external');
-    console.log(`Sending message to chat ${chat_id} from ${sourceInfo} source`);
+    log.info(`Sending message from ${sourceInfo} source`, { chat_id });
 
     // Build sendMessage options object
     const sendOptions: any = {};
@@ -113,13 +124,25 @@ Deno.serve(async (req) => {
     if (disable_web_page_preview !== undefined) sendOptions.disable_web_page_preview = disable_web_page_preview;
     if (disable_notification !== undefined) sendOptions.disable_notification = disable_notification;
     if (reply_to_message_id) sendOptions.reply_to_message_id = reply_to_message_id;
+    if (reply_markup) sendOptions.reply_markup = reply_markup;
 
     const result = await bot.api.sendMessage(chat_id, text, sendOptions);
 
-    console.log(`Message sent successfully to chat ${chat_id}: ${result.message_id}`);
+    log.info('Message sent successfully', { chat_id, message_id: result.message_id });
     return json({ ok: true, result });
   } catch (err) {
-    console.error('telegram-send error:', err);
+    log.error('telegram-send error', err);
+
+    // Pass Telegram's error code and retry_after through so callers can decide whether to retry
+    if (err instanceof GrammyError) {
+      return json({
+        ok: false,
+        error: err.description,
+        error_code: err.error_code,
+        retry_after: err.parameters?.retry_after
+      }, err.error_code === 429 ? 429 : 502);
+    }
+
     const message = err instanceof Error ? err.message : 'Internal Server Error';
     return json({ ok: false, error: message }, 500);
   }
@@ -0,0 +1,170 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { UsedUpAction, useSomeOfItem } from '../_shared/item-usage.ts';
+import { correlationIdFrom, initLogger } from '../_shared/logger.ts';
+import { authenticateUser } from '../_shared/user-auth.ts';
+
+// CORS helper
+function corsHeaders(origin: string | null) {
+  return {
+    'Access-Control-Allow-Origin': origin ?? '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type, apikey',
+  } as Record<string, string>;
+}
+
+const logger = initLogger('use-item');
+
+// Initialize Supabase client
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+if (!supabaseUrl || !supabaseKey) {
+  logger.error('Missing Supabase environment variables');
+  Deno.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+interface UseItemRequest {
+  item_id: string;
+  quantity: number;
+  unit: string | null;           // Defaults to the item's unit
+  density: number | null;        // Grams per ml, saved as the item's density
+  when_used_up: UsedUpAction;
+}
+
+function jsonResponse(body: unknown, status: number, origin: string | null): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders(origin) },
+  });
+}
+
+// Validates the JSON body; returns an error message when it is invalid
+function parseUseItemRequest(body: Record<string, unknown>): UseItemRequest | string {
+  if (typeof body.item_id !== 'string' || !body.item_id) return 'item_id is required';
+
+  if (typeof body.quantity !== 'number' || !Number.isFinite(body.quantity) || body.quantity <= 0) {
+    return 'quantity must be a positive number';
+  }
+
+  if (body.unit !== undefined && body.unit !== null && typeof body.unit !== 'string') {
+    return 'unit must be a string';
+  }
+
+  const density = body.density ?? null;
+  if (density !== null && (typeof density !== 'number' || !Number.isFinite(density) || density <= 0)) {
+    return 'density must be a positive number of grams per ml';
+  }
+
+  const whenUsedUp = body.when_used_up ?? 'delete';
+  if (whenUsedUp !== 'delete' && whenUsedUp !== 'archive') {
+    return 'when_used_up must be delete or archive';
+  }
+
+  return {
+    item_id: body.item_id,
+    quantity: body.quantity,
+    unit: (body.unit as string | undefined)?.trim() || null,
+    density: density as number | null,
+    when_used_up: whenUsedUp,
+  };
+}
+
+// HTTP server handler
+Deno.serve(async (req) => {
+  const { method, headers } = req;
+  const origin = headers.get('Origin');
+  const log = logger.child({ correlation_id: correlationIdFrom(req) });
+
+  // Handle CORS preflight requests
+  if (method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders(origin) });
+  }
+
+  if (method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405, origin);
+  }
+
+  try {
+    const scope = await authenticateUser(supabase, req);
+    if (!scope) {
+      return jsonResponse({ error: 'Unauthorized: a signed-in user access token is required' }, 401, origin);
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = await req.json();
+    } catch (_) {
+      return jsonResponse({ error: 'Invalid JSON body' }, 400, origin);
+    }
+
+    const request = parseUseItemRequest(body || {});
+    if (typeof request === 'string') {
+      return jsonResponse({ error: request }, 400, origin);
+    }
+
+    // Items of anyone in the caller's groups can be used, as the is_same_group policies allow
+    const item = await useSomeOfItem(supabase, request.item_id, { quantity: request.quantity, unit: request.unit }, {
+      userId: scope.userId,
+      ownerIds: scope.userIds,
+      whenUsedUp: request.when_used_up,
+      density: request.density,
+    });
+
+    if (item === null) {
+      return jsonResponse({ error: 'Item not found' }, 404, origin);
+    }
+    if (typeof item === 'string') {
+      return jsonResponse({ error: item }, 400, origin);
+    }
+
+    log.info('Item used', { user_id: scope.userId, item_id: item.id, used: item.used, used_up: item.used_up });
+    return jsonResponse({ success: true, item }, 200, origin);
+  } catch (err) {
+    log.error('Unhandled error in use-item', err);
+    const message = err instanceof Error ? err.message : 'Internal Server Error';
+
+    return new Response(JSON.stringify({
+      error: message,
+      timestamp: new Date().toISOString()
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json', ...corsHeaders(origin) },
+    });
+  }
+});
+
+/* To invoke locally:
+
+  1. Run `supabase start` (see: https://supabase.com/docs/reference/cli/supabase-start)
+  2. Make an HTTP request:
+
+  // 200 g off an item recorded in kg
+  curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/use-item' \
+    --header 'Authorization: Bearer <user access token>' \
+    --header 'Content-Type: application/json' \
+    --data '{"item_id": "<food item id>", "quantity": 200, "unit": "g"}'
+
+  // A cup of flour recorded in kg, with its density; archive it if that was the last of it
+  curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/use-item' \
+    --header 'Authorization: Bearer <user access token>' \
+    --header 'Content-Type: application/json' \
+    --data '{"item_id": "<food item id>", "quantity": 1, "unit": "cups", "density": 0.53, "when_used_up": "archive"}'
+
+  // Response example:
+  // {
+  //   "success": true,
+  //   "item": {
+  //     "id": "…",
+  //     "name": "chicken breast",
+  //     "used": 0.2,
+  //     "quantity": 0.8,
+  //     "unit": "kg",
+  //     "used_up": false,
+  //     "archived": false,
+  //     …
+  //   }
+  // }
+
+*/
@@ -0,0 +1,36 @@
+BEGIN;
+
+-- Drafts for items entered through the Telegram bot (/add or plain text).
+-- A draft is shown to the user as a confirmation card and only becomes a
+-- food_items row once the user presses "Save".
+CREATE TABLE IF NOT EXISTS public.telegram_item_drafts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    chat_id BIGINT NOT NULL,
+    message_id BIGINT,
+    raw_text TEXT NOT NULL,
+    name TEXT NOT NULL,
+    quantity NUMERIC NOT NULL DEFAULT 1,
+    unit TEXT NOT NULL,
+    category TEXT NOT NULL,
+    expiration_date DATE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() + INTERVAL '1 day'
+);
+
+CREATE INDEX IF NOT EXISTS idx_telegram_item_drafts_chat_id ON public.telegram_item_drafts(chat_id);
+CREATE INDEX IF NOT EXISTS idx_telegram_item_drafts_expires_at ON public.telegram_item_drafts(expires_at);
+
+-- Only the bot (service role) works with drafts
+ALTER TABLE public.telegram_item_drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage item drafts" ON public.telegram_item_drafts
+    FOR ALL USING (auth.role() = 'service_role');
+
+GRANT ALL ON TABLE public.telegram_item_drafts TO service_role;
+
+COMMENT ON TABLE public.telegram_item_drafts IS 'Pending items parsed by the Telegram bot, awaiting user confirmation';
+COMMENT ON COLUMN public.telegram_item_drafts.raw_text IS 'Original message text the draft was parsed from';
+COMMENT ON COLUMN public.telegram_item_drafts.expires_at IS 'Drafts past this time are ignored and cleaned up';
+
+COMMIT;
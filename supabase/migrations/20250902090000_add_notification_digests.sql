@@ -0,0 +1,39 @@
+BEGIN;
+
+-- Digest messages that bundle several queue rows for one chat into a single notification
+CREATE TABLE IF NOT EXISTS public.notification_digests (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    chat_id BIGINT NOT NULL,
+    message_id BIGINT,
+    item_count INTEGER NOT NULL DEFAULT 0,
+    sent_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_digests_user_id ON public.notification_digests(user_id);
+CREATE INDEX IF NOT EXISTS idx_notification_digests_sent_at ON public.notification_digests(sent_at);
+
+-- Link queue rows to the digest that delivered them
+ALTER TABLE public.expiring_items_queue
+    ADD COLUMN IF NOT EXISTS digest_id UUID REFERENCES public.notification_digests(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_expiring_queue_digest_id ON public.expiring_items_queue(digest_id);
+
+-- Enable RLS
+ALTER TABLE public.notification_digests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own digests" ON public.notification_digests
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage all digests" ON public.notification_digests
+    FOR ALL USING (auth.role() = 'service_role');
+
+GRANT SELECT ON TABLE public.notification_digests TO authenticated;
+GRANT ALL ON TABLE public.notification_digests TO service_role;
+
+COMMENT ON TABLE public.notification_digests IS 'Digest notifications that aggregate several expiring_items_queue rows per chat';
+COMMENT ON COLUMN public.expiring_items_queue.digest_id IS 'Digest message this row was delivered in (NULL when sent individually)';
+COMMENT ON COLUMN public.user_settings.preferences IS 'User preferences; notifications.delivery_mode = immediate | digest, notifications.digest_urgent_immediately = boolean';
+
+COMMIT;
@@ -0,0 +1,37 @@
+BEGIN;
+
+-- Retry bookkeeping for notification delivery
+ALTER TABLE public.expiring_items_queue
+    ADD COLUMN IF NOT EXISTS attempt_count INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS last_error TEXT,
+    ADD COLUMN IF NOT EXISTS last_error_code INTEGER;
+
+-- 'failed' rows are retried once next_attempt_at has passed; 'dead' rows are never retried
+ALTER TABLE public.expiring_items_queue DROP CONSTRAINT IF EXISTS expiring_items_queue_status_check;
+ALTER TABLE public.expiring_items_queue
+    ADD CONSTRAINT expiring_items_queue_status_check
+    CHECK (status IN ('pending', 'processing', 'sent', 'failed', 'dead'));
+
+CREATE INDEX IF NOT EXISTS idx_expiring_queue_next_attempt_at
+    ON public.expiring_items_queue(next_attempt_at)
+    WHERE status = 'failed';
+
+-- Keep dead rows around for inspection as long as sent/failed ones
+SELECT cron.schedule(
+    'cleanup-old-queue-items-daily', -- job name (replaces the existing job)
+    '0 2 * * *',                     -- 2 AM daily
+    $$
+    DELETE FROM public.expiring_items_queue
+    WHERE created_at < NOW() - INTERVAL '30 days'
+       OR (status IN ('sent', 'failed', 'dead') AND processed_at < NOW() - INTERVAL '7 days');
+    $$
+);
+
+COMMENT ON COLUMN public.expiring_items_queue.status IS 'Processing status: pending, processing, sent, failed (will be retried), dead (gave up)';
+COMMENT ON COLUMN public.expiring_items_queue.attempt_count IS 'Number of delivery attempts made so far';
+COMMENT ON COLUMN public.expiring_items_queue.next_attempt_at IS 'Earliest time a failed row may be retried (exponential backoff with jitter, or Telegram retry_after)';
+COMMENT ON COLUMN public.expiring_items_queue.last_error IS 'Error message from the most recent failed attempt';
+COMMENT ON COLUMN public.expiring_items_queue.last_error_code IS 'Telegram error code from the most recent failed attempt, if any';
+
+COMMIT;
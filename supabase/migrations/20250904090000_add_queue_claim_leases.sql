@@ -0,0 +1,90 @@
+BEGIN;
+
+-- Lease columns so only one worker processes a queue row at a time
+ALTER TABLE public.expiring_items_queue
+    ADD COLUMN IF NOT EXISTS locked_by TEXT,
+    ADD COLUMN IF NOT EXISTS locked_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_expiring_queue_lease_expires_at
+    ON public.expiring_items_queue(lease_expires_at)
+    WHERE status = 'processing';
+
+-- Returns rows stuck in 'processing' whose lease has lapsed (worker crashed or timed out)
+-- to the retry path. The lapsed attempt counts as a failed one, so a row that keeps
+-- crashing workers eventually becomes 'dead'.
+CREATE OR REPLACE FUNCTION public.reclaim_expired_queue_leases(p_max_retries INTEGER DEFAULT 3)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    reclaimed INTEGER;
+BEGIN
+    UPDATE public.expiring_items_queue
+    SET status = CASE WHEN attempt_count + 1 > p_max_retries THEN 'dead' ELSE 'failed' END,
+        attempt_count = attempt_count + 1,
+        last_error = format('Lease held by %s expired while processing', COALESCE(locked_by, 'unknown worker')),
+        last_error_code = NULL,
+        next_attempt_at = NOW(),
+        lease_expires_at = NULL
+    WHERE status = 'processing'
+      AND COALESCE(lease_expires_at, updated_at + INTERVAL '10 minutes') < NOW();
+
+    GET DIAGNOSTICS reclaimed = ROW_COUNT;
+    RETURN reclaimed;
+END;
+$$;
+
+-- Atomically leases up to p_limit due rows to a worker. FOR UPDATE SKIP LOCKED lets
+-- overlapping workers (cron runs, manual triggers) claim disjoint sets of rows.
+CREATE OR REPLACE FUNCTION public.claim_expiring_queue_items(
+    p_worker_id TEXT,
+    p_limit INTEGER DEFAULT 1000,
+    p_lease_seconds INTEGER DEFAULT 600
+)
+RETURNS SETOF public.expiring_items_queue
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+    RETURN QUERY
+    WITH claimable AS (
+        SELECT q.id
+        FROM public.expiring_items_queue q
+        WHERE q.status IN ('pending', 'failed')
+          AND (q.next_attempt_at IS NULL OR q.next_attempt_at <= NOW())
+          AND q.scheduled_at <= NOW()
+        ORDER BY
+            CASE q.notification_priority
+                WHEN 'urgent' THEN 0
+                WHEN 'high' THEN 1
+                WHEN 'medium' THEN 2
+                ELSE 3
+            END,
+            q.scheduled_at
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    UPDATE public.expiring_items_queue q
+    SET status = 'processing',
+        locked_by = p_worker_id,
+        locked_at = NOW(),
+        lease_expires_at = NOW() + make_interval(secs => p_lease_seconds)
+    FROM claimable
+    WHERE q.id = claimable.id
+    RETURNING q.*;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reclaim_expired_queue_leases(INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.claim_expiring_queue_items(TEXT, INTEGER, INTEGER) TO service_role;
+
+COMMENT ON COLUMN public.expiring_items_queue.locked_by IS 'Worker ID that claimed the row for processing';
+COMMENT ON COLUMN public.expiring_items_queue.lease_expires_at IS 'When the worker lease lapses; expired processing rows are reclaimed';
+COMMENT ON FUNCTION public.reclaim_expired_queue_leases(INTEGER) IS 'Moves processing rows with lapsed leases back to failed (or dead after too many attempts)';
+COMMENT ON FUNCTION public.claim_expiring_queue_items(TEXT, INTEGER, INTEGER) IS 'Leases due pending/failed queue rows to a worker using FOR UPDATE SKIP LOCKED';
+
+COMMIT;
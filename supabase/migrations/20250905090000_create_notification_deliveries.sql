@@ -0,0 +1,48 @@
+BEGIN;
+
+-- One row per queue row and delivery channel. The unique idempotency key is claimed
+-- before anything is sent, so the webhook and the queue processor can never both
+-- deliver the same notification.
+CREATE TABLE IF NOT EXISTS public.notification_deliveries (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    queue_id UUID NOT NULL REFERENCES public.expiring_items_queue(id) ON DELETE CASCADE,
+    channel TEXT NOT NULL DEFAULT 'telegram',
+    idempotency_key TEXT NOT NULL UNIQUE,
+    status TEXT NOT NULL DEFAULT 'sending' CHECK (status IN ('sending', 'sent', 'failed')),
+    source TEXT NOT NULL,
+    chat_id BIGINT NOT NULL,
+    message_id BIGINT,
+    error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (queue_id, channel)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_status ON public.notification_deliveries(status);
+
+CREATE OR REPLACE FUNCTION update_notification_deliveries_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_notification_deliveries_updated_at
+    BEFORE UPDATE ON public.notification_deliveries
+    FOR EACH ROW
+    EXECUTE FUNCTION update_notification_deliveries_updated_at();
+
+ALTER TABLE public.notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage notification deliveries" ON public.notification_deliveries
+    FOR ALL USING (auth.role() = 'service_role');
+
+GRANT ALL ON TABLE public.notification_deliveries TO service_role;
+
+COMMENT ON TABLE public.notification_deliveries IS 'Idempotency records for expiry notifications, one per queue row and channel';
+COMMENT ON COLUMN public.notification_deliveries.idempotency_key IS 'queue_id:channel; claimed before sending so a notification is delivered at most once';
+COMMENT ON COLUMN public.notification_deliveries.source IS 'Entry point that delivered the notification (webhook or queue_processor)';
+COMMENT ON COLUMN public.notification_deliveries.message_id IS 'Telegram message_id of the delivered notification';
+
+COMMIT;
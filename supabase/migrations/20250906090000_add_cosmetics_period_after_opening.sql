@@ -0,0 +1,44 @@
+BEGIN;
+
+-- Cosmetics were created outside of migrations; make sure the table exists for local setups
+CREATE TABLE IF NOT EXISTS public.cosmetics (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    expiry_date DATE,
+    status TEXT DEFAULT 'active',
+    image_url TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Period after opening (PAO): most cosmetics expire N months after they are opened
+-- (the "12M" open-jar symbol), whichever comes first with the printed date
+ALTER TABLE public.cosmetics
+    ADD COLUMN IF NOT EXISTS opened_at DATE,
+    ADD COLUMN IF NOT EXISTS pao_months INTEGER CHECK (pao_months > 0);
+
+ALTER TABLE public.cosmetics
+    ADD COLUMN IF NOT EXISTS effective_expiry_date DATE
+    GENERATED ALWAYS AS (
+        LEAST(expiry_date, (opened_at + make_interval(months => pao_months))::date)
+    ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_cosmetics_effective_expiry_date ON public.cosmetics(effective_expiry_date);
+
+-- Queue rows for cosmetics reference the cosmetic instead of a food item
+ALTER TABLE public.expiring_items_queue
+    ADD COLUMN IF NOT EXISTS cosmetic_id UUID REFERENCES public.cosmetics(id) ON DELETE CASCADE;
+
+ALTER TABLE public.expiring_items_queue
+    ALTER COLUMN food_item_id DROP NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_expiring_queue_cosmetic_days
+    ON public.expiring_items_queue(cosmetic_id, days_until_expiry);
+
+COMMENT ON COLUMN public.cosmetics.opened_at IS 'Date the product was opened';
+COMMENT ON COLUMN public.cosmetics.pao_months IS 'Period after opening in months (the "12M" symbol)';
+COMMENT ON COLUMN public.cosmetics.effective_expiry_date IS 'Earlier of expiry_date and opened_at + pao_months';
+COMMENT ON COLUMN public.expiring_items_queue.cosmetic_id IS 'Cosmetic this notification is for (food_item_id is NULL)';
+
+COMMIT;
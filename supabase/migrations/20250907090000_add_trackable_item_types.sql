@@ -0,0 +1,159 @@
+BEGIN;
+
+-- Further trackable item types next to food_items and cosmetics. Each one is registered in
+-- supabase/functions/_shared/item-types.ts with its table and date column.
+CREATE TABLE IF NOT EXISTS public.medicines (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    quantity NUMERIC NOT NULL DEFAULT 1,
+    unit TEXT NOT NULL DEFAULT 'box',
+    expiration_date DATE NOT NULL,
+    status TEXT DEFAULT 'active',
+    image_url TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.pet_food_items (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    quantity NUMERIC NOT NULL DEFAULT 1,
+    unit TEXT NOT NULL DEFAULT 'bag',
+    expiration_date DATE NOT NULL,
+    status TEXT DEFAULT 'active',
+    image_url TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.warranties (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    expires_on DATE NOT NULL,
+    status TEXT DEFAULT 'active',
+    image_url TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.documents (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    renewal_date DATE NOT NULL,
+    status TEXT DEFAULT 'active',
+    image_url TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_medicines_user_id ON public.medicines(user_id);
+CREATE INDEX IF NOT EXISTS idx_medicines_expiration_date ON public.medicines(expiration_date);
+CREATE INDEX IF NOT EXISTS idx_pet_food_items_user_id ON public.pet_food_items(user_id);
+CREATE INDEX IF NOT EXISTS idx_pet_food_items_expiration_date ON public.pet_food_items(expiration_date);
+CREATE INDEX IF NOT EXISTS idx_warranties_user_id ON public.warranties(user_id);
+CREATE INDEX IF NOT EXISTS idx_warranties_expires_on ON public.warranties(expires_on);
+CREATE INDEX IF NOT EXISTS idx_documents_user_id ON public.documents(user_id);
+CREATE INDEX IF NOT EXISTS idx_documents_renewal_date ON public.documents(renewal_date);
+
+ALTER TABLE public.medicines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pet_food_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.warranties ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own medicines" ON public.medicines
+    FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can manage their own pet food" ON public.pet_food_items
+    FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can manage their own warranties" ON public.warranties
+    FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can manage their own documents" ON public.documents
+    FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+GRANT ALL ON TABLE public.medicines TO authenticated, service_role;
+GRANT ALL ON TABLE public.pet_food_items TO authenticated, service_role;
+GRANT ALL ON TABLE public.warranties TO authenticated, service_role;
+GRANT ALL ON TABLE public.documents TO authenticated, service_role;
+
+-- Function to update the updated_at timestamp of any trackable item table
+CREATE OR REPLACE FUNCTION update_trackable_item_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_medicines_updated_at
+    BEFORE UPDATE ON public.medicines
+    FOR EACH ROW EXECUTE FUNCTION update_trackable_item_updated_at();
+CREATE TRIGGER trigger_update_pet_food_items_updated_at
+    BEFORE UPDATE ON public.pet_food_items
+    FOR EACH ROW EXECUTE FUNCTION update_trackable_item_updated_at();
+CREATE TRIGGER trigger_update_warranties_updated_at
+    BEFORE UPDATE ON public.warranties
+    FOR EACH ROW EXECUTE FUNCTION update_trackable_item_updated_at();
+CREATE TRIGGER trigger_update_documents_updated_at
+    BEFORE UPDATE ON public.documents
+    FOR EACH ROW EXECUTE FUNCTION update_trackable_item_updated_at();
+
+-- Queue rows reference any registered type through (item_type, item_id). food_item_id and
+-- cosmetic_id stay filled for those two types so their foreign keys keep cascading.
+ALTER TABLE public.expiring_items_queue
+    ADD COLUMN IF NOT EXISTS item_type TEXT,
+    ADD COLUMN IF NOT EXISTS item_id UUID;
+
+UPDATE public.expiring_items_queue
+SET item_type = CASE WHEN food_item_id IS NOT NULL THEN 'food' ELSE 'cosmetic' END,
+    item_id = COALESCE(food_item_id, cosmetic_id)
+WHERE item_type IS NULL;
+
+-- Earlier upserts had no unique constraint to conflict on; keep the oldest row of each duplicate
+DELETE FROM public.expiring_items_queue newer
+USING public.expiring_items_queue older
+WHERE newer.item_type = older.item_type
+  AND newer.item_id = older.item_id
+  AND newer.days_until_expiry = older.days_until_expiry
+  AND (newer.created_at, newer.id) > (older.created_at, older.id);
+
+ALTER TABLE public.expiring_items_queue
+    ALTER COLUMN item_type SET NOT NULL,
+    ALTER COLUMN item_id SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_expiring_queue_item_days
+    ON public.expiring_items_queue(item_type, item_id, days_until_expiry);
+
+-- Types without a foreign key from the queue drop their queue rows when the item is deleted
+CREATE OR REPLACE FUNCTION delete_queue_rows_for_item()
+RETURNS TRIGGER AS $$
+BEGIN
+    DELETE FROM public.expiring_items_queue
+    WHERE item_type = TG_ARGV[0] AND item_id = OLD.id;
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_delete_medicine_queue_rows
+    AFTER DELETE ON public.medicines
+    FOR EACH ROW EXECUTE FUNCTION delete_queue_rows_for_item('medicine');
+CREATE TRIGGER trigger_delete_pet_food_queue_rows
+    AFTER DELETE ON public.pet_food_items
+    FOR EACH ROW EXECUTE FUNCTION delete_queue_rows_for_item('pet_food');
+CREATE TRIGGER trigger_delete_warranty_queue_rows
+    AFTER DELETE ON public.warranties
+    FOR EACH ROW EXECUTE FUNCTION delete_queue_rows_for_item('warranty');
+CREATE TRIGGER trigger_delete_document_queue_rows
+    AFTER DELETE ON public.documents
+    FOR EACH ROW EXECUTE FUNCTION delete_queue_rows_for_item('document');
+
+COMMENT ON TABLE public.medicines IS 'Medicines tracked for expiry';
+COMMENT ON TABLE public.pet_food_items IS 'Pet food tracked for expiry';
+COMMENT ON TABLE public.warranties IS 'Product warranties tracked until they end';
+COMMENT ON TABLE public.documents IS 'Documents (passports, licences, insurance) tracked for renewal';
+COMMENT ON COLUMN public.expiring_items_queue.item_type IS 'Registered item type (food, cosmetic, medicine, pet_food, warranty, document)';
+COMMENT ON COLUMN public.expiring_items_queue.item_id IS 'ID of the item in its type''s table';
+
+COMMIT;
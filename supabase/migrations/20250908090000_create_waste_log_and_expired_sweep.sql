@@ -0,0 +1,74 @@
+BEGIN;
+
+-- Items that passed their date. sweep-expired-items adds a row when it sends the final
+-- "this has expired" message; the user's answer (or the lack of one) is the outcome.
+-- Once there is an outcome the item itself is removed from its table.
+CREATE TABLE IF NOT EXISTS public.waste_log (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    item_type TEXT NOT NULL,
+    item_id UUID NOT NULL,
+    item_name TEXT NOT NULL,
+    quantity NUMERIC NOT NULL DEFAULT 1,
+    unit TEXT NOT NULL,
+    category TEXT NOT NULL,
+    expiration_date DATE NOT NULL,
+    outcome TEXT CHECK (outcome IN ('used', 'wasted', 'no_response')),
+    chat_id BIGINT NOT NULL,
+    message_id BIGINT,
+    notified_at TIMESTAMP WITH TIME ZONE,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT waste_log_item_unique UNIQUE (item_type, item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_waste_log_user_id ON public.waste_log(user_id);
+CREATE INDEX IF NOT EXISTS idx_waste_log_open ON public.waste_log(notified_at) WHERE outcome IS NULL;
+
+CREATE OR REPLACE FUNCTION update_waste_log_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_waste_log_updated_at
+    BEFORE UPDATE ON public.waste_log
+    FOR EACH ROW EXECUTE FUNCTION update_waste_log_updated_at();
+
+ALTER TABLE public.waste_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own waste log" ON public.waste_log
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage waste log" ON public.waste_log
+    FOR ALL USING (auth.role() = 'service_role');
+
+GRANT SELECT ON TABLE public.waste_log TO authenticated;
+GRANT ALL ON TABLE public.waste_log TO service_role;
+
+COMMENT ON TABLE public.waste_log IS 'Expired items and whether they were used or thrown away';
+COMMENT ON COLUMN public.waste_log.outcome IS 'used, wasted, or no_response when the user did not answer in time; NULL while waiting for an answer';
+COMMENT ON COLUMN public.waste_log.message_id IS 'Telegram message carrying the answer buttons';
+
+-- Sweep expired items every hour; each user is only messaged at their delivery time,
+-- outside quiet hours, and only once per item
+SELECT cron.schedule(
+    'sweep-expired-items-hourly',  -- job name
+    '5 * * * *',                   -- 5 minutes past every hour
+    $$
+    SELECT
+        net.http_post(
+            url := format('%s/functions/v1/sweep-expired-items', current_setting('app.supabase_url')),
+            headers := jsonb_build_object(
+                'Content-Type', 'application/json',
+                'Authorization', format('Bearer %s', current_setting('app.service_role_key'))
+            ),
+            body := jsonb_build_object()
+        ) as request_id;
+    $$
+);
+
+COMMIT;
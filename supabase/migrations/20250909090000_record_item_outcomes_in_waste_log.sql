@@ -0,0 +1,14 @@
+BEGIN;
+
+-- The waste log becomes the outcome log for every removed item: besides the answers to
+-- sweep-expired-items it records items marked eaten/used or thrown away from a notification
+-- before they expired. Analytics reads consumed / discarded / expired from here.
+ALTER TABLE public.waste_log
+    ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'expired_sweep'
+        CHECK (source IN ('expired_sweep', 'notification'));
+
+CREATE INDEX IF NOT EXISTS idx_waste_log_user_resolved_at ON public.waste_log(user_id, resolved_at);
+
+COMMENT ON COLUMN public.waste_log.source IS 'expired_sweep: the item passed its date; notification: removed with a notification button before that';
+
+COMMIT;
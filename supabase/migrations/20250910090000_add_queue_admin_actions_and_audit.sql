@@ -0,0 +1,56 @@
+BEGIN;
+
+-- Operators may use the queue admin endpoints of expiring-items with the service role key
+-- or with their own session once flagged here
+ALTER TABLE public.users
+    ADD COLUMN IF NOT EXISTS is_admin BOOLEAN NOT NULL DEFAULT false;
+
+-- 'cancelled' rows were withdrawn by an operator and are never sent
+ALTER TABLE public.expiring_items_queue DROP CONSTRAINT IF EXISTS expiring_items_queue_status_check;
+ALTER TABLE public.expiring_items_queue
+    ADD CONSTRAINT expiring_items_queue_status_check
+    CHECK (status IN ('pending', 'processing', 'sent', 'failed', 'dead', 'cancelled'));
+
+CREATE INDEX IF NOT EXISTS idx_expiring_queue_chat_id ON public.expiring_items_queue(chat_id);
+
+-- Clean cancelled rows up like the other finished ones
+SELECT cron.schedule(
+    'cleanup-old-queue-items-daily', -- job name (replaces the existing job)
+    '0 2 * * *',                     -- 2 AM daily
+    $$
+    DELETE FROM public.expiring_items_queue
+    WHERE created_at < NOW() - INTERVAL '30 days'
+       OR (status IN ('sent', 'failed', 'dead', 'cancelled') AND processed_at < NOW() - INTERVAL '7 days');
+    $$
+);
+
+-- Every queue admin action (including dry runs) with who did it and what it touched
+CREATE TABLE IF NOT EXISTS public.queue_admin_audit (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    action TEXT NOT NULL CHECK (action IN ('requeue', 'cancel', 'reschedule', 'purge')),
+    actor TEXT NOT NULL,
+    actor_role TEXT NOT NULL CHECK (actor_role IN ('service_role', 'admin')),
+    filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+    changes JSONB NOT NULL DEFAULT '{}'::jsonb,
+    dry_run BOOLEAN NOT NULL DEFAULT false,
+    affected_count INTEGER NOT NULL DEFAULT 0,
+    affected_ids UUID[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_queue_admin_audit_created_at ON public.queue_admin_audit(created_at);
+
+ALTER TABLE public.queue_admin_audit ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage queue admin audit" ON public.queue_admin_audit
+    FOR ALL USING (auth.role() = 'service_role');
+
+GRANT ALL ON TABLE public.queue_admin_audit TO service_role;
+
+COMMENT ON COLUMN public.users.is_admin IS 'May use the queue admin endpoints with their own session';
+COMMENT ON COLUMN public.expiring_items_queue.status IS 'Processing status: pending, processing, sent, failed (will be retried), dead (gave up), cancelled (withdrawn by an operator)';
+COMMENT ON TABLE public.queue_admin_audit IS 'Audit trail of requeue, cancel, reschedule and purge actions on expiring_items_queue';
+COMMENT ON COLUMN public.queue_admin_audit.actor IS 'Admin user ID, or service_role for the service role key';
+COMMENT ON COLUMN public.queue_admin_audit.affected_ids IS 'Queue rows changed, or that would have been changed for a dry run';
+
+COMMIT;
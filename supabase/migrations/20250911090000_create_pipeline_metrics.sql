@@ -0,0 +1,91 @@
+BEGIN;
+
+-- One row per run of a notification worker, so the latest run's numbers survive cold starts
+CREATE TABLE IF NOT EXISTS public.worker_runs (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    worker TEXT NOT NULL,
+    run_id TEXT NOT NULL,
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    finished_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    success BOOLEAN NOT NULL,
+    stats JSONB NOT NULL DEFAULT '{}'::jsonb,
+    error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_worker_runs_worker_finished_at ON public.worker_runs(worker, finished_at DESC);
+
+-- Cumulative counters (Prometheus counters and histogram buckets), one row per name and label set
+CREATE TABLE IF NOT EXISTS public.pipeline_metric_counters (
+    name TEXT NOT NULL,
+    labels JSONB NOT NULL DEFAULT '{}'::jsonb,
+    value DOUBLE PRECISION NOT NULL DEFAULT 0,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (name, labels)
+);
+
+-- Adds a batch of increments ([{name, labels, value}], each name/labels at most once)
+CREATE OR REPLACE FUNCTION public.increment_pipeline_metrics(p_increments JSONB)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+    INSERT INTO public.pipeline_metric_counters (name, labels, value)
+    SELECT i->>'name', COALESCE(i->'labels', '{}'::jsonb), (i->>'value')::double precision
+    FROM jsonb_array_elements(p_increments) AS i
+    ON CONFLICT (name, labels) DO UPDATE
+    SET value = public.pipeline_metric_counters.value + EXCLUDED.value,
+        updated_at = NOW();
+$$;
+
+-- Queue depth by status and priority, with the earliest scheduled_at of each group
+CREATE OR REPLACE FUNCTION public.get_queue_depth()
+RETURNS TABLE(status text, notification_priority text, count bigint, oldest_scheduled_at timestamptz)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        eiq.status,
+        COALESCE(eiq.notification_priority, 'low'),
+        COUNT(*)::bigint,
+        MIN(eiq.scheduled_at)
+    FROM public.expiring_items_queue eiq
+    GROUP BY eiq.status, COALESCE(eiq.notification_priority, 'low')
+    ORDER BY eiq.status, 2;
+END;
+$$;
+
+ALTER TABLE public.worker_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pipeline_metric_counters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage worker runs" ON public.worker_runs
+    FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage pipeline metric counters" ON public.pipeline_metric_counters
+    FOR ALL USING (auth.role() = 'service_role');
+
+GRANT ALL ON TABLE public.worker_runs TO service_role;
+GRANT ALL ON TABLE public.pipeline_metric_counters TO service_role;
+GRANT EXECUTE ON FUNCTION public.increment_pipeline_metrics(JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_queue_depth() TO service_role;
+
+-- Run history is only needed for recent numbers; the counters keep the totals
+SELECT cron.schedule(
+    'cleanup-worker-runs-daily',  -- job name
+    '30 2 * * *',                 -- 2:30 AM daily
+    $$
+    DELETE FROM public.worker_runs WHERE finished_at < NOW() - INTERVAL '30 days';
+    $$
+);
+
+COMMENT ON TABLE public.worker_runs IS 'Per-run totals of populate-expiring-queue and process-expiring-queue';
+COMMENT ON COLUMN public.worker_runs.stats IS 'Run totals, e.g. {"claimed": 12, "sent": 10, "failed": 2}';
+COMMENT ON TABLE public.pipeline_metric_counters IS 'Cumulative notification pipeline counters exposed by pipeline-metrics';
+COMMENT ON FUNCTION public.increment_pipeline_metrics(JSONB) IS 'Atomically adds [{name, labels, value}] increments to pipeline_metric_counters';
+COMMENT ON FUNCTION public.get_queue_depth() IS 'Queue row counts by status and priority with the earliest scheduled_at';
+
+COMMIT;
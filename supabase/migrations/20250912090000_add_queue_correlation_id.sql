@@ -0,0 +1,14 @@
+BEGIN;
+
+-- Correlation ID of the request that queued the row (populate-expiring-queue run or
+-- check-items-expiring POST); the webhook, worker and dispatcher log it with the row
+ALTER TABLE public.expiring_items_queue
+    ADD COLUMN IF NOT EXISTS correlation_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_expiring_queue_correlation_id
+    ON public.expiring_items_queue(correlation_id)
+    WHERE correlation_id IS NOT NULL;
+
+COMMENT ON COLUMN public.expiring_items_queue.correlation_id IS 'Correlation ID of the request that queued the row; appears in every log entry about it';
+
+COMMIT;
@@ -0,0 +1,56 @@
+BEGIN;
+
+-- Queue INSERT webhook for handle-webhook-callback, signed so the function can reject forged
+-- or replayed payloads. X-Webhook-Signature is the hex HMAC-SHA256 of
+-- '<X-Webhook-Timestamp>.<body>' with app.webhook_secret, which must match the function's
+-- DATABASE_WEBHOOK_SECRET. Replaces the unsigned webhook configured in the dashboard.
+CREATE OR REPLACE FUNCTION public.send_expiring_queue_webhook()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions, pg_temp
+AS $$
+DECLARE
+    webhook_secret TEXT := current_setting('app.webhook_secret', true);
+    payload JSONB;
+    sent_at TEXT;
+BEGIN
+    IF webhook_secret IS NULL OR webhook_secret = '' THEN
+        RAISE WARNING 'app.webhook_secret is not set; queue row % left to process-expiring-queue', NEW.id;
+        RETURN NEW;
+    END IF;
+
+    payload := jsonb_build_object(
+        'type', TG_OP,
+        'table', TG_TABLE_NAME,
+        'schema', TG_TABLE_SCHEMA,
+        'record', to_jsonb(NEW),
+        'old_record', NULL
+    );
+    sent_at := extract(epoch FROM now())::BIGINT::TEXT;
+
+    -- pg_net sends the body as payload::text, so the signature covers the exact bytes received
+    PERFORM net.http_post(
+        url := format('%s/functions/v1/handle-webhook-callback', current_setting('app.supabase_url')),
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', format('Bearer %s', current_setting('app.service_role_key')),
+            'X-Webhook-Timestamp', sent_at,
+            'X-Webhook-Signature', encode(hmac(sent_at || '.' || payload::TEXT, webhook_secret, 'sha256'), 'hex')
+        ),
+        body := payload
+    );
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_expiring_queue_webhook ON public.expiring_items_queue;
+CREATE TRIGGER trigger_expiring_queue_webhook
+    AFTER INSERT ON public.expiring_items_queue
+    FOR EACH ROW
+    EXECUTE FUNCTION public.send_expiring_queue_webhook();
+
+COMMENT ON FUNCTION public.send_expiring_queue_webhook() IS 'Sends new queue rows to handle-webhook-callback with an HMAC signature and timestamp';
+
+COMMIT;
@@ -0,0 +1,39 @@
+BEGIN;
+
+-- Users' third-party API keys, encrypted by the functions (AES-256-GCM with API_KEY_ENCRYPTION_KEY)
+-- before they reach the database. Only the service role can read the table; users manage their
+-- key through api-key-settings or the bot's /setkey and only ever see its last characters.
+CREATE TABLE IF NOT EXISTS public.user_api_keys (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    provider TEXT NOT NULL CHECK (provider IN ('gemini')),
+    ciphertext TEXT NOT NULL,
+    iv TEXT NOT NULL,
+    key_suffix TEXT NOT NULL,
+    verified BOOLEAN NOT NULL DEFAULT false,
+    verified_at TIMESTAMP WITH TIME ZONE,
+    rotated_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (user_id, provider)
+);
+
+ALTER TABLE public.user_api_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage user api keys" ON public.user_api_keys
+    FOR ALL USING (auth.role() = 'service_role');
+
+GRANT ALL ON TABLE public.user_api_keys TO service_role;
+
+COMMENT ON TABLE public.user_api_keys IS 'Encrypted third-party API keys of users; never returned in full';
+COMMENT ON COLUMN public.user_api_keys.ciphertext IS 'Base64 AES-256-GCM ciphertext of the key, bound to user_id and provider';
+COMMENT ON COLUMN public.user_api_keys.iv IS 'Base64 96-bit nonce used for ciphertext';
+COMMENT ON COLUMN public.user_api_keys.key_suffix IS 'Last 4 characters of the key, shown masked to the user';
+COMMENT ON COLUMN public.user_api_keys.verified IS 'Whether the provider accepted the key when it was saved';
+COMMENT ON COLUMN public.user_api_keys.rotated_at IS 'When the key was last replaced by a new one';
+
+-- Plaintext keys are moved here by POST /functions/v1/api-key-settings/migrate, which then
+-- clears this column; it is kept only until that has run
+COMMENT ON COLUMN public.user_settings.gemini_api_key IS 'Deprecated: plaintext Gemini API key awaiting migration to user_api_keys';
+
+COMMIT;
@@ -0,0 +1,37 @@
+BEGIN;
+
+-- Receipts photographed in the Telegram bot. The lines read off the photo are kept here as
+-- an editable checklist; the checked lines become food_items rows once the user presses
+-- "Save".
+CREATE TABLE IF NOT EXISTS public.telegram_receipt_drafts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    chat_id BIGINT NOT NULL,
+    message_id BIGINT,
+    provider TEXT NOT NULL,
+    items JSONB NOT NULL DEFAULT '[]'::jsonb,
+    edit_index INTEGER,
+    edit_prompt_message_id BIGINT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() + INTERVAL '1 day'
+);
+
+CREATE INDEX IF NOT EXISTS idx_telegram_receipt_drafts_chat_id ON public.telegram_receipt_drafts(chat_id);
+CREATE INDEX IF NOT EXISTS idx_telegram_receipt_drafts_expires_at ON public.telegram_receipt_drafts(expires_at);
+
+-- Only the bot (service role) works with drafts
+ALTER TABLE public.telegram_receipt_drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage receipt drafts" ON public.telegram_receipt_drafts
+    FOR ALL USING (auth.role() = 'service_role');
+
+GRANT ALL ON TABLE public.telegram_receipt_drafts TO service_role;
+
+COMMENT ON TABLE public.telegram_receipt_drafts IS 'Items read from receipt photos by the Telegram bot, awaiting user confirmation';
+COMMENT ON COLUMN public.telegram_receipt_drafts.provider IS 'Vision provider that read the receipt (RECEIPT_VISION_PROVIDER)';
+COMMENT ON COLUMN public.telegram_receipt_drafts.items IS 'Checklist lines: name, quantity, unit, category, expiration_date, selected';
+COMMENT ON COLUMN public.telegram_receipt_drafts.edit_index IS 'Line being corrected through the reply prompt, if any';
+COMMENT ON COLUMN public.telegram_receipt_drafts.edit_prompt_message_id IS 'Bot message the correction must reply to';
+COMMENT ON COLUMN public.telegram_receipt_drafts.expires_at IS 'Drafts past this time are ignored and cleaned up';
+
+COMMIT;
@@ -0,0 +1,55 @@
+BEGIN;
+
+-- Household overrides of the built-in shelf-life rules (_shared/shelf-life.ts). An override
+-- belongs to a group, or to a single user who is in no group, and sets the typical lifetime
+-- of a product (matched by name) or of a whole category, optionally for one storage kind.
+CREATE TABLE IF NOT EXISTS public.shelf_life_overrides (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    group_id UUID REFERENCES public.groups(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    product TEXT,
+    category TEXT,
+    storage TEXT CHECK (storage IN ('pantry', 'fridge', 'freezer')),
+    days INTEGER NOT NULL CHECK (days BETWEEN 1 AND 3650),
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT shelf_life_overrides_one_owner CHECK ((group_id IS NULL) <> (user_id IS NULL)),
+    CONSTRAINT shelf_life_overrides_one_subject CHECK ((product IS NULL) <> (category IS NULL))
+);
+
+-- One override per household, product or category, and storage kind
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shelf_life_overrides_unique ON public.shelf_life_overrides (
+    COALESCE(group_id, user_id), COALESCE(product, ''), COALESCE(category, ''), COALESCE(storage, '')
+);
+CREATE INDEX IF NOT EXISTS idx_shelf_life_overrides_group_id ON public.shelf_life_overrides(group_id);
+CREATE INDEX IF NOT EXISTS idx_shelf_life_overrides_user_id ON public.shelf_life_overrides(user_id);
+
+ALTER TABLE public.shelf_life_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage shelf life overrides" ON public.shelf_life_overrides
+    FOR ALL USING (auth.role() = 'service_role');
+
+GRANT ALL ON TABLE public.shelf_life_overrides TO service_role;
+
+COMMENT ON TABLE public.shelf_life_overrides IS 'Per-household overrides of the built-in shelf-life rules used to estimate expiration dates';
+COMMENT ON COLUMN public.shelf_life_overrides.product IS 'Lower-case product name matched as whole words in item names';
+COMMENT ON COLUMN public.shelf_life_overrides.storage IS 'Storage kind the lifetime applies to; NULL for all';
+COMMENT ON COLUMN public.shelf_life_overrides.days IS 'Typical days the item keeps after purchase';
+
+-- Items whose date was suggested from shelf life rather than read off the package, and the
+-- queue rows and bot drafts made from them, so notifications can say the date is estimated
+ALTER TABLE public.food_items
+    ADD COLUMN IF NOT EXISTS expiration_estimated BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.expiring_items_queue
+    ADD COLUMN IF NOT EXISTS expiration_estimated BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.telegram_item_drafts
+    ADD COLUMN IF NOT EXISTS expiration_estimated BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.food_items.expiration_estimated IS 'expiration_date was estimated from typical shelf life, not printed on the item';
+COMMENT ON COLUMN public.expiring_items_queue.expiration_estimated IS 'Copy of the item''s expiration_estimated when the row was queued';
+COMMENT ON COLUMN public.telegram_item_drafts.expiration_estimated IS 'No date was typed, so expiration_date is a shelf-life estimate';
+
+COMMIT;
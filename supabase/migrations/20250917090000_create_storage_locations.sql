@@ -0,0 +1,47 @@
+BEGIN;
+
+-- Where a household keeps its items (_shared/storage-locations.ts). A location belongs to a
+-- group, or to a single user who is in no group, and is one of the storage kinds the
+-- shelf-life rules know, so moving an item between locations can change its expiry.
+CREATE TABLE IF NOT EXISTS public.storage_locations (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    group_id UUID REFERENCES public.groups(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (length(trim(name)) BETWEEN 1 AND 40),
+    kind TEXT NOT NULL CHECK (kind IN ('pantry', 'fridge', 'freezer')),
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT storage_locations_one_owner CHECK ((group_id IS NULL) <> (user_id IS NULL))
+);
+
+-- Location names are unique per household, ignoring case
+CREATE UNIQUE INDEX IF NOT EXISTS idx_storage_locations_unique ON public.storage_locations (
+    COALESCE(group_id, user_id), lower(name)
+);
+CREATE INDEX IF NOT EXISTS idx_storage_locations_group_id ON public.storage_locations(group_id);
+CREATE INDEX IF NOT EXISTS idx_storage_locations_user_id ON public.storage_locations(user_id);
+
+ALTER TABLE public.storage_locations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage storage locations" ON public.storage_locations
+    FOR ALL USING (auth.role() = 'service_role');
+
+GRANT ALL ON TABLE public.storage_locations TO service_role;
+
+COMMENT ON TABLE public.storage_locations IS 'Per-household places items are kept in, e.g. "Kitchen fridge" or "Garage freezer"';
+COMMENT ON COLUMN public.storage_locations.kind IS 'Storage kind whose shelf-life rules apply to items kept here';
+
+-- Items remember where they are; deleting a location leaves its items without one
+ALTER TABLE public.food_items
+    ADD COLUMN IF NOT EXISTS location_id UUID REFERENCES public.storage_locations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_food_items_location_id ON public.food_items(location_id);
+
+-- Queue rows carry the location's name so notifications can say where to look
+ALTER TABLE public.expiring_items_queue
+    ADD COLUMN IF NOT EXISTS location TEXT;
+
+COMMENT ON COLUMN public.food_items.location_id IS 'Storage location the item is kept in; NULL when unknown';
+COMMENT ON COLUMN public.expiring_items_queue.location IS 'Name of the item''s storage location when the row was queued';
+
+COMMIT;
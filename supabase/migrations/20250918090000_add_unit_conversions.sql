@@ -0,0 +1,114 @@
+BEGIN;
+
+-- Units learn what they measure (_shared/units.ts): a dimension and how many base units
+-- (grams, millilitres, pieces) one of them is. Containers such as cans, boxes or "hộp"
+-- have no fixed size and are left without; users size them with unit_conversions.
+ALTER TABLE public.units
+    ADD COLUMN IF NOT EXISTS dimension TEXT CHECK (dimension IN ('mass', 'volume', 'count')),
+    ADD COLUMN IF NOT EXISTS base_factor NUMERIC CHECK (base_factor > 0),
+    ADD CONSTRAINT units_dimension_with_factor CHECK ((dimension IS NULL) = (base_factor IS NULL));
+
+UPDATE public.units AS u
+SET dimension = d.dimension, base_factor = d.base_factor
+FROM (VALUES
+    ('pieces', 'count', 1),
+    ('lbs', 'mass', 453.59237),
+    ('oz', 'mass', 28.349523),
+    ('kg', 'mass', 1000),
+    ('g', 'mass', 1),
+    ('cups', 'volume', 240),
+    ('liters', 'volume', 1000),
+    ('ml', 'volume', 1)
+) AS d(name, dimension, base_factor)
+WHERE u.name = d.name AND u.dimension IS NULL;
+
+COMMENT ON COLUMN public.units.dimension IS 'mass, volume or count; NULL for containers without a fixed size';
+COMMENT ON COLUMN public.units.base_factor IS 'Grams, millilitres or pieces in one of this unit';
+
+-- New users get the default units with their dimensions
+CREATE OR REPLACE FUNCTION public.seed_default_categories_units()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  -- Insert default categories
+  INSERT INTO categories (user_id, name, display_name) VALUES
+    (NEW.id, 'fruits', 'Fruits'),
+    (NEW.id, 'vegetables', 'Vegetables'),
+    (NEW.id, 'dairy', 'Dairy'),
+    (NEW.id, 'meat', 'Meat'),
+    (NEW.id, 'grains', 'Grains'),
+    (NEW.id, 'pantry', 'Pantry'),
+    (NEW.id, 'frozen', 'Frozen'),
+    (NEW.id, 'beverages', 'Beverages'),
+    (NEW.id, 'snacks', 'Snacks'),
+    (NEW.id, 'other', 'Other');
+
+  -- Insert default units
+  INSERT INTO units (user_id, name, display_name, dimension, base_factor) VALUES
+    (NEW.id, 'pieces', 'Pieces', 'count', 1),
+    (NEW.id, 'lbs', 'Lbs', 'mass', 453.59237),
+    (NEW.id, 'oz', 'Oz', 'mass', 28.349523),
+    (NEW.id, 'kg', 'Kg', 'mass', 1000),
+    (NEW.id, 'g', 'G', 'mass', 1),
+    (NEW.id, 'cups', 'Cups', 'volume', 240),
+    (NEW.id, 'liters', 'Liters', 'volume', 1000),
+    (NEW.id, 'ml', 'Ml', 'volume', 1),
+    (NEW.id, 'cans', 'Cans', NULL, NULL),
+    (NEW.id, 'bottles', 'Bottles', NULL, NULL),
+    (NEW.id, 'packages', 'Packages', NULL, NULL);
+
+  RETURN NEW;
+END;
+$$;
+
+ALTER FUNCTION public.seed_default_categories_units() OWNER TO postgres;
+
+-- A user's sizes of containers, e.g. "1 hộp = 180 ml". `unit` and `target_unit` are unit
+-- names or other unit words; a conversion may lead to another container, up to a few steps.
+CREATE TABLE IF NOT EXISTS public.unit_conversions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    unit TEXT NOT NULL,
+    quantity NUMERIC NOT NULL CHECK (quantity > 0),
+    target_unit TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT unit_conversions_distinct_units CHECK (lower(unit) <> lower(target_unit))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_unit_conversions_unique ON public.unit_conversions (user_id, lower(unit));
+
+ALTER TABLE public.unit_conversions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage unit conversions" ON public.unit_conversions
+    FOR ALL USING (auth.role() = 'service_role');
+
+GRANT ALL ON TABLE public.unit_conversions TO service_role;
+
+COMMENT ON TABLE public.unit_conversions IS 'User-defined sizes of units without a fixed size, e.g. 1 hộp = 180 ml';
+COMMENT ON COLUMN public.unit_conversions.quantity IS 'How many target_unit one unit is';
+
+-- Grams per millilitre of one item, overriding the built-in densities when converting
+-- between mass and volume. Used-up items are deleted, or archived when asked to.
+ALTER TABLE public.food_items
+    ADD COLUMN IF NOT EXISTS density NUMERIC CHECK (density > 0),
+    ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'archived'));
+
+CREATE INDEX IF NOT EXISTS idx_food_items_status ON public.food_items(status);
+
+COMMENT ON COLUMN public.food_items.density IS 'Grams per millilitre; NULL uses the built-in density for the product, if any';
+COMMENT ON COLUMN public.food_items.status IS 'active, or archived once used up (kept for history, no longer tracked)';
+
+-- Items used up with "use some" are logged like those removed from a notification; they
+-- may belong to users who never connected Telegram
+ALTER TABLE public.waste_log DROP CONSTRAINT IF EXISTS waste_log_source_check;
+ALTER TABLE public.waste_log
+    ADD CONSTRAINT waste_log_source_check CHECK (source IN ('expired_sweep', 'notification', 'used_up'));
+ALTER TABLE public.waste_log ALTER COLUMN chat_id DROP NOT NULL;
+
+COMMENT ON COLUMN public.waste_log.source IS 'expired_sweep: the item passed its date; notification: removed with a notification button before that; used_up: its quantity reached zero';
+
+COMMIT;
@@ -0,0 +1,21 @@
+BEGIN;
+
+-- How many people a planned meal is cooked for. Shopping lists (_shared/shopping-list.ts)
+-- scale the recipe's ingredients by servings / recipes.servings; without it the recipe is
+-- cooked as written.
+ALTER TABLE public.meal_plans
+    ADD COLUMN IF NOT EXISTS servings INTEGER CHECK (servings > 0);
+
+COMMENT ON COLUMN public.meal_plans.servings IS 'Servings to cook; NULL cooks the recipe''s own servings';
+
+-- The meal plans a meal-plan row's quantity includes. Generating a list again skips meals
+-- already counted by a row for the same ingredient and adds the shortfall of new ones to it.
+ALTER TABLE public.shopping_items
+    ADD COLUMN IF NOT EXISTS meal_plan_ids UUID[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_shopping_items_source ON public.shopping_items(user_id, source);
+
+COMMENT ON COLUMN public.shopping_items.meal_plan_ids IS 'Meal plans whose shortfall the quantity includes (meal-plan rows); empty for other sources';
+COMMENT ON COLUMN public.shopping_items.source IS 'manual: added by hand; meal-plan: missing for planned meals (shopping-list function); inventory: restocking';
+
+COMMIT;
@@ -0,0 +1,27 @@
+BEGIN;
+
+-- Queue admins were flagged with users.is_admin, but the "Users can update their own profile"
+-- policy lets a user write every column of their own row, including that one. Keep the flag in
+-- a table only the service role can write instead.
+CREATE TABLE IF NOT EXISTS public.queue_admins (
+    user_id UUID PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.queue_admins ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage queue admins" ON public.queue_admins
+    FOR ALL USING (auth.role() = 'service_role');
+
+REVOKE ALL ON TABLE public.queue_admins FROM anon, authenticated;
+GRANT ALL ON TABLE public.queue_admins TO service_role;
+
+INSERT INTO public.queue_admins (user_id)
+SELECT id FROM public.users WHERE is_admin
+ON CONFLICT (user_id) DO NOTHING;
+
+ALTER TABLE public.users DROP COLUMN IF EXISTS is_admin;
+
+COMMENT ON TABLE public.queue_admins IS 'Users who may use the queue admin endpoints with their own session; written by the service role only';
+
+COMMIT;
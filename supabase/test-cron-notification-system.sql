@@ -201,6 +201,35 @@ BEGIN
     RAISE NOTICE 'SELECT * FROM cron.job_run_details ORDER BY start_time DESC LIMIT 10;';
 END $$;
 
+-- 11. Check that a user session cannot make itself a queue admin
+DO $$
+DECLARE
+    some_user UUID;
+BEGIN
+    IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_schema = 'public' AND table_name = 'users' AND column_name = 'is_admin') THEN
+        RAISE EXCEPTION 'users.is_admin still exists; users can write it through their own profile.';
+    END IF;
+
+    SELECT id INTO some_user FROM public.users LIMIT 1;
+    IF some_user IS NULL THEN
+        RAISE NOTICE 'No users to test queue admin privileges with';
+        RETURN;
+    END IF;
+
+    -- Act as that user's JWT for the rest of this block
+    PERFORM set_config('request.jwt.claims', json_build_object('sub', some_user, 'role', 'authenticated')::text, true);
+    SET LOCAL ROLE authenticated;
+
+    BEGIN
+        INSERT INTO public.queue_admins (user_id) VALUES (some_user);
+        RAISE EXCEPTION 'A user session could add itself to queue_admins.';
+    EXCEPTION WHEN insufficient_privilege THEN
+        RAISE NOTICE '✓ A user session cannot add itself to queue_admins';
+    END;
+
+    RESET ROLE;
+END $$;
+
 -- Final validation message
 DO $$
 BEGIN